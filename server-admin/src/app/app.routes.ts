@@ -17,6 +17,20 @@ export const routes: Routes = [
     loadComponent: () =>
       import('./features/files/files-list/files-list').then((m) => m.FilesListComponent),
   },
+  {
+    path: 'unmatched',
+    loadComponent: () =>
+      import('./features/files/unmatched-files/unmatched-files').then(
+        (m) => m.UnmatchedFilesComponent
+      ),
+  },
+  {
+    path: 'duplicates',
+    loadComponent: () =>
+      import('./features/files/duplicate-files/duplicate-files').then(
+        (m) => m.DuplicateFilesComponent
+      ),
+  },
   {
     path: 'settings',
     loadComponent: () =>
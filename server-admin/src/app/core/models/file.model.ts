@@ -32,6 +32,56 @@ export interface FileRecord {
   starring?: string | null;
   similarity?: number | null;
   watch_folder_id?: number | null;
+  match_status?: 'matched' | 'unmatched';
+  match_locked?: boolean;
+  fingerprint?: string | null;
+  duration?: number | null;
+  width?: number | null;
+  height?: number | null;
+  bitrate?: number | null;
+  videoProfile?: string | null;
+  hdrFormat?: string | null;
+  probedAt?: string | null;
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string | null;
+}
+
+export interface DuplicateGroup {
+  key: string;
+  imdb_id: string | null;
+  imdbName: string | null;
+  season: number | null;
+  episode: number | null;
+  totalSize: number;
+  reclaimableBytes: number;
+  files: FileRecord[];
+}
+
+export interface DuplicatesReport {
+  fingerprintEnabled: boolean;
+  identical: DuplicateGroup[];
+  variants: DuplicateGroup[];
+  identicalReclaimableBytes: number;
+  variantReclaimableBytes: number;
+}
+
+export interface FileMatchDTO {
+  imdb_id: string;
+  type: 'movie' | 'series';
+  season?: number | null;
+  episode?: number | null;
+  imdbName?: string | null;
+  imdbYear?: number | null;
+}
+
+export interface ImdbSearchResult {
+  imdb_id: string;
+  imdbName: string | null;
+  imdbYear: number | null;
+  imdbType: string | null;
+  yearRange: string | null;
+  image: FileImage | null;
+  starring: string | null;
+  similarity: number | null;
 }
@@ -10,13 +10,24 @@ export interface ScanRecord {
   errors: number;
   processedCount: number;
   skippedCount: number;
+  status: 'completed' | 'failed' | 'cancelled';
   watch_folder_id?: number | null;
 }
 
 export interface DatabaseStats {
   totalFiles: number;
+  unmatchedFiles: number;
   uniqueImdb: number;
   totalSize: number;
   byType: Record<string, number>;
   lastScan: ScanRecord | null;
+  unavailableWatchFolders: UnavailableWatchFolder[];
+}
+
+export interface UnavailableWatchFolder {
+  id: number;
+  name: string | null;
+  path: string;
+  reason: string;
+  since: string;
 }
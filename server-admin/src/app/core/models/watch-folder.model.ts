@@ -6,15 +6,22 @@ export interface WatchFolder {
   scan_interval: string;
   allowed_extensions: string[];
   min_video_size_mb: number;
+  stability_window_seconds: number;
   temporary_extensions: string[];
   type: 'local' | 'network';
+  live_watch: boolean;
   username?: string | null;
   domain?: string | null;
+  max_removal_percent: number;
+  unavailable_reason?: string | null;
+  unavailable_since?: string | null;
   // Note: password_encrypted is never returned from API for security
   created_at?: string;
   updated_at?: string;
   isScanning?: boolean;
+  scanJobId?: string | null;
   hasScheduledJob?: boolean;
+  isWatching?: boolean;
 }
 
 export interface WatchFolderDTO {
@@ -24,9 +31,40 @@ export interface WatchFolderDTO {
   scan_interval?: string;
   allowed_extensions?: string[];
   min_video_size_mb?: number;
+  stability_window_seconds?: number;
   temporary_extensions?: string[];
   type?: 'local' | 'network';
+  live_watch?: boolean;
   username?: string;
   password?: string; // Plain text - sent to API, encrypted on server
   domain?: string;
+  max_removal_percent?: number;
+}
+
+export type ScanPhase = 'discovering' | 'processing' | 'persisting' | 'cleanup';
+
+export interface ScanJob {
+  jobId: string;
+  watchFolderId: number;
+  trigger: 'manual' | 'scheduled';
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  cancelRequested: boolean;
+  phase: ScanPhase;
+  filesFound: number;
+  total: number;
+  processed: number;
+  currentFile: string | null;
+  etaSeconds: number | null;
+  startedAt: string;
+  finishedAt: string | null;
+  result: Record<string, any> | null;
+  error: string | null;
+}
+
+export interface ScanJobStarted {
+  message: string;
+  watchFolderId: number;
+  jobId: string;
+  status: ScanJob['status'];
+  startedAt: string;
 }
@@ -1,8 +1,8 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable, tap } from 'rxjs';
-import { WatchFolder, WatchFolderDTO } from '../models/watch-folder.model';
-import { FileRecord } from '../models/file.model';
+import { WatchFolder, WatchFolderDTO, ScanJob, ScanJobStarted } from '../models/watch-folder.model';
+import { FileRecord, FileMatchDTO, ImdbSearchResult, DuplicatesReport } from '../models/file.model';
 import { ServerSettings, DatabaseStats, ScanRecord } from '../models/settings.model';
 import { environment } from '../../../environments/environment';
 
@@ -40,8 +40,16 @@ export class ApiService {
     return this.http.delete<void>(`${this.apiUrl}/watch-folders/${id}`);
   }
 
-  triggerScan(id: number): Observable<any> {
-    return this.http.post(`${this.apiUrl}/watch-folders/${id}/scan`, {});
+  triggerScan(id: number): Observable<ScanJobStarted> {
+    return this.http.post<ScanJobStarted>(`${this.apiUrl}/watch-folders/${id}/scan`, {});
+  }
+
+  getScanJob(jobId: string): Observable<ScanJob> {
+    return this.http.get<ScanJob>(`${this.apiUrl}/scans/${jobId}`);
+  }
+
+  cancelScan(jobId: string): Observable<{ message: string; job: ScanJob }> {
+    return this.http.delete<{ message: string; job: ScanJob }>(`${this.apiUrl}/scans/${jobId}`);
   }
 
   getWatchFolderStats(id: number): Observable<any> {
@@ -69,6 +77,35 @@ export class ApiService {
     return this.http.get<FileRecord[]>(url, { params: httpParams });
   }
 
+  getUnmatchedFiles(): Observable<FileRecord[]> {
+    return this.http.get<FileRecord[]>(`${this.apiUrl}/files/unmatched`);
+  }
+
+  getDuplicates(): Observable<DuplicatesReport> {
+    return this.http.get<DuplicatesReport>(`${this.apiUrl}/files/duplicates`);
+  }
+
+  setFileMatch(id: number, match: FileMatchDTO): Observable<FileRecord> {
+    return this.http.put<FileRecord>(`${this.apiUrl}/files/${id}/match`, match);
+  }
+
+  unlockFileMatch(id: number): Observable<FileRecord> {
+    return this.http.delete<FileRecord>(`${this.apiUrl}/files/${id}/match`);
+  }
+
+  searchImdb(params: {
+    name: string;
+    year?: number | null;
+    type?: 'movie' | 'series' | null;
+  }): Observable<{ results: ImdbSearchResult[] }> {
+    let httpParams = new HttpParams().set('name', params.name);
+    if (params.year) httpParams = httpParams.set('year', String(params.year));
+    if (params.type) httpParams = httpParams.set('type', params.type);
+    return this.http.get<{ results: ImdbSearchResult[] }>(`${this.apiUrl}/files/imdb-search`, {
+      params: httpParams,
+    });
+  }
+
   getFileStats(): Observable<any> {
     const url = `${this.apiUrl}/files/stats`;
     console.log('Calling getFileStats with URL:', url);
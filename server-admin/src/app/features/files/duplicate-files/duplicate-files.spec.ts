@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+import { DuplicateFilesComponent } from './duplicate-files';
+
+describe('DuplicateFilesComponent', () => {
+  let component: DuplicateFilesComponent;
+  let fixture: ComponentFixture<DuplicateFilesComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DuplicateFilesComponent],
+      providers: [provideHttpClient()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(DuplicateFilesComponent);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,102 @@
+import { Component, OnInit, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ApiService } from '../../../core/services/api.service';
+import { DuplicateGroup, DuplicatesReport, FileRecord } from '../../../core/models/file.model';
+import { WatchFolder } from '../../../core/models/watch-folder.model';
+import { FileDetailsModalComponent } from '../files-list/file-details-modal/file-details-modal';
+import { FilesTableComponent } from '../../../core/components/files-table/files-table';
+
+@Component({
+  selector: 'app-duplicate-files',
+  standalone: true,
+  imports: [CommonModule, FileDetailsModalComponent, FilesTableComponent],
+  templateUrl: './duplicate-files.html',
+  styleUrl: './duplicate-files.css',
+})
+export class DuplicateFilesComponent implements OnInit {
+  report = signal<DuplicatesReport | null>(null);
+  watchFolders = signal<WatchFolder[]>([]);
+  loading = signal<boolean>(true);
+  error = signal<string | null>(null);
+  selectedFile = signal<FileRecord | null>(null);
+
+  sections = computed(() => {
+    const report = this.report();
+    if (!report) return [];
+    return [
+      { title: 'Identical Copies', groups: report.identical },
+      { title: 'Variants', groups: report.variants },
+    ];
+  });
+
+  constructor(private apiService: ApiService) {}
+
+  ngOnInit(): void {
+    this.loadWatchFolders();
+    this.loadReport();
+  }
+
+  loadWatchFolders(): void {
+    this.apiService.getWatchFolders().subscribe({
+      next: (folders) => {
+        this.watchFolders.set(folders || []);
+      },
+      error: (err) => {
+        console.error('Failed to load watch folders', err);
+        this.watchFolders.set([]);
+      },
+    });
+  }
+
+  loadReport(): void {
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.apiService.getDuplicates().subscribe({
+      next: (report) => {
+        this.report.set(report);
+        this.loading.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading duplicates:', err);
+        this.error.set(
+          `Failed to load duplicates: ${err.message || err.statusText || 'Unknown error'}`
+        );
+        this.loading.set(false);
+        this.report.set(null);
+      },
+    });
+  }
+
+  openFileDetails(file: FileRecord): void {
+    this.selectedFile.set(file);
+  }
+
+  closeFileDetails(): void {
+    this.selectedFile.set(null);
+  }
+
+  onMatchChange(file: FileRecord): void {
+    // A new match can move the file to another variant group
+    this.selectedFile.set(file);
+    this.loadReport();
+  }
+
+  getGroupTitle(group: DuplicateGroup): string {
+    const title = group.imdbName || group.imdb_id || group.key;
+    if (group.season != null && group.episode != null) {
+      const season = String(group.season).padStart(2, '0');
+      const episode = String(group.episode).padStart(2, '0');
+      return `${title} S${season}E${episode}`;
+    }
+    return title;
+  }
+
+  formatBytes(bytes: number): string {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+  }
+}
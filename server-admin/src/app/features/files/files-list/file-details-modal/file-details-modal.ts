@@ -1,20 +1,32 @@
-import { Component, Input, Output, EventEmitter, HostListener } from '@angular/core';
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  HostListener,
+  signal,
+  OnChanges,
+  SimpleChanges,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { FileRecord } from '../../../../core/models/file.model';
+import { FormsModule } from '@angular/forms';
+import { FileRecord, FileMatchDTO, ImdbSearchResult } from '../../../../core/models/file.model';
 import { WatchFolder } from '../../../../core/models/watch-folder.model';
+import { ApiService } from '../../../../core/services/api.service';
 import { DateUtils } from '../../../../core/utils/date-utils';
 
 @Component({
   selector: 'app-file-details-modal',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule],
   templateUrl: './file-details-modal.html',
   styleUrl: './file-details-modal.css',
 })
-export class FileDetailsModalComponent {
+export class FileDetailsModalComponent implements OnChanges {
   @Input() file: FileRecord | null = null;
   @Input() watchFolders: WatchFolder[] = [];
   @Output() close = new EventEmitter<void>();
+  @Output() matchChange = new EventEmitter<FileRecord>();
 
   @HostListener('document:keydown', ['$event'])
   handleEscapeKey(event: KeyboardEvent): void {
@@ -23,6 +35,31 @@ export class FileDetailsModalComponent {
     }
   }
 
+  // Manual match editing
+  editingMatch = signal<boolean>(false);
+  saving = signal<boolean>(false);
+  matchError = signal<string | null>(null);
+  formData = signal<FileMatchDTO>({
+    imdb_id: '',
+    type: 'movie',
+    season: null,
+    episode: null,
+    imdbName: null,
+    imdbYear: null,
+  });
+  searchName = signal<string>('');
+  searchYear = signal<number | null>(null);
+  searching = signal<boolean>(false);
+  searchResults = signal<ImdbSearchResult[] | null>(null);
+
+  constructor(private apiService: ApiService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['file']) {
+      this.editingMatch.set(false);
+    }
+  }
+
   // Expose Array for template use
   Array = Array;
 
@@ -34,6 +71,12 @@ export class FileDetailsModalComponent {
     return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
   }
 
+  formatDuration(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+
   getWatchFolderName(watchFolderId: number | null | undefined): string {
     if (!watchFolderId) return '-';
     const folder = this.watchFolders.find((f) => f.id === watchFolderId);
@@ -71,6 +114,121 @@ export class FileDetailsModalComponent {
     this.close.emit();
   }
 
+  startEditMatch(): void {
+    if (!this.file) return;
+    const type = this.file.type === 'series' ? 'series' : 'movie';
+    this.formData.set({
+      imdb_id: this.file.imdb_id || '',
+      type,
+      season: this.file.season ?? null,
+      episode: this.file.episode ?? null,
+      imdbName: this.file.imdbName ?? null,
+      imdbYear: this.file.imdbYear ?? null,
+    });
+    this.searchName.set(this.file.imdbName || this.file.parsedName || '');
+    this.searchYear.set(this.file.imdbYear ?? null);
+    this.searchResults.set(null);
+    this.matchError.set(null);
+    this.editingMatch.set(true);
+  }
+
+  cancelEditMatch(): void {
+    this.editingMatch.set(false);
+    this.matchError.set(null);
+  }
+
+  updateFormDataImdbId(value: string): void {
+    // Title/year belong to the selected search result, not to a typed-in ID
+    this.formData.update((data) => ({
+      ...data,
+      imdb_id: value.trim(),
+      imdbName: null,
+      imdbYear: null,
+    }));
+  }
+
+  updateFormDataType(value: 'movie' | 'series'): void {
+    this.formData.update((data) => ({ ...data, type: value }));
+  }
+
+  updateFormDataSeason(value: number | null): void {
+    this.formData.update((data) => ({ ...data, season: value }));
+  }
+
+  updateFormDataEpisode(value: number | null): void {
+    this.formData.update((data) => ({ ...data, episode: value }));
+  }
+
+  searchImdb(): void {
+    const name = this.searchName().trim();
+    if (name.length < 2) return;
+
+    this.searching.set(true);
+    this.matchError.set(null);
+    this.apiService
+      .searchImdb({ name, year: this.searchYear(), type: this.formData().type })
+      .subscribe({
+        next: (response) => {
+          this.searchResults.set(response.results || []);
+          this.searching.set(false);
+        },
+        error: (err) => {
+          console.error('IMDB search failed', err);
+          this.matchError.set(err.error?.error || 'IMDB search failed');
+          this.searching.set(false);
+        },
+      });
+  }
+
+  selectSearchResult(result: ImdbSearchResult): void {
+    this.formData.update((data) => ({
+      ...data,
+      imdb_id: result.imdb_id,
+      imdbName: result.imdbName,
+      imdbYear: result.imdbYear,
+    }));
+  }
+
+  saveMatch(): void {
+    if (!this.file?.id) return;
+    const data = this.formData();
+    if (!/^tt\d+$/.test(data.imdb_id)) {
+      this.matchError.set('IMDB ID must be "tt" followed by digits (e.g. tt1234567)');
+      return;
+    }
+
+    this.saving.set(true);
+    this.matchError.set(null);
+    this.apiService.setFileMatch(this.file.id, data).subscribe({
+      next: (file) => {
+        this.saving.set(false);
+        this.editingMatch.set(false);
+        this.matchChange.emit(file);
+      },
+      error: (err) => {
+        console.error('Failed to save match', err);
+        this.matchError.set(err.error?.error || 'Failed to save match');
+        this.saving.set(false);
+      },
+    });
+  }
+
+  unlockMatch(): void {
+    if (!this.file?.id) return;
+    this.saving.set(true);
+    this.apiService.unlockFileMatch(this.file.id).subscribe({
+      next: (file) => {
+        this.saving.set(false);
+        this.matchChange.emit(file);
+      },
+      error: (err) => {
+        console.error('Failed to unlock match', err);
+        this.matchError.set(err.error?.error || 'Failed to unlock match');
+        this.saving.set(false);
+      },
+    });
+  }
+
   formatDate = DateUtils.formatDate;
   formatUnixTimestamp = DateUtils.formatUnixTimestamp;
 }
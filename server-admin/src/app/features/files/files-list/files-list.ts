@@ -92,4 +92,9 @@ export class FilesListComponent implements OnInit {
   closeFileDetails(): void {
     this.selectedFile.set(null);
   }
+
+  onMatchChange(file: FileRecord): void {
+    this.selectedFile.set(file);
+    this.loadFiles();
+  }
 }
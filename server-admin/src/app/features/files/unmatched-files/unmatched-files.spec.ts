@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+import { UnmatchedFilesComponent } from './unmatched-files';
+
+describe('UnmatchedFilesComponent', () => {
+  let component: UnmatchedFilesComponent;
+  let fixture: ComponentFixture<UnmatchedFilesComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [UnmatchedFilesComponent],
+      providers: [provideHttpClient()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(UnmatchedFilesComponent);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,75 @@
+import { Component, OnInit, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ApiService } from '../../../core/services/api.service';
+import { FileRecord } from '../../../core/models/file.model';
+import { WatchFolder } from '../../../core/models/watch-folder.model';
+import { FileDetailsModalComponent } from '../files-list/file-details-modal/file-details-modal';
+import { FilesTableComponent } from '../../../core/components/files-table/files-table';
+
+@Component({
+  selector: 'app-unmatched-files',
+  standalone: true,
+  imports: [CommonModule, FileDetailsModalComponent, FilesTableComponent],
+  templateUrl: './unmatched-files.html',
+  styleUrl: './unmatched-files.css',
+})
+export class UnmatchedFilesComponent implements OnInit {
+  files = signal<FileRecord[]>([]);
+  watchFolders = signal<WatchFolder[]>([]);
+  loading = signal<boolean>(true);
+  error = signal<string | null>(null);
+  selectedFile = signal<FileRecord | null>(null);
+
+  constructor(private apiService: ApiService) {}
+
+  ngOnInit(): void {
+    this.loadWatchFolders();
+    this.loadFiles();
+  }
+
+  loadWatchFolders(): void {
+    this.apiService.getWatchFolders().subscribe({
+      next: (folders) => {
+        this.watchFolders.set(folders || []);
+      },
+      error: (err) => {
+        console.error('Failed to load watch folders', err);
+        this.watchFolders.set([]);
+      },
+    });
+  }
+
+  loadFiles(): void {
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.apiService.getUnmatchedFiles().subscribe({
+      next: (files) => {
+        this.files.set(files || []);
+        this.loading.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading unmatched files:', err);
+        this.error.set(
+          `Failed to load unmatched files: ${err.message || err.statusText || 'Unknown error'}`
+        );
+        this.loading.set(false);
+        this.files.set([]);
+      },
+    });
+  }
+
+  openFileDetails(file: FileRecord): void {
+    this.selectedFile.set(file);
+  }
+
+  closeFileDetails(): void {
+    this.selectedFile.set(null);
+  }
+
+  onMatchChange(file: FileRecord): void {
+    // A pinned file is matched now and leaves this list
+    this.selectedFile.set(file);
+    this.loadFiles();
+  }
+}
@@ -39,8 +39,11 @@ export class WatchFolderFormModalComponent implements OnChanges {
     scan_interval: '*/5 * * * *',
     allowed_extensions: ['.mp4', '.mkv', '.avi'],
     min_video_size_mb: 50,
+    stability_window_seconds: 0,
     temporary_extensions: ['.part', '.tmp', '.download', '.crdownload', '.!qB', '.filepart'],
     type: 'local',
+    live_watch: false,
+    max_removal_percent: 50,
     username: '',
     password: '',
     domain: '',
@@ -58,8 +61,11 @@ export class WatchFolderFormModalComponent implements OnChanges {
           scan_interval: folder.scan_interval,
           allowed_extensions: [...folder.allowed_extensions],
           min_video_size_mb: folder.min_video_size_mb,
+          stability_window_seconds: folder.stability_window_seconds ?? 0,
           temporary_extensions: [...folder.temporary_extensions],
           type: folder.type || 'local',
+          live_watch: folder.live_watch ?? false,
+          max_removal_percent: folder.max_removal_percent ?? 50,
           username: folder.username || '',
           password: '', // Never populate password for security
           domain: folder.domain || '',
@@ -73,8 +79,11 @@ export class WatchFolderFormModalComponent implements OnChanges {
           scan_interval: '*/5 * * * *',
           allowed_extensions: ['.mp4', '.mkv', '.avi'],
           min_video_size_mb: 50,
+          stability_window_seconds: 0,
           temporary_extensions: ['.part', '.tmp', '.download', '.crdownload', '.!qB', '.filepart'],
           type: 'local',
+          live_watch: false,
+          max_removal_percent: 50,
           username: '',
           password: '',
           domain: '',
@@ -169,8 +178,25 @@ export class WatchFolderFormModalComponent implements OnChanges {
     this.formData.update((data) => ({ ...data, min_video_size_mb: value }));
   }
 
+  updateFormDataStabilityWindow(value: number): void {
+    this.formData.update((data) => ({ ...data, stability_window_seconds: value }));
+  }
+
+  updateFormDataMaxRemovalPercent(value: number): void {
+    this.formData.update((data) => ({ ...data, max_removal_percent: value }));
+  }
+
   updateFormDataType(value: 'local' | 'network'): void {
-    this.formData.update((data) => ({ ...data, type: value }));
+    // Live watch is only available for local folders
+    this.formData.update((data) => ({
+      ...data,
+      type: value,
+      live_watch: value === 'local' ? data.live_watch : false,
+    }));
+  }
+
+  updateFormDataLiveWatch(value: boolean): void {
+    this.formData.update((data) => ({ ...data, live_watch: value }));
   }
 
   updateFormDataUsername(value: string): void {
@@ -1,10 +1,14 @@
-import { Component, OnInit, signal } from '@angular/core';
+import { Component, OnDestroy, OnInit, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { Subscription, switchMap, takeWhile, timer } from 'rxjs';
 import { ApiService } from '../../../core/services/api.service';
-import { WatchFolder, WatchFolderDTO } from '../../../core/models/watch-folder.model';
+import { ScanJob, WatchFolder, WatchFolderDTO } from '../../../core/models/watch-folder.model';
 import { WatchFolderFormModalComponent } from './watch-folder-form-modal/watch-folder-form-modal';
 
+// Poll interval for running scan jobs
+const SCAN_POLL_INTERVAL_MS = 1000;
+
 @Component({
   selector: 'app-watch-folders-list',
   standalone: true,
@@ -12,13 +16,15 @@ import { WatchFolderFormModalComponent } from './watch-folder-form-modal/watch-f
   templateUrl: './watch-folders-list.html',
   styleUrl: './watch-folders-list.css',
 })
-export class WatchFoldersListComponent implements OnInit {
+export class WatchFoldersListComponent implements OnInit, OnDestroy {
   watchFolders = signal<WatchFolder[]>([]);
   loading = signal<boolean>(true);
   error = signal<string | null>(null);
   showForm = signal<boolean>(false);
   editingFolder = signal<WatchFolder | null>(null);
   scanningFolders = signal<Set<number>>(new Set());
+  scanJobs = signal<Map<number, ScanJob>>(new Map()); // Running scan per folder
+  private scanPollers = new Map<number, Subscription>();
 
   constructor(private apiService: ApiService) {}
 
@@ -26,6 +32,11 @@ export class WatchFoldersListComponent implements OnInit {
     this.loadWatchFolders();
   }
 
+  ngOnDestroy(): void {
+    this.scanPollers.forEach((poller) => poller.unsubscribe());
+    this.scanPollers.clear();
+  }
+
   loadWatchFolders(): void {
     this.loading.set(true);
     this.error.set(null);
@@ -34,6 +45,12 @@ export class WatchFoldersListComponent implements OnInit {
         console.log('Watch folders loaded:', folders?.length || 0);
         this.watchFolders.set(folders || []);
         this.loading.set(false);
+        // Follow scans that are already running (e.g. scheduled scans)
+        (folders || []).forEach((folder) => {
+          if (folder.id && folder.scanJobId) {
+            this.watchScanJob(folder.id, folder.scanJobId);
+          }
+        });
       },
       error: (err) => {
         console.error('Error loading watch folders:', err);
@@ -115,11 +132,11 @@ export class WatchFoldersListComponent implements OnInit {
     this.scanningFolders.set(currentSet);
 
     this.apiService.triggerScan(folderId).subscribe({
-      next: () => {
+      next: (started) => {
         const updatedSet = new Set(this.scanningFolders());
         updatedSet.delete(folderId);
         this.scanningFolders.set(updatedSet);
-        this.loadWatchFolders();
+        this.watchScanJob(folderId, started.jobId);
       },
       error: (err) => {
         const updatedSet = new Set(this.scanningFolders());
@@ -130,4 +147,80 @@ export class WatchFoldersListComponent implements OnInit {
       },
     });
   }
+
+  /**
+   * Poll a scan job until it finishes, then reload the folders
+   */
+  watchScanJob(folderId: number, jobId: string): void {
+    if (this.scanPollers.has(folderId)) {
+      return;
+    }
+
+    const poller = timer(0, SCAN_POLL_INTERVAL_MS)
+      .pipe(
+        switchMap(() => this.apiService.getScanJob(jobId)),
+        takeWhile((job) => job.status === 'running', true)
+      )
+      .subscribe({
+        next: (job) => {
+          this.setScanJob(folderId, job.status === 'running' ? job : null);
+          if (job.status === 'failed') {
+            this.error.set(`Scan failed: ${job.error || 'Unknown error'}`);
+          }
+        },
+        complete: () => {
+          this.scanPollers.delete(folderId);
+          this.loadWatchFolders();
+        },
+        error: (err) => {
+          this.scanPollers.delete(folderId);
+          this.setScanJob(folderId, null);
+          console.error('Error polling scan job:', err);
+        },
+      });
+
+    this.scanPollers.set(folderId, poller);
+  }
+
+  cancelScan(folderId: number, job: ScanJob): void {
+    this.apiService.cancelScan(job.jobId).subscribe({
+      next: (response) => {
+        this.setScanJob(folderId, response.job);
+      },
+      error: (err) => {
+        this.error.set(err.error?.error || 'Failed to cancel scan');
+        console.error(err);
+      },
+    });
+  }
+
+  scanPercent(job: ScanJob): number {
+    if (job.phase === 'persisting' || job.phase === 'cleanup') {
+      return 100;
+    }
+    return job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+  }
+
+  formatEta(seconds: number | null): string {
+    if (seconds === null) {
+      return '';
+    }
+    if (seconds < 60) {
+      return `${seconds}s left`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    return minutes < 60
+      ? `${minutes}m ${seconds % 60}s left`
+      : `${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
+  }
+
+  private setScanJob(folderId: number, job: ScanJob | null): void {
+    const jobs = new Map(this.scanJobs());
+    if (job) {
+      jobs.set(folderId, job);
+    } else {
+      jobs.delete(folderId);
+    }
+    this.scanJobs.set(jobs);
+  }
 }
@@ -1,4 +1,4 @@
-import express, { Express } from 'express';
+import express, { Express, Request } from 'express';
 import cors from 'cors';
 import morgan from 'morgan';
 import swaggerUi from 'swagger-ui-express';
@@ -9,6 +9,13 @@ import { errorHandler } from './middleware/error-handler';
 import requestLogger from './middleware/request-logger';
 import { apiKeyAuth } from './middleware/api-key';
 import config from './config';
+import { redactQueryParams } from './utils/security-utils';
+
+// Paths accepting signed URLs instead of the X-API-Key header (besides /api/events)
+const SIGNED_URL_PATH_PREFIXES = ['/api/stream/', '/api/subtitles/'];
+
+// Query parameters replaced in logged URLs (api_key: no longer accepted, but clients may still send it)
+const REDACTED_QUERY_PARAMS = ['sig', 'api_key'];
 
 /**
  * Express application setup
@@ -16,11 +23,18 @@ import config from './config';
 function createApp(): Express {
   const app = express();
 
+  // Client IPs (signed stream URLs bound to an IP) from X-Forwarded-For behind a reverse proxy
+  if (config.trustProxy) {
+    app.set('trust proxy', true);
+  }
+
   // Basic middleware
   app.use(cors());
   app.use(express.json());
 
   // Morgan HTTP logger (integrate with Winston)
+  // URL signatures are credentials: keep them out of the access log
+  morgan.token('url', (req: Request) => redactQueryParams(req.originalUrl || req.url, REDACTED_QUERY_PARAMS));
   app.use(morgan('combined', {
     stream: {
       write: (message: string) => logger.info(message.trim())
@@ -37,13 +51,17 @@ function createApp(): Express {
   }));
 
   // API key authentication middleware (only applied if API key is configured)
-  // Excludes /health and /api-docs endpoints
+  // Excludes /health and /api-docs endpoints, and signed stream URLs
   if (config.apiKey) {
     app.use((req, res, next) => {
       // Skip authentication for health check and Swagger docs
       if (req.path === '/health' || req.path.startsWith('/api-docs')) {
         return next();
       }
+      // Signed URLs are verified in front of the stream, subtitle and event routes (middleware/stream-url)
+      if (req.query.sig !== undefined && (SIGNED_URL_PATH_PREFIXES.some(prefix => req.path.startsWith(prefix)) || req.path === '/api/events')) {
+        return next();
+      }
       // Apply API key authentication to all other routes
       apiKeyAuth(req, res, next);
     });
@@ -0,0 +1,57 @@
+/**
+ * Database migration CLI
+ * Usage: bun run src/cli/migrate.ts <run|revert|show>
+ *   run    - Apply all pending migrations
+ *   revert - Revert the most recently applied migration
+ *   show   - List migrations and whether they are applied
+ */
+import 'reflect-metadata';
+import { MigrationExecutor } from 'typeorm';
+import logger from '../config/logger';
+import { createDataSource } from '../services/database/data-source';
+
+async function migrate(command: string): Promise<void> {
+  const dataSource = createDataSource();
+  await dataSource.initialize();
+
+  try {
+    switch (command) {
+      case 'run': {
+        const applied = await dataSource.runMigrations({ transaction: 'each' });
+        logger.info('Migrations applied', {
+          count: applied.length,
+          migrations: applied.map(m => m.name)
+        });
+        break;
+      }
+
+      case 'revert':
+        await dataSource.undoLastMigration({ transaction: 'each' });
+        logger.info('Last migration reverted');
+        break;
+
+      case 'show': {
+        const executor = new MigrationExecutor(dataSource);
+        const executed = await executor.getExecutedMigrations();
+        const all = await executor.getAllMigrations();
+        for (const migration of all) {
+          const applied = executed.some(m => m.name === migration.name);
+          logger.info(`${applied ? '[X]' : '[ ]'} ${migration.name}`);
+        }
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown migration command: ${command}. Expected run, revert or show`);
+    }
+  } finally {
+    await dataSource.destroy();
+  }
+}
+
+migrate(process.argv[2] || 'show')
+  .then(() => process.exit(0))
+  .catch((error: any) => {
+    logger.error('Migration command failed', { error: error.message });
+    process.exit(1);
+  });
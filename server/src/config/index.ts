@@ -1,3 +1,6 @@
+import os from 'os';
+import path from 'path';
+
 /**
  * Central configuration for the media API server
  */
@@ -7,20 +10,60 @@ export interface Config {
   mediaDir: string;
   allowedExtensions: string[];
   apiKey?: string;
+  trustProxy: boolean; // Client IPs from X-Forwarded-For (behind a reverse proxy)
+  streamUrls: {
+    secret?: string; // HMAC key of signed stream URLs (defaults to the API key)
+    defaultTtlSeconds: number;
+    maxTtlSeconds: number;
+  };
   cache: {
     type: 'memory' | 'redis' | 'memcached';
     imdbTTL: number;
     maxSize: number;
-    // Redis/Memcached connection options (for future use)
+    // Redis/Memcached connection options
     host?: string;
     port?: number;
     password?: string;
+    keyPrefix: string; // Namespace prefix for keys in shared caches
   };
   scanner: {
     interval: string;
     onStartup: boolean;
     minVideoSizeMB: number;
     temporaryExtensions: string[];
+    watchDebounceMs: number;
+    moveDetectionHash: boolean; // Confirm moved files by a partial content hash, not only size and mtime
+    fingerprint: boolean; // Store an OpenSubtitles hash per file (duplicate detection)
+  };
+  probe: {
+    enabled: boolean; // Run ffprobe on new and changed files
+    ffprobePath: string;
+    timeoutMs: number; // Per file
+  };
+  ffmpeg: {
+    path: string;
+    cacheDir: string; // Extracted subtitles (and other ffmpeg output) kept between requests
+    subtitleTimeoutMs: number; // Extracting a subtitle track reads the whole file
+  };
+  hls: {
+    cacheDir: string; // Transcoded segments (temporary, emptied on startup)
+    maxTranscodes: number; // Concurrent ffmpeg transcodes (CPU-bound)
+    idleTimeoutMs: number; // Transcodes without segment requests this long are stopped
+    cacheTtlMs: number; // Segments of a file are removed this long after its last request
+    segmentSeconds: number;
+    x264Preset: string;
+  };
+  changeFeed: {
+    retentionDays: number; // Changes older than this are pruned (clients with older cursors reload)
+  };
+  trash: {
+    retentionDays: number; // Removed files are kept this long before they are purged
+    purgeInterval: string; // Cron schedule of the purge job
+  };
+  events: {
+    bufferSize: number; // Events kept for Last-Event-ID replay
+    heartbeatMs: number; // Interval of SSE keep-alive comments
+    tokenTtlSeconds: number; // Validity of signed event stream URLs (checked when the stream is opened)
   };
   database: {
     type: 'sqlite' | 'postgresql' | 'mysql' | 'mariadb';
@@ -31,6 +74,7 @@ export interface Config {
     username?: string;
     password?: string;
     database?: string;
+    migrationsRun: boolean; // Apply pending migrations on startup
   };
   logLevel: string;
   imdb: {
@@ -46,6 +90,14 @@ const config: Config = {
   
   // API key configuration (optional - if not set, authentication is disabled)
   apiKey: process.env.API_KEY,
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  
+  // Signed stream URLs (players that cannot send the X-API-Key header)
+  streamUrls: {
+    secret: process.env.STREAM_URL_SECRET,
+    defaultTtlSeconds: parseInt(process.env.STREAM_URL_TTL_SECONDS || '21600', 10), // 6 hours
+    maxTtlSeconds: parseInt(process.env.STREAM_URL_MAX_TTL_SECONDS || '604800', 10) // 7 days
+  },
   
   // Media directory configuration
   mediaDir: process.env.MEDIA_DIR || '/data/videos',
@@ -61,7 +113,8 @@ const config: Config = {
     // Redis/Memcached connection options (optional, only used for non-memory caches)
     host: process.env.CACHE_HOST,
     port: process.env.CACHE_PORT ? parseInt(process.env.CACHE_PORT, 10) : undefined,
-    password: process.env.CACHE_PASSWORD
+    password: process.env.CACHE_PASSWORD,
+    keyPrefix: process.env.CACHE_PREFIX || 'stremio-nas:'
   },
   
   // Scanner configuration
@@ -71,7 +124,52 @@ const config: Config = {
     minVideoSizeMB: parseInt(process.env.MIN_VIDEO_SIZE_MB || '50', 10), // Minimum video size in MB
     temporaryExtensions: (process.env.TEMPORARY_EXTENSIONS || '.part,.tmp,.download,.crdownload,.!qB,.filepart')
       .split(',')
-      .map(ext => ext.trim().toLowerCase())
+      .map(ext => ext.trim().toLowerCase()),
+    watchDebounceMs: parseInt(process.env.WATCH_DEBOUNCE_MS || '2000', 10), // Quiet period before live watch changes are processed
+    moveDetectionHash: process.env.MOVE_DETECTION_HASH === 'true', // Reads head and tail of each indexed file once
+    fingerprint: process.env.FILE_FINGERPRINT === 'true' // Same reads as MOVE_DETECTION_HASH (done once for both)
+  },
+  
+  // Media probe configuration (requires ffprobe, part of ffmpeg)
+  probe: {
+    enabled: process.env.MEDIA_PROBE === 'true', // Store real codecs, resolution and tracks instead of trusting filenames
+    ffprobePath: process.env.FFPROBE_PATH || 'ffprobe',
+    timeoutMs: parseInt(process.env.MEDIA_PROBE_TIMEOUT_MS || '30000', 10)
+  },
+  
+  // ffmpeg configuration (embedded subtitle extraction)
+  ffmpeg: {
+    path: process.env.FFMPEG_PATH || 'ffmpeg',
+    cacheDir: process.env.FFMPEG_CACHE_DIR || './storage/cache',
+    subtitleTimeoutMs: parseInt(process.env.SUBTITLE_EXTRACT_TIMEOUT_MS || '300000', 10) // 5 minutes
+  },
+  
+  // HLS transcoding configuration (CPU-only libx264, for low-bandwidth clients)
+  hls: {
+    cacheDir: process.env.HLS_CACHE_DIR || path.join(os.tmpdir(), 'stremio-nas-hls'),
+    maxTranscodes: parseInt(process.env.HLS_MAX_TRANSCODES || '2', 10),
+    idleTimeoutMs: parseInt(process.env.HLS_IDLE_TIMEOUT_MS || '60000', 10), // 1 minute (paused players resume with a new transcode)
+    cacheTtlMs: parseInt(process.env.HLS_CACHE_TTL_MS || '1800000', 10), // 30 minutes
+    segmentSeconds: parseInt(process.env.HLS_SEGMENT_SECONDS || '6', 10),
+    x264Preset: process.env.HLS_X264_PRESET || 'veryfast'
+  },
+  
+  // File change feed configuration
+  changeFeed: {
+    retentionDays: parseInt(process.env.CHANGE_FEED_RETENTION_DAYS || '30', 10)
+  },
+  
+  // Trash (soft-deleted files) configuration
+  trash: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+    purgeInterval: process.env.TRASH_PURGE_INTERVAL || '0 4 * * *' // Daily at 04:00 (cron format)
+  },
+  
+  // Server-sent events configuration
+  events: {
+    bufferSize: parseInt(process.env.EVENTS_BUFFER_SIZE || '500', 10),
+    heartbeatMs: parseInt(process.env.EVENTS_HEARTBEAT_MS || '15000', 10),
+    tokenTtlSeconds: parseInt(process.env.EVENTS_TOKEN_TTL_SECONDS || '300', 10) // 5 minutes
   },
   
   // Database configuration
@@ -83,7 +181,8 @@ const config: Config = {
     port: process.env.DB_PORT ? parseInt(process.env.DB_PORT, 10) : undefined,
     username: process.env.DB_USERNAME || 'postgres',
     password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME || 'stremio_nas'
+    database: process.env.DB_NAME || 'stremio_nas',
+    migrationsRun: process.env.DB_MIGRATIONS_RUN !== 'false' // Apply pending migrations on startup
   },
   
   // Logging configuration
@@ -79,7 +79,7 @@ const options = {
             },
             resolution: {
               type: 'string',
-              description: 'Video resolution',
+              description: 'Video resolution (probed when MEDIA_PROBE is enabled, otherwise from the filename)',
               example: '1080p',
               nullable: true,
             },
@@ -173,6 +173,67 @@ const options = {
               example: 0.95,
               nullable: true,
             },
+            match_status: {
+              type: 'string',
+              description: 'Whether an IMDB ID was found for the file',
+              example: 'matched',
+              enum: ['matched', 'unmatched'],
+            },
+            match_locked: {
+              type: 'boolean',
+              description: 'Whether the IMDB match was pinned manually (never overwritten by scans)',
+              example: false,
+            },
+            duration: {
+              type: 'number',
+              description: 'Duration in seconds (media probe)',
+              example: 7265.12,
+              nullable: true,
+            },
+            width: {
+              type: 'integer',
+              description: 'Video width in pixels (media probe)',
+              example: 1920,
+              nullable: true,
+            },
+            height: {
+              type: 'integer',
+              description: 'Video height in pixels (media probe)',
+              example: 800,
+              nullable: true,
+            },
+            bitrate: {
+              type: 'integer',
+              description: 'Overall bitrate in bits per second (media probe)',
+              example: 12000000,
+              nullable: true,
+            },
+            videoProfile: {
+              type: 'string',
+              description: 'Video codec profile (media probe)',
+              example: 'Main 10',
+              nullable: true,
+            },
+            hdrFormat: {
+              type: 'string',
+              description: 'HDR format (media probe, null for SDR)',
+              example: 'HDR10',
+              enum: ['HDR10', 'HLG', 'Dolby Vision'],
+              nullable: true,
+            },
+            probedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the file was probed (null if codecs and resolution come from the filename)',
+              nullable: true,
+            },
+            playback: {
+              type: 'string',
+              description: 'Browser compatibility (media probe, null if unknown): direct = stream as-is, remux = use /api/stream/{id}/remux.mp4, transcode = video or main audio codec unsupported, use /api/stream/{id}/hls/master.m3u8',
+              enum: ['direct', 'remux', 'transcode'],
+              example: 'remux',
+              nullable: true,
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -185,6 +246,284 @@ const options = {
             },
           },
         },
+        FileMatch: {
+          type: 'object',
+          required: ['imdb_id', 'type'],
+          properties: {
+            imdb_id: {
+              type: 'string',
+              description: 'IMDB ID to pin',
+              example: 'tt1234567',
+            },
+            type: {
+              type: 'string',
+              enum: ['movie', 'series'],
+              example: 'series',
+            },
+            season: {
+              type: 'integer',
+              description: 'Season number (required for series)',
+              example: 1,
+              nullable: true,
+            },
+            episode: {
+              type: 'integer',
+              description: 'Episode number (required for series)',
+              example: 5,
+              nullable: true,
+            },
+            imdbName: {
+              type: 'string',
+              description: 'Display title (e.g. from an IMDB search result)',
+              nullable: true,
+            },
+            imdbYear: {
+              type: 'integer',
+              description: 'Release year',
+              nullable: true,
+            },
+          },
+        },
+        ImdbSearchResult: {
+          type: 'object',
+          properties: {
+            imdb_id: { type: 'string', example: 'tt1234567' },
+            imdbName: { type: 'string', nullable: true },
+            imdbYear: { type: 'integer', nullable: true },
+            imdbType: { type: 'string', nullable: true },
+            yearRange: { type: 'string', nullable: true },
+            image: { type: 'object', nullable: true },
+            starring: { type: 'string', nullable: true },
+            similarity: { type: 'number', nullable: true },
+          },
+        },
+        FileChanges: {
+          type: 'object',
+          properties: {
+            cursor: {
+              type: 'integer',
+              description: 'Pass as `since` to get the next changes',
+              example: 1532,
+            },
+            added: { type: 'array', items: { type: 'integer' }, example: [101, 102] },
+            updated: { type: 'array', items: { type: 'integer' }, example: [17] },
+            removed: {
+              type: 'array',
+              items: { type: 'integer' },
+              description: 'IDs of deleted files (tombstones)',
+              example: [5],
+            },
+            hasMore: {
+              type: 'boolean',
+              description: 'More changes are available after cursor',
+            },
+            reset: {
+              type: 'boolean',
+              description: 'Cursor missing or too old: reload the full file list, then continue from cursor',
+            },
+          },
+        },
+        Trash: {
+          type: 'object',
+          properties: {
+            retentionDays: {
+              type: 'integer',
+              description: 'Days a file is kept in the trash before it is purged',
+              example: 30,
+            },
+            files: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/File' },
+                  {
+                    type: 'object',
+                    properties: {
+                      deletedAt: {
+                        type: 'string',
+                        format: 'date-time',
+                        description: 'When the file disappeared from storage',
+                      },
+                      purgeAt: {
+                        type: 'string',
+                        format: 'date-time',
+                        description: 'When the file will be deleted permanently',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        DuplicateGroup: {
+          type: 'object',
+          properties: {
+            key: {
+              type: 'string',
+              description: 'Fingerprint (identical copies) or imdb_id[:season:episode] (variants)',
+              example: 'tt1234567',
+            },
+            imdb_id: { type: 'string', nullable: true, example: 'tt1234567' },
+            imdbName: { type: 'string', nullable: true },
+            season: { type: 'integer', nullable: true },
+            episode: { type: 'integer', nullable: true },
+            totalSize: { type: 'integer', description: 'Size of all files in bytes' },
+            reclaimableBytes: {
+              type: 'integer',
+              description: 'Bytes freed by keeping one file (the largest variant)',
+            },
+            files: { type: 'array', items: { $ref: '#/components/schemas/File' } },
+          },
+        },
+        DuplicatesReport: {
+          type: 'object',
+          properties: {
+            fingerprintEnabled: {
+              type: 'boolean',
+              description: 'Whether files are fingerprinted (FILE_FINGERPRINT); identical copies are only found then',
+            },
+            identical: { type: 'array', items: { $ref: '#/components/schemas/DuplicateGroup' } },
+            variants: { type: 'array', items: { $ref: '#/components/schemas/DuplicateGroup' } },
+            identicalReclaimableBytes: { type: 'integer', example: 4294967296 },
+            variantReclaimableBytes: {
+              type: 'integer',
+              description: 'Includes identical copies of matched files',
+              example: 12884901888,
+            },
+          },
+        },
+        AudioTrack: {
+          type: 'object',
+          properties: {
+            stream_index: { type: 'integer', description: 'Stream index in the container', example: 1 },
+            codec: { type: 'string', example: 'eac3' },
+            profile: { type: 'string', nullable: true, example: 'DTS-HD MA' },
+            language: { type: 'string', nullable: true, description: 'ISO 639-2 code as tagged in the container', example: 'eng' },
+            title: { type: 'string', nullable: true, example: 'Commentary' },
+            channels: { type: 'integer', nullable: true, example: 6 },
+            channel_layout: { type: 'string', nullable: true, example: '5.1(side)' },
+            sample_rate: { type: 'integer', nullable: true, example: 48000 },
+            bitrate: { type: 'integer', nullable: true, example: 640000 },
+            is_default: { type: 'boolean' },
+            is_forced: { type: 'boolean' },
+          },
+        },
+        SubtitleTrack: {
+          type: 'object',
+          properties: {
+            stream_index: { type: 'integer', description: 'Stream index in the container', example: 3 },
+            codec: { type: 'string', description: 'e.g. subrip, ass, mov_text, hdmv_pgs_subtitle (image-based)', example: 'subrip' },
+            language: { type: 'string', nullable: true, description: 'ISO 639-2 code as tagged in the container', example: 'eng' },
+            title: { type: 'string', nullable: true, example: 'SDH' },
+            is_default: { type: 'boolean' },
+            is_forced: { type: 'boolean' },
+            is_hearing_impaired: { type: 'boolean' },
+          },
+        },
+        SidecarSubtitle: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', description: 'Subtitle ID (GET /api/subtitles/{subId})', example: 12 },
+            file_id: { type: 'integer', example: 1 },
+            name: { type: 'string', example: 'Movie.en.forced.srt' },
+            path: { type: 'string', description: 'Path relative to the watch folder root', example: 'Movie/Movie.en.forced.srt' },
+            size: { type: 'integer', example: 48213 },
+            mtime: { type: 'integer', example: 1704067200000 },
+            format: { type: 'string', enum: ['srt', 'ass', 'ssa', 'vtt'] },
+            language: { type: 'string', nullable: true, description: 'ISO 639-2 code from the filename suffix', example: 'eng' },
+            is_forced: { type: 'boolean' },
+            is_hearing_impaired: { type: 'boolean' },
+          },
+        },
+        FileTracks: {
+          type: 'object',
+          properties: {
+            fileId: { type: 'integer', example: 1 },
+            probed: {
+              type: 'boolean',
+              description: 'False if the file was not probed yet (tracks unknown, not absent)',
+            },
+            probedAt: { type: 'string', format: 'date-time', nullable: true },
+            audio: { type: 'array', items: { $ref: '#/components/schemas/AudioTrack' } },
+            subtitles: { type: 'array', items: { $ref: '#/components/schemas/SubtitleTrack' } },
+          },
+        },
+        RematchRequest: {
+          type: 'object',
+          required: ['filter'],
+          properties: {
+            filter: {
+              type: 'object',
+              description: 'At least one criterion is required',
+              properties: {
+                watch_folder_id: { type: 'integer', example: 1 },
+                path_prefix: {
+                  type: 'string',
+                  description: 'File or directory path relative to the watch folder root',
+                  example: 'Pose/Season 1',
+                },
+                imdb_id: { type: 'string', description: 'Current IMDB ID', example: 'tt1234567' },
+                similarity_below: {
+                  type: 'number',
+                  description: 'Only automatic matches with similarity below this value (0-1)',
+                  example: 0.5,
+                },
+              },
+            },
+            imdb_id: {
+              type: 'string',
+              description: 'Force this IMDB ID (files are pinned/locked)',
+              example: 'tt7562112',
+            },
+            type: {
+              type: 'string',
+              enum: ['movie', 'series'],
+              description: 'Type for the forced IMDB ID (defaults to the parsed type)',
+            },
+            dry_run: {
+              type: 'boolean',
+              description: 'Only report what would change',
+              default: false,
+            },
+          },
+        },
+        RematchResult: {
+          type: 'object',
+          properties: {
+            dryRun: { type: 'boolean' },
+            matchedCount: { type: 'integer', description: 'Files selected by the filter' },
+            changedCount: { type: 'integer' },
+            skippedCount: { type: 'integer', description: 'Locked files left unchanged' },
+            duration: { type: 'integer', description: 'Duration in milliseconds' },
+            files: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  path: { type: 'string' },
+                  before: { $ref: '#/components/schemas/MatchSnapshot' },
+                  after: { $ref: '#/components/schemas/MatchSnapshot' },
+                  changed: { type: 'boolean' },
+                  skipped: { type: 'string', enum: ['locked'] },
+                },
+              },
+            },
+          },
+        },
+        MatchSnapshot: {
+          type: 'object',
+          properties: {
+            imdb_id: { type: 'string', nullable: true },
+            type: { type: 'string', nullable: true },
+            season: { type: 'integer', nullable: true },
+            episode: { type: 'integer', nullable: true },
+            imdbName: { type: 'string', nullable: true },
+            match_status: { type: 'string', nullable: true },
+            match_locked: { type: 'boolean' },
+          },
+        },
         Error: {
           type: 'object',
           properties: {
@@ -215,6 +554,122 @@ const options = {
             },
           },
         },
+        ScanJob: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string', example: '3f1c2a4e-8b7d-4c55-9a61-0e2f5d9b7c10' },
+            watchFolderId: { type: 'integer', example: 1 },
+            trigger: { type: 'string', enum: ['manual', 'scheduled'] },
+            status: { type: 'string', enum: ['running', 'completed', 'failed', 'cancelled'] },
+            cancelRequested: {
+              type: 'boolean',
+              description: 'Cancellation requested; status becomes cancelled once the scan has stopped',
+            },
+            phase: {
+              type: 'string',
+              enum: ['discovering', 'processing', 'persisting', 'cleanup'],
+            },
+            filesFound: {
+              type: 'integer',
+              description: 'Files discovered on storage (0 while discovering)',
+              example: 12000,
+            },
+            total: {
+              type: 'integer',
+              description: 'Files to process (excludes files deferred by the stability window)',
+              example: 11990,
+            },
+            processed: {
+              type: 'integer',
+              description: 'Files processed or skipped as unchanged so far',
+              example: 4200,
+            },
+            currentFile: { type: 'string', nullable: true, example: 'Movies/Inception (2010).mkv' },
+            etaSeconds: {
+              type: 'integer',
+              nullable: true,
+              description: 'Estimated remaining processing time (null until it can be estimated)',
+              example: 95,
+            },
+            startedAt: { type: 'string', format: 'date-time' },
+            finishedAt: { type: 'string', format: 'date-time', nullable: true },
+            result: {
+              type: 'object',
+              nullable: true,
+              description: 'Scan totals once completed (filesFound, processedCount, skippedCount, restoredCount, movedCount, removedCount, pendingCount, duration)',
+            },
+            error: { type: 'string', nullable: true },
+          },
+        },
+        StreamToken: {
+          type: 'object',
+          properties: {
+            fileId: { type: 'integer', example: 42 },
+            expiresAt: { type: 'string', format: 'date-time' },
+            ipBound: { type: 'boolean', description: 'URLs are only accepted from the bound IP' },
+            query: {
+              type: 'string',
+              description: 'Signature query string, valid for any stream URL of the file',
+              example: 'exp=1767225600&sig=Zm9vYmFyYmF6cXV4Zm9vYmFyYmF6cXV4Zm9vYmFyYmE',
+            },
+            urls: {
+              type: 'object',
+              properties: {
+                stream: { type: 'string', example: 'http://nas:3000/api/stream/42?exp=1767225600&sig=...' },
+                remux: { type: 'string', example: 'http://nas:3000/api/stream/42/remux.mp4?exp=1767225600&sig=...' },
+                hls: { type: 'string', example: 'http://nas:3000/api/stream/42/hls/master.m3u8?exp=1767225600&sig=...' },
+              },
+            },
+            subtitles: {
+              type: 'array',
+              description: 'Signed WebVTT URLs of the sidecar subtitles and embedded text tracks (embedded tracks are listed once the file is probed)',
+              items: {
+                type: 'object',
+                properties: {
+                  source: { type: 'string', enum: ['sidecar', 'embedded'] },
+                  id: { type: 'integer', description: 'Sidecar subtitle ID or container stream index', example: 7 },
+                  language: { type: 'string', nullable: true, example: 'eng' },
+                  url: { type: 'string', example: 'http://nas:3000/api/subtitles/7?exp=1767225600&sig=...' },
+                },
+              },
+            },
+          },
+        },
+        EventsToken: {
+          type: 'object',
+          properties: {
+            expiresAt: { type: 'string', format: 'date-time' },
+            query: {
+              type: 'string',
+              description: 'Signature query string for GET /api/events',
+              example: 'exp=1767225600&sig=Zm9vYmFyYmF6cXV4Zm9vYmFyYmF6cXV4Zm9vYmFyYmE',
+            },
+            url: { type: 'string', example: 'http://nas:3000/api/events?exp=1767225600&sig=...' },
+          },
+        },
+        TranscodeSession: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: '9b2f4c1e-5a7d-4e3b-8c6f-1d0e2a3b4c5d' },
+            fileId: { type: 'integer', example: 42 },
+            fileName: { type: 'string', example: 'Movie.2020.2160p.mkv' },
+            rendition: { type: 'string', enum: ['480p', '720p', '1080p'] },
+            startSegment: {
+              type: 'integer',
+              description: 'Segment the transcode started at (seeks past its position start a new transcode)',
+              example: 120,
+            },
+            currentSegment: {
+              type: 'integer',
+              nullable: true,
+              description: 'Last segment written (null before the first)',
+              example: 134,
+            },
+            pid: { type: 'integer', nullable: true, description: 'ffmpeg process ID' },
+            startedAt: { type: 'string', format: 'date-time' },
+            lastRequestAt: { type: 'string', format: 'date-time' },
+          },
+        },
         Stats: {
           type: 'object',
           properties: {
@@ -222,10 +677,25 @@ const options = {
               type: 'object',
               properties: {
                 totalFiles: { type: 'integer' },
+                unmatchedFiles: { type: 'integer' },
                 uniqueImdb: { type: 'integer' },
                 totalSize: { type: 'integer' },
                 byType: { type: 'object' },
                 lastScan: { type: 'object', nullable: true },
+                unavailableWatchFolders: {
+                  type: 'array',
+                  description: 'Watch folders where the mass-deletion guard refused to remove files',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'integer' },
+                      name: { type: 'string', nullable: true },
+                      path: { type: 'string' },
+                      reason: { type: 'string' },
+                      since: { type: 'string', format: 'date-time' },
+                    },
+                  },
+                },
               },
             },
             scheduler: {
@@ -259,6 +729,7 @@ const options = {
                   filesFound: { type: 'integer' },
                   duration: { type: 'integer' },
                   errors: { type: 'integer' },
+                  status: { type: 'string', enum: ['completed', 'failed', 'cancelled'] },
                 },
               },
             },
@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../config/logger';
+import config from '../config';
+import eventsService, { ServerEvent } from '../services/events.service';
+import streamUrlService from '../services/stream-url.service';
+
+/**
+ * Controller for the server-sent event stream
+ */
+class EventsController {
+  /**
+   * Stream events (SSE), replaying missed events after Last-Event-ID
+   * @route GET /api/events
+   */
+  stream(req: Request, res: Response): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+    res.flushHeaders();
+
+    // Reconnect delay for EventSource clients
+    res.write('retry: 5000\n\n');
+
+    // Last-Event-ID is sent by EventSource on reconnect; the query parameter is for other clients
+    const lastEventIdValue = req.get('Last-Event-ID') ?? (req.query.lastEventId as string | undefined);
+    if (lastEventIdValue !== undefined) {
+      const lastEventId = parseInt(lastEventIdValue, 10);
+      const missed = isNaN(lastEventId) ? null : eventsService.getEventsSince(lastEventId);
+      if (missed) {
+        missed.forEach(event => this._write(res, event));
+      } else {
+        // Events were dropped from the replay buffer: client should reload its state
+        res.write(`event: reset\ndata: ${JSON.stringify({ lastEventId: lastEventIdValue })}\n\n`);
+      }
+    }
+
+    const unsubscribe = eventsService.subscribe(event => this._write(res, event));
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, config.events.heartbeatMs);
+
+    logger.debug('Event stream opened', { subscribers: eventsService.getSubscriberCount() });
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      logger.debug('Event stream closed', { subscribers: eventsService.getSubscriberCount() });
+    });
+  }
+
+  /**
+   * Sign a short-lived event stream URL (EventSource cannot send the X-API-Key header)
+   * @route POST /api/events/token
+   */
+  createToken(req: Request, res: Response, next: NextFunction): void {
+    try {
+      const signature = streamUrlService.signEvents(config.events.tokenTtlSeconds);
+      const query = streamUrlService.toQuery(signature);
+
+      res.json({
+        expiresAt: new Date(signature.exp * 1000).toISOString(),
+        query,
+        url: `${req.protocol}://${req.get('host')}/api/events?${query}`
+      });
+    } catch (err: any) {
+      logger.error('Error signing event stream URL', { error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Write an event in SSE format
+   * @private
+   */
+  private _write(res: Response, event: ServerEvent): void {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, timestamp: event.timestamp })}\n\n`);
+  }
+}
+
+export default new EventsController();
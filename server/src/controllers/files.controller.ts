@@ -2,8 +2,13 @@ import { Request, Response, NextFunction } from 'express';
 import db from '../services/database.service';
 import scheduler from '../services/scheduler.service';
 import configService from '../services/config.service';
+import imdbService from '../services/imdb.service';
+import rematchService from '../services/rematch.service';
+import duplicatesService from '../services/duplicates.service';
 import logger from '../config/logger';
 import config from '../config';
+import { ApiError } from '../middleware/error-handler';
+import { FileMatchDTO, RematchDTO } from '../types/dtos';
 
 /**
  * Controller for file listing operations
@@ -20,7 +25,9 @@ class FilesController {
       logger.info('Listing files', { 
         extFilter: req.query.ext, 
         imdbFilter: req.query.imdb_id,
-        nameFilter: req.query.name
+        nameFilter: req.query.name,
+        audioLangFilter: req.query.audio_lang,
+        subLangFilter: req.query.sub_lang
       });
       
       // Get files directly from database
@@ -51,6 +58,16 @@ class FilesController {
         // Get all files
         files = await db.getAllFiles();
       }
+
+      // Track language filters narrow any of the above (only probed files have tracks)
+      if (req.validatedAudioLangs) {
+        const fileIds = new Set(await db.getFileIdsByTrackLanguage('audio', req.validatedAudioLangs));
+        files = files.filter(file => fileIds.has(file.id!));
+      }
+      if (req.validatedSubLangs) {
+        const fileIds = new Set(await db.getFileIdsByTrackLanguage('subtitle', req.validatedSubLangs));
+        files = files.filter(file => fileIds.has(file.id!));
+      }
       
       const duration = Date.now() - startTime;
       logger.info('Files listed successfully', { 
@@ -71,7 +88,209 @@ class FilesController {
   }
 
   /**
-   * Trigger manual file scan for all enabled watch folders
+   * List files for which no IMDB ID was found
+   * @route GET /files/unmatched
+   */
+  async listUnmatchedFiles(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const files = await db.getUnmatchedFiles();
+      logger.debug('Unmatched files listed', { count: files.length });
+      res.json(files);
+    } catch (err: any) {
+      logger.error('Error listing unmatched files', { error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * List files in the trash (removed from storage, kept until purged)
+   * @route GET /files/trash
+   */
+  async listTrash(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const retentionMs = config.trash.retentionDays * 24 * 60 * 60 * 1000;
+      const files = (await db.getDeletedFiles()).map(file => ({
+        ...file,
+        purgeAt: new Date(new Date(file.deletedAt!).getTime() + retentionMs).toISOString()
+      }));
+      logger.debug('Trash listed', { count: files.length });
+      res.json({ retentionDays: config.trash.retentionDays, files });
+    } catch (err: any) {
+      logger.error('Error listing trash', { error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Get the audio and subtitle tracks of a file
+   * @route GET /files/:id/tracks
+   */
+  async getFileTracks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tracks = await db.getFileTracks(req.validatedFileId!);
+      if (!tracks) {
+        throw new ApiError(404, 'File not found');
+      }
+      res.json(tracks);
+    } catch (err: any) {
+      logger.error('Error getting file tracks', { error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * List the sidecar subtitles of a file
+   * @route GET /files/:id/subtitles
+   */
+  async listSubtitles(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const subtitles = await db.getSidecarSubtitles(req.validatedFileId!);
+      if (!subtitles) {
+        throw new ApiError(404, 'File not found');
+      }
+      res.json(subtitles);
+    } catch (err: any) {
+      logger.error('Error listing subtitles', { error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Report identical copies and variants of the same title
+   * @route GET /files/duplicates
+   */
+  async getDuplicates(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const report = await duplicatesService.getReport();
+      res.json(report);
+    } catch (err: any) {
+      logger.error('Error building duplicate report', { error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Get file changes (added/updated/removed IDs) after a cursor
+   * @route GET /files/changes
+   */
+  async getChanges(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const since = req.query.since !== undefined ? Number(req.query.since) : null;
+      if (since !== null && (!Number.isInteger(since) || since < 0)) {
+        throw new ApiError(400, 'Invalid cursor', { provided: req.query.since });
+      }
+
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : 1000;
+      if (!Number.isInteger(limit) || limit < 1 || limit > 10000) {
+        throw new ApiError(400, 'Limit must be between 1 and 10000', { provided: req.query.limit });
+      }
+
+      const feed = await db.getFileChanges(since, limit);
+      logger.debug('File changes listed', {
+        since,
+        cursor: feed.cursor,
+        added: feed.added.length,
+        updated: feed.updated.length,
+        removed: feed.removed.length,
+        reset: feed.reset
+      });
+      res.json(feed);
+    } catch (err: any) {
+      logger.error('Error getting file changes', { error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Search IMDB by title to pick a manual match
+   * @route GET /files/imdb-search
+   */
+  async searchImdb(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.validatedName) {
+        throw new ApiError(400, 'Search name is required');
+      }
+
+      const year = req.query.year ? parseInt(req.query.year as string, 10) : null;
+      if (year !== null && (isNaN(year) || year < 1800 || year > 3000)) {
+        throw new ApiError(400, 'Invalid year', { provided: req.query.year });
+      }
+
+      const type = req.query.type as string | undefined;
+      if (type && type !== 'movie' && type !== 'series') {
+        throw new ApiError(400, 'Invalid type', { provided: type, allowed: ['movie', 'series'] });
+      }
+
+      const results = await imdbService.search(req.validatedName, year, type || null);
+      res.json({ results });
+    } catch (err: any) {
+      logger.error('Error searching IMDB', { error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Pin an IMDB match to a file (locked, never overwritten by scans)
+   * @route PUT /files/:id/match
+   */
+  async setFileMatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const fileId = req.validatedFileId!;
+
+    try {
+      const match = this._parseMatch(req.body);
+      const file = await db.setFileMatch(fileId, match);
+
+      if (!file) {
+        throw new ApiError(404, 'File not found');
+      }
+
+      logger.info('File match pinned', { fileId, imdb_id: match.imdb_id, type: match.type });
+      res.json(file);
+    } catch (err: any) {
+      logger.error('Error setting file match', { fileId, error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Remove a pinned match; the file is matched automatically again on the next scan
+   * @route DELETE /files/:id/match
+   */
+  async unlockFileMatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const fileId = req.validatedFileId!;
+
+    try {
+      const file = await db.unlockFileMatch(fileId);
+
+      if (!file) {
+        throw new ApiError(404, 'File not found');
+      }
+
+      logger.info('File match unlocked', { fileId });
+      res.json(file);
+    } catch (err: any) {
+      logger.error('Error unlocking file match', { fileId, error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Re-run IMDB matching for files selected by a filter
+   * @route POST /files/rematch
+   */
+  async rematchFiles(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const request = this._parseRematch(req.body);
+      const result = await rematchService.rematch(request);
+      res.json(result);
+    } catch (err: any) {
+      logger.error('Error rematching files', { error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Start manual file scans of all enabled watch folders in the background
    * @route POST /files/refresh
    */
   async refreshCache(_req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -87,20 +306,22 @@ class FilesController {
         return;
       }
 
-      // Scan all enabled watch folders
-      const results = [];
+      // Start a scan job per watch folder (progress: GET /api/scans/:jobId)
+      const jobs = [];
       for (const folder of watchFolders) {
         if (folder.id) {
           try {
-            const result = await scheduler.triggerScan(folder.id);
-            results.push({
+            const job = scheduler.startScan(folder.id);
+            jobs.push({
               watchFolderId: folder.id,
               path: folder.path,
-              ...result
+              jobId: job.jobId,
+              status: job.status,
+              startedAt: job.startedAt
             });
           } catch (err: any) {
             if (err.message?.includes('already in progress')) {
-              results.push({
+              jobs.push({
                 watchFolderId: folder.id,
                 path: folder.path,
                 error: 'Scan already in progress'
@@ -111,15 +332,10 @@ class FilesController {
           }
         }
       }
-      
-      // Get updated count from database
-      const stats = await db.getStats();
-      
-      res.json({ 
-        message: 'File scans completed',
-        fileCount: stats.totalFiles,
-        results,
-        scanCompleted: new Date().toISOString()
+
+      res.status(202).json({
+        message: 'File scans started',
+        jobs
       });
     } catch (err: any) {
       if (err.message?.includes('already in progress')) {
@@ -172,6 +388,107 @@ class FilesController {
       res.status(500).json({ error: 'Failed to get scan history' });
     }
   }
+
+  /**
+   * Validate a match override request body
+   * @private
+   */
+  private _parseMatch(body: any): FileMatchDTO {
+    const { imdb_id, type, season, episode, imdbName, imdbYear } = body || {};
+
+    if (typeof imdb_id !== 'string' || !/^tt\d+$/.test(imdb_id)) {
+      throw new ApiError(400, 'Invalid IMDB ID format', {
+        provided: imdb_id,
+        expected: 'tt followed by digits (e.g., tt1234567)'
+      });
+    }
+
+    if (type !== 'movie' && type !== 'series') {
+      throw new ApiError(400, 'Invalid type', { provided: type, allowed: ['movie', 'series'] });
+    }
+
+    const isNumber = (value: any) => Number.isInteger(value) && value >= 0;
+    if (type === 'series') {
+      if (!isNumber(season) || !isNumber(episode)) {
+        throw new ApiError(400, 'Season and episode are required for series', { season, episode });
+      }
+    }
+
+    if (imdbName !== undefined && imdbName !== null && typeof imdbName !== 'string') {
+      throw new ApiError(400, 'Invalid IMDB name');
+    }
+    if (imdbYear !== undefined && imdbYear !== null && !isNumber(imdbYear)) {
+      throw new ApiError(400, 'Invalid IMDB year', { provided: imdbYear });
+    }
+
+    return {
+      imdb_id,
+      type,
+      season: type === 'series' ? season : null,
+      episode: type === 'series' ? episode : null,
+      imdbName: imdbName || null,
+      imdbYear: imdbYear ?? null
+    };
+  }
+
+  /**
+   * Validate a rematch request body
+   * @private
+   */
+  private _parseRematch(body: any): RematchDTO {
+    const { filter, imdb_id, type, dry_run } = body || {};
+
+    if (!filter || typeof filter !== 'object') {
+      throw new ApiError(400, 'Filter is required');
+    }
+
+    const { watch_folder_id, path_prefix, imdb_id: filterImdbId, similarity_below } = filter;
+    if (
+      watch_folder_id === undefined &&
+      path_prefix === undefined &&
+      filterImdbId === undefined &&
+      similarity_below === undefined
+    ) {
+      throw new ApiError(400, 'Filter must contain at least one criterion', {
+        allowed: ['watch_folder_id', 'path_prefix', 'imdb_id', 'similarity_below']
+      });
+    }
+    if (watch_folder_id !== undefined && (!Number.isInteger(watch_folder_id) || watch_folder_id <= 0)) {
+      throw new ApiError(400, 'Invalid watch folder ID', { provided: watch_folder_id });
+    }
+    if (path_prefix !== undefined && (typeof path_prefix !== 'string' || !path_prefix)) {
+      throw new ApiError(400, 'Invalid path prefix', { provided: path_prefix });
+    }
+    if (filterImdbId !== undefined && (typeof filterImdbId !== 'string' || !/^tt\d+$/.test(filterImdbId))) {
+      throw new ApiError(400, 'Invalid IMDB ID format in filter', { provided: filterImdbId });
+    }
+    if (similarity_below !== undefined && (typeof similarity_below !== 'number' || similarity_below <= 0 || similarity_below > 1)) {
+      throw new ApiError(400, 'Similarity threshold must be a number between 0 and 1', { provided: similarity_below });
+    }
+
+    if (imdb_id !== undefined && (typeof imdb_id !== 'string' || !/^tt\d+$/.test(imdb_id))) {
+      throw new ApiError(400, 'Invalid IMDB ID format', {
+        provided: imdb_id,
+        expected: 'tt followed by digits (e.g., tt1234567)'
+      });
+    }
+    if (type !== undefined && type !== 'movie' && type !== 'series') {
+      throw new ApiError(400, 'Invalid type', { provided: type, allowed: ['movie', 'series'] });
+    }
+    if (type !== undefined && imdb_id === undefined) {
+      throw new ApiError(400, 'Type can only be set together with a forced IMDB ID');
+    }
+    if (dry_run !== undefined && typeof dry_run !== 'boolean') {
+      throw new ApiError(400, 'dry_run must be a boolean');
+    }
+
+    return {
+      filter: { watch_folder_id, path_prefix, imdb_id: filterImdbId, similarity_below },
+      imdb_id,
+      type,
+      dry_run
+    };
+  }
 }
 
 export default new FilesController();
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../config/logger';
+import { ApiError } from '../middleware/error-handler';
+import scanJobsService from '../services/scan-jobs.service';
+import scheduler from '../services/scheduler.service';
+
+/**
+ * Controller for scan jobs
+ */
+class ScansController {
+  /**
+   * Get progress (or outcome) of a scan job
+   * @route GET /api/scans/:jobId
+   */
+  async getScanJob(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const job = scanJobsService.get(req.params.jobId);
+      if (!job) {
+        throw new ApiError(404, 'Scan job not found', { jobId: req.params.jobId });
+      }
+
+      res.json(job);
+    } catch (err: any) {
+      logger.error('Error getting scan job', { jobId: req.params.jobId, error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Cancel a running scan job
+   * The scan stops at its next checkpoint; the job status then becomes 'cancelled'
+   * @route DELETE /api/scans/:jobId
+   */
+  async cancelScanJob(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const job = scanJobsService.get(req.params.jobId);
+      if (!job) {
+        throw new ApiError(404, 'Scan job not found', { jobId: req.params.jobId });
+      }
+
+      if (!scheduler.cancelScan(job.jobId)) {
+        throw new ApiError(409, 'Scan job is not running', { jobId: job.jobId, status: job.status });
+      }
+
+      res.status(202).json({ message: 'Scan cancellation requested', job });
+    } catch (err: any) {
+      logger.error('Error cancelling scan job', { jobId: req.params.jobId, error: err.message });
+      next(err);
+    }
+  }
+}
+
+export default new ScansController();
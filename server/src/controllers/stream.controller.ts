@@ -1,12 +1,40 @@
 import { Request, Response, NextFunction } from 'express';
-import fs from 'fs';
+import { isIP } from 'net';
 import path from 'path';
+import { Readable } from 'stream';
 import logger from '../config/logger';
+import config from '../config';
 import { ApiError } from '../middleware/error-handler';
 import { getMimeType } from '../utils/file-utils';
 import fileStatsService from '../services/file-stats.service';
 import db from '../services/database.service';
-import config from '../config';
+import mediaProbeService from '../services/media-probe.service';
+import embeddedSubtitlesService from '../services/embedded-subtitles.service';
+import remuxService from '../services/remux.service';
+import hlsService, { HlsRendition, TranscodeLimitError, TranscodeSource } from '../services/hls.service';
+import streamUrlService from '../services/stream-url.service';
+import { createStorageProvider } from '../services/file-scanner/factory';
+import { IStorageProvider, ReadStreamOptions, StorageFileStats } from '../services/file-scanner/interface';
+import { AudioTrack, FileRecord, SubtitleTrack, WatchFolder } from '../types/database';
+import { StreamTokenDTO } from '../types/dtos';
+
+/**
+ * Storage location of a file: the owning watch folder and its provider
+ */
+interface StoredFileSource {
+  watchFolder: WatchFolder;
+  provider: IStorageProvider;
+}
+
+/**
+ * Signed URL of a subtitle in a stream token: a sidecar file or a text track embedded in the container
+ */
+interface SignedSubtitleUrl {
+  source: 'sidecar' | 'embedded';
+  id: number; // Sidecar subtitle ID or container stream index
+  language: string | null;
+  url: string;
+}
 
 /**
  * Controller for video streaming operations
@@ -30,12 +58,12 @@ class StreamController {
         return next(new ApiError(404, 'File not found'));
       }
       
-      // Construct full file path from relative path
-      const filePath = path.join(config.mediaDir, file.path);
+      // Resolve file through its owning watch folder
+      const source = await this._resolveSource(file);
       
       // Get file stats (cached for performance)
-      const stats = await fileStatsService.getCachedFileStats(filePath);
-      const contentType = getMimeType(filePath);
+      const stats = await this._getStats(file, source);
+      const contentType = getMimeType(file.name);
       
       // Set headers (same as GET but no body)
       res.setHeader('Content-Type', contentType);
@@ -80,24 +108,28 @@ class StreamController {
         return next(new ApiError(404, 'File not found'));
       }
       
-      // Construct full file path from relative path
-      const filePath = path.join(config.mediaDir, file.path);
+      // Resolve file through its owning watch folder
+      const source = await this._resolveSource(file);
       const filename = file.name;
       
       // Get file stats (cached for performance)
-      const stats = await fileStatsService.getCachedFileStats(filePath);
-      const contentType = getMimeType(filePath);
+      const stats = await this._getStats(file, source);
+      const contentType = getMimeType(filename);
+      
+      // Content is read through the storage provider (local, network mount, ...)
+      const openStream = (options: ReadStreamOptions) =>
+        source.provider.createReadStream(source.watchFolder, file.path, options);
       
       // Parse Range header
       const range = req.headers.range;
       
       if (!range) {
         // No range requested, send entire file
-        return this._streamFullFile(res, filePath, stats, contentType, filename, startTime);
+        return await this._streamFullFile(res, openStream, stats, contentType, filename, startTime);
       }
       
       // Stream partial content
-      return this._streamPartialFile(res, filePath, stats, contentType, range, filename, startTime);
+      return await this._streamPartialFile(res, openStream, stats, contentType, range, filename, startTime);
       
     } catch (err: any) {
       const duration = Date.now() - startTime;
@@ -116,18 +148,471 @@ class StreamController {
     }
   }
 
+  /**
+   * Issue signed, expiring URLs for a file's streams (for players that cannot send X-API-Key)
+   * @route POST /stream/:id/token
+   */
+  async createStreamToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const fileId = req.validatedFileId!;
+
+    try {
+      const request = this._parseStreamToken(req.body);
+
+      const file = await db.getFileById(fileId);
+      if (!file) {
+        throw new ApiError(404, 'File not found');
+      }
+
+      const ip = request.ip ?? (request.bind_ip ? req.ip : null);
+      if (ip === undefined) {
+        throw new ApiError(400, 'Client IP is unknown, cannot bind the URL to it');
+      }
+
+      const signature = streamUrlService.sign(fileId, request.ttl_seconds ?? config.streamUrls.defaultTtlSeconds, ip);
+      const query = streamUrlService.toQuery(signature);
+      const origin = `${req.protocol}://${req.get('host')}`;
+      const baseUrl = `${origin}/api/stream/${fileId}`;
+      const subtitles = await this._signedSubtitleUrls(fileId, origin, baseUrl, query);
+
+      logger.info('Stream URL signed', { fileId, expiresAt: signature.exp, ipBound: signature.ipBound });
+
+      res.json({
+        fileId,
+        expiresAt: new Date(signature.exp * 1000).toISOString(),
+        ipBound: signature.ipBound,
+        query,
+        urls: {
+          stream: `${baseUrl}?${query}`,
+          remux: `${baseUrl}/remux.mp4?${query}`,
+          hls: `${baseUrl}/hls/master.m3u8?${query}`
+        },
+        subtitles
+      });
+    } catch (err: any) {
+      logger.error('Error signing stream URL', { fileId, error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Remux a file to fragmented MP4 for browsers (codecs copied, no transcoding)
+   * The output has no known length, so players seek by requesting a new start time (?t=)
+   * @route GET /stream/:id/remux.mp4
+   */
+  async streamRemux(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const startTime = Date.now();
+    const fileId = req.validatedFileId!;
+    const startSeconds = req.validatedStartTime ?? 0;
+
+    logger.info('Remux request', { fileId, startSeconds });
+
+    try {
+      const file = await db.getFileById(fileId);
+      if (!file) {
+        throw new ApiError(404, 'File not found');
+      }
+
+      if (file.duration && startSeconds >= file.duration) {
+        throw new ApiError(400, 'Start time is past the end of the file', {
+          provided: startSeconds,
+          duration: file.duration
+        });
+      }
+
+      const source = await this._resolveSource(file);
+      if (!source.provider.getLocalPath) {
+        throw new ApiError(501, 'Remuxing is not supported for this storage type', {
+          type: source.provider.getSupportedType()
+        });
+      }
+      const localPath = await source.provider.getLocalPath(source.watchFolder, file.path);
+      await this._getStats(file, source); // Missing files fail here (404), not in ffmpeg
+
+      // Same main audio track as the playback mode was computed for
+      const tracks = await db.getFileTracks(fileId);
+      const mainAudio = this._mainAudioTrack(tracks?.audio || []);
+
+      const remux = remuxService.start(localPath, {
+        startSeconds,
+        audioStreamIndex: mainAudio?.stream_index ?? null,
+        hevc: Boolean(file.probedAt) && file.videoCodec === 'h265'
+      });
+
+      res.status(200);
+      res.setHeader('Content-Type', 'video/mp4');
+      res.setHeader('Accept-Ranges', 'none');
+      res.setHeader('Cache-Control', 'no-store');
+
+      // Ended once ffmpeg exits, so a failure before any output can still be reported as JSON
+      remux.output.pipe(res, { end: false });
+      res.on('close', () => remux.stop()); // Client disconnects (or seeks with a new request)
+
+      remux.exited
+        .then(() => {
+          logger.info('Remux completed', { fileId, startSeconds, duration: `${Date.now() - startTime}ms` });
+          res.end();
+        })
+        .catch((err: Error) => {
+          logger.error('Remux error', { fileId, startSeconds, error: err.message, duration: `${Date.now() - startTime}ms` });
+          if (!res.headersSent) {
+            res.status(500).json({ error: 'Remux error' });
+          } else {
+            res.destroy();
+          }
+        });
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        logger.warn('File not found', { fileId });
+        return next(new ApiError(404, 'File not found'));
+      }
+
+      logger.error('Error remuxing file', { fileId, startSeconds, error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * HLS master playlist: the renditions of the transcoding ladder that fit the file
+   * Nothing is transcoded until segments are requested
+   * @route GET /stream/:id/hls/master.m3u8
+   */
+  async getHlsMaster(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const fileId = req.validatedFileId!;
+
+    try {
+      const transcodeSource = await this._getTranscodeSource(fileId);
+
+      res.setHeader('Cache-Control', 'no-cache');
+      res.type('application/vnd.apple.mpegurl');
+      res.send(hlsService.buildMasterPlaylist(transcodeSource, req.streamUrlQuery));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        logger.warn('File not found', { fileId });
+        return next(new ApiError(404, 'File not found'));
+      }
+
+      logger.error('Error building HLS master playlist', { fileId, error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * HLS media playlist of a rendition
+   * @route GET /stream/:id/hls/:rendition/index.m3u8
+   */
+  async getHlsPlaylist(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const fileId = req.validatedFileId!;
+    const renditionName = req.params.rendition;
+
+    try {
+      const transcodeSource = await this._getTranscodeSource(fileId);
+      this._getHlsRendition(renditionName, transcodeSource);
+
+      res.setHeader('Cache-Control', 'no-cache');
+      res.type('application/vnd.apple.mpegurl');
+      res.send(hlsService.buildMediaPlaylist(transcodeSource.duration, req.streamUrlQuery));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        logger.warn('File not found', { fileId });
+        return next(new ApiError(404, 'File not found'));
+      }
+
+      logger.error('Error building HLS playlist', { fileId, rendition: renditionName, error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * HLS segment, transcoded on demand and cached
+   * @route GET /stream/:id/hls/:rendition/:segment.ts
+   */
+  async getHlsSegment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const fileId = req.validatedFileId!;
+    const renditionName = req.params.rendition;
+    const segment = Number(req.params.segment);
+
+    try {
+      const transcodeSource = await this._getTranscodeSource(fileId);
+      const rendition = this._getHlsRendition(renditionName, transcodeSource);
+
+      if (!Number.isInteger(segment) || segment < 0 || segment >= hlsService.getSegmentCount(transcodeSource.duration)) {
+        throw new ApiError(404, 'Segment not found', { provided: req.params.segment });
+      }
+
+      const segmentPath = await hlsService.getSegment(transcodeSource, rendition, segment);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.type('video/mp2t');
+      res.sendFile(path.resolve(segmentPath), err => {
+        if (err && !res.headersSent) {
+          next(err);
+        }
+      });
+    } catch (err: any) {
+      if (err instanceof TranscodeLimitError) {
+        logger.warn('Transcode limit reached', { fileId, rendition: renditionName, limit: err.limit });
+        res.setHeader('Retry-After', '10');
+        return next(new ApiError(503, 'Too many active transcodes', { limit: err.limit }));
+      }
+      if (err.code === 'ENOENT') {
+        logger.warn('File not found', { fileId });
+        return next(new ApiError(404, 'File not found'));
+      }
+
+      logger.error('Error transcoding HLS segment', { fileId, rendition: renditionName, segment, error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Extract an embedded text subtitle track as WebVTT (cached on disk per file version)
+   * @route GET /stream/:id/subtitles/:trackIndex.vtt
+   */
+  async streamSubtitleTrack(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const fileId = req.validatedFileId!;
+    const trackIndex = Number(req.params.trackIndex);
+
+    try {
+      if (!Number.isInteger(trackIndex) || trackIndex < 0) {
+        throw new ApiError(400, 'Invalid track index', { provided: req.params.trackIndex });
+      }
+
+      const file = await db.getFileById(fileId);
+      if (!file) {
+        throw new ApiError(404, 'File not found');
+      }
+
+      const source = await this._resolveSource(file);
+      if (!source.provider.getLocalPath) {
+        throw new ApiError(501, 'Subtitle extraction is not supported for this storage type', {
+          type: source.provider.getSupportedType()
+        });
+      }
+      const localPath = await source.provider.getLocalPath(source.watchFolder, file.path);
+      const stats = await this._getStats(file, source);
+
+      const tracks = await this._getSubtitleTracks(fileId, localPath);
+      const track = tracks.find(t => t.stream_index === trackIndex);
+      if (!track) {
+        throw new ApiError(404, 'Subtitle track not found', {
+          trackIndex,
+          available: tracks.map(t => t.stream_index)
+        });
+      }
+      if (embeddedSubtitlesService.isImageBased(track.codec)) {
+        throw new ApiError(422, 'Image-based subtitle tracks cannot be converted to WebVTT', {
+          trackIndex,
+          codec: track.codec
+        });
+      }
+
+      const vttPath = await embeddedSubtitlesService.getVtt(fileId, stats.mtime, localPath, trackIndex);
+      res.setHeader('Cache-Control', 'public, max-age=3600');
+      res.type('text/vtt');
+      res.sendFile(path.resolve(vttPath), err => {
+        if (err && !res.headersSent) {
+          next(err);
+        }
+      });
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        logger.warn('File not found', { fileId });
+        return next(new ApiError(404, 'File not found'));
+      }
+
+      logger.error('Error extracting subtitle track', { fileId, trackIndex, error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Validate a signed stream URL request
+   * @private
+   */
+  private _parseStreamToken(body: any): StreamTokenDTO {
+    const { ttl_seconds, bind_ip, ip } = body || {};
+
+    if (ttl_seconds !== undefined && (!Number.isInteger(ttl_seconds) || ttl_seconds <= 0 || ttl_seconds > config.streamUrls.maxTtlSeconds)) {
+      throw new ApiError(400, 'Invalid TTL', {
+        provided: ttl_seconds,
+        expected: `Whole number of seconds between 1 and ${config.streamUrls.maxTtlSeconds}`
+      });
+    }
+    if (bind_ip !== undefined && typeof bind_ip !== 'boolean') {
+      throw new ApiError(400, 'bind_ip must be a boolean');
+    }
+    if (ip !== undefined && (typeof ip !== 'string' || !isIP(ip))) {
+      throw new ApiError(400, 'Invalid IP address', { provided: ip });
+    }
+    if (ip !== undefined && bind_ip === false) {
+      throw new ApiError(400, 'ip cannot be combined with bind_ip: false');
+    }
+
+    return { ttl_seconds, bind_ip, ip };
+  }
+
+  /**
+   * Signed URLs of a file's subtitles: sidecars, then the text tracks stored by the media probe
+   * (files not probed yet list no embedded tracks; image-based tracks cannot be served as WebVTT)
+   * @private
+   */
+  private async _signedSubtitleUrls(fileId: number, origin: string, baseUrl: string, query: string): Promise<SignedSubtitleUrl[]> {
+    const [sidecars, tracks] = await Promise.all([db.getSidecarSubtitles(fileId), db.getFileTracks(fileId)]);
+
+    const urls: SignedSubtitleUrl[] = (sidecars ?? []).map(sidecar => ({
+      source: 'sidecar',
+      id: sidecar.id!,
+      language: sidecar.language ?? null,
+      url: `${origin}/api/subtitles/${sidecar.id}?${query}`
+    }));
+
+    for (const track of tracks?.subtitles ?? []) {
+      if (!embeddedSubtitlesService.isImageBased(track.codec)) {
+        urls.push({
+          source: 'embedded',
+          id: track.stream_index,
+          language: track.language ?? null,
+          url: `${baseUrl}/subtitles/${track.stream_index}.vtt?${query}`
+        });
+      }
+    }
+    return urls;
+  }
+
+  /**
+   * Subtitle tracks of a file: stored by the media probe, or probed now for files not probed yet
+   * @private
+   */
+  private async _getSubtitleTracks(fileId: number, localPath: string): Promise<SubtitleTrack[]> {
+    const stored = await db.getFileTracks(fileId);
+    if (stored?.probed) {
+      return stored.subtitles;
+    }
+
+    const mediaInfo = await mediaProbeService.probe(localPath);
+    if (!mediaInfo) {
+      throw new ApiError(503, 'Subtitle tracks could not be read', { reason: 'ffprobe failed, see server logs' });
+    }
+    return mediaInfo.subtitleTracks;
+  }
+
+  /**
+   * Resolve a file for transcoding: local path, duration, frame size and main audio track
+   * Stored probe results are used; files not probed yet are probed on request
+   * @private
+   */
+  private async _getTranscodeSource(fileId: number): Promise<TranscodeSource> {
+    const file = await db.getFileById(fileId);
+    if (!file) {
+      throw new ApiError(404, 'File not found');
+    }
+
+    const source = await this._resolveSource(file);
+    if (!source.provider.getLocalPath) {
+      throw new ApiError(501, 'Transcoding is not supported for this storage type', {
+        type: source.provider.getSupportedType()
+      });
+    }
+    const localPath = await source.provider.getLocalPath(source.watchFolder, file.path);
+    const stats = await this._getStats(file, source);
+
+    let details: { duration?: number | null; width?: number | null; height?: number | null; audio: AudioTrack[] };
+    if (file.probedAt) {
+      const tracks = await db.getFileTracks(fileId);
+      details = { duration: file.duration, width: file.width, height: file.height, audio: tracks?.audio || [] };
+    } else {
+      const mediaInfo = await hlsService.probe(fileId, stats.mtime, localPath);
+      if (!mediaInfo) {
+        throw new ApiError(503, 'Media details could not be read', { reason: 'ffprobe failed, see server logs' });
+      }
+      details = { ...mediaInfo, audio: mediaInfo.audioTracks };
+    }
+
+    if (!details.duration) {
+      throw new ApiError(422, 'File duration is unknown, cannot build HLS playlists');
+    }
+
+    return {
+      fileId,
+      fileName: file.name,
+      mtime: stats.mtime,
+      localPath,
+      duration: details.duration,
+      width: details.width ?? null,
+      height: details.height ?? null,
+      audioStreamIndex: this._mainAudioTrack(details.audio)?.stream_index ?? null
+    };
+  }
+
+  /**
+   * Get a rendition offered for a source
+   * @private
+   */
+  private _getHlsRendition(name: string, transcodeSource: TranscodeSource): HlsRendition {
+    const offered = hlsService.getRenditions(transcodeSource);
+    const rendition = offered.find(r => r.name === name);
+    if (!rendition) {
+      throw new ApiError(404, 'Rendition not found', {
+        provided: name,
+        available: offered.map(r => r.name)
+      });
+    }
+    return rendition;
+  }
+
+  /**
+   * Main audio track: the default track, or the first one
+   * @private
+   */
+  private _mainAudioTrack(tracks: AudioTrack[]): AudioTrack | undefined {
+    return tracks.find(track => track.is_default) || tracks[0];
+  }
+
+  /**
+   * Resolve the watch folder and storage provider that own a file
+   * Stored paths are relative to the watch folder root, not to MEDIA_DIR
+   * @private
+   */
+  private async _resolveSource(file: FileRecord): Promise<StoredFileSource> {
+    if (!file.watch_folder_id) {
+      throw new ApiError(404, 'File is not linked to a watch folder');
+    }
+
+    const watchFolder = await db.getWatchFolderById(file.watch_folder_id);
+    if (!watchFolder) {
+      throw new ApiError(404, 'Watch folder for file not found', {
+        watchFolderId: file.watch_folder_id
+      });
+    }
+
+    return {
+      watchFolder,
+      provider: createStorageProvider(watchFolder)
+    };
+  }
+
+  /**
+   * Get file stats from the storage provider (cached for performance)
+   * @private
+   */
+  private _getStats(file: FileRecord, source: StoredFileSource): Promise<StorageFileStats> {
+    return fileStatsService.getCachedFileStats(
+      `${source.watchFolder.id}:${file.path}`,
+      () => source.provider.getFileStats(source.watchFolder, file.path)
+    );
+  }
+
   /**
    * Stream entire file
    * @private
    */
-  private _streamFullFile(
+  private async _streamFullFile(
     res: Response, 
-    filePath: string, 
-    stats: import('fs').Stats, 
+    openStream: (options: ReadStreamOptions) => Promise<Readable>, 
+    stats: StorageFileStats, 
     contentType: string, 
     filename: string, 
     startTime: number
-  ): void {
+  ): Promise<void> {
     logger.debug('Streaming entire file', { filename, size: stats.size, contentType });
     
     // Set caching headers for better seeking performance
@@ -139,7 +624,7 @@ class StreamController {
     res.setHeader('ETag', `"${stats.size}-${stats.mtime}"`);
     
     // Larger buffer for better throughput (8x default)
-    const stream = fs.createReadStream(filePath, {
+    const stream = await openStream({
       highWaterMark: 512 * 1024 // 512 KB buffer
     });
     stream.pipe(res);
@@ -175,15 +660,15 @@ class StreamController {
    * Stream partial file with Range support
    * @private
    */
-  private _streamPartialFile(
+  private async _streamPartialFile(
     res: Response, 
-    filePath: string, 
-    stats: import('fs').Stats, 
+    openStream: (options: ReadStreamOptions) => Promise<Readable>, 
+    stats: StorageFileStats, 
     contentType: string, 
     rangeHeader: string, 
     filename: string, 
     startTime: number
-  ): void {
+  ): Promise<void> {
     // Parse Range header (e.g., "bytes=0-1023" or "bytes=1024-")
     const parts = rangeHeader.replace(/bytes=/, '').split('-');
     const start = parseInt(parts[0], 10);
@@ -217,7 +702,7 @@ class StreamController {
     res.setHeader('ETag', `"${stats.size}-${stats.mtime}"`);
     
     // Create read stream with range and larger buffer for better throughput
-    const stream = fs.createReadStream(filePath, { 
+    const stream = await openStream({ 
       start, 
       end,
       highWaterMark: 512 * 1024 // 512 KB buffer (8x default)
@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from 'express';
+import { Readable } from 'stream';
+import logger from '../config/logger';
+import { ApiError } from '../middleware/error-handler';
+import db from '../services/database.service';
+import { createStorageProvider } from '../services/file-scanner/factory';
+import { decodeSubtitle, srtToVtt } from '../utils/subtitle-utils';
+
+// Larger "subtitle" files are not subtitles (and are not buffered in memory)
+const MAX_SUBTITLE_BYTES = 10 * 1024 * 1024;
+
+// Content types of original files, served without a charset (mime-types has no entry for ASS/SSA)
+const CONTENT_TYPES: Record<string, string> = {
+  srt: 'application/x-subrip',
+  ass: 'text/x-ssa',
+  ssa: 'text/x-ssa',
+  vtt: 'text/vtt'
+};
+
+/**
+ * Controller for serving sidecar subtitles
+ */
+class SubtitlesController {
+  /**
+   * Serve a sidecar subtitle, converting SRT to WebVTT unless the original is requested
+   * ASS/SSA subtitles are always served as-is
+   * @route GET /api/subtitles/:subId
+   */
+  async serveSubtitle(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const subtitleId = req.validatedSubtitleId!;
+
+    try {
+      const format = req.query.format || 'vtt';
+      if (format !== 'vtt' && format !== 'original') {
+        throw new ApiError(400, 'Invalid format', { provided: format, allowed: ['vtt', 'original'] });
+      }
+
+      const subtitle = await db.getSidecarSubtitleById(subtitleId);
+      const file = subtitle ? await db.getFileById(subtitle.file_id!) : null;
+      if (!subtitle || !file) {
+        throw new ApiError(404, 'Subtitle not found');
+      }
+      if (subtitle.size > MAX_SUBTITLE_BYTES) {
+        throw new ApiError(413, 'Subtitle file is too large', { size: subtitle.size, maximum: MAX_SUBTITLE_BYTES });
+      }
+
+      const watchFolder = file.watch_folder_id ? await db.getWatchFolderById(file.watch_folder_id) : null;
+      if (!watchFolder) {
+        throw new ApiError(404, 'Watch folder for subtitle not found', { watchFolderId: file.watch_folder_id });
+      }
+
+      const provider = createStorageProvider(watchFolder);
+      const content = await this._readAll(await provider.createReadStream(watchFolder, subtitle.path));
+
+      // Conditional requests are answered with 304 by res.send (fresh ETag/Last-Modified)
+      res.setHeader('ETag', `"${subtitle.size}-${subtitle.mtime}"`);
+      res.setHeader('Last-Modified', new Date(subtitle.mtime).toUTCString());
+      res.setHeader('Cache-Control', 'public, max-age=3600');
+
+      const convert = format === 'vtt' && (subtitle.format === 'srt' || subtitle.format === 'vtt');
+      if (!convert) {
+        res.setHeader('Content-Type', CONTENT_TYPES[subtitle.format] || 'text/plain');
+        res.send(content);
+        return;
+      }
+
+      const text = decodeSubtitle(content);
+      res.setHeader('Content-Type', 'text/vtt; charset=utf-8');
+      res.send(subtitle.format === 'srt' ? srtToVtt(text) : text);
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        logger.warn('Subtitle file not found on storage', { subtitleId });
+        return next(new ApiError(404, 'Subtitle not found'));
+      }
+
+      logger.error('Error serving subtitle', { subtitleId, error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Read a stream into a buffer
+   * @private
+   */
+  private async _readAll(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+}
+
+export default new SubtitlesController();
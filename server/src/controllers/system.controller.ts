@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import db from '../services/database.service';
+import logger from '../config/logger';
+
+/**
+ * Controller for system information
+ */
+class SystemController {
+  /**
+   * Get database schema (migration) status
+   * @route GET /api/system/schema
+   */
+  async getSchemaStatus(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = await db.getSchemaStatus();
+      res.json(status);
+    } catch (err: any) {
+      logger.error('Error getting schema status', { error: err.message });
+      next(err);
+    }
+  }
+}
+
+export default new SystemController();
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../config/logger';
+import config from '../config';
+import { ApiError } from '../middleware/error-handler';
+import hlsService from '../services/hls.service';
+
+/**
+ * Controller for HLS transcode sessions
+ */
+class TranscodesController {
+  /**
+   * List running transcodes
+   * @route GET /api/transcodes
+   */
+  async listTranscodes(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.json({
+        limit: config.hls.maxTranscodes,
+        sessions: hlsService.listSessions()
+      });
+    } catch (err: any) {
+      logger.error('Error listing transcodes', { error: err.message });
+      next(err);
+    }
+  }
+
+  /**
+   * Stop a running transcode
+   * Cached segments are kept; players requesting further segments start a new transcode
+   * @route DELETE /api/transcodes/:sessionId
+   */
+  async stopTranscode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const session = hlsService.stopSession(req.params.sessionId);
+      if (!session) {
+        throw new ApiError(404, 'Transcode session not found', { sessionId: req.params.sessionId });
+      }
+
+      res.json({ message: 'Transcode stopped', session });
+    } catch (err: any) {
+      logger.error('Error stopping transcode', { sessionId: req.params.sessionId, error: err.message });
+      next(err);
+    }
+  }
+}
+
+export default new TranscodesController();
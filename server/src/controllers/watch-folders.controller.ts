@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from 'express';
 import db from '../services/database.service';
 import scheduler from '../services/scheduler.service';
 import fileScanner from '../services/file-scanner.service';
+import eventsService from '../services/events.service';
+import scanJobsService from '../services/scan-jobs.service';
 import logger from '../config/logger';
 import { WatchFolderDTO } from '../types/dtos';
 import cron from 'node-cron';
@@ -30,6 +32,22 @@ class WatchFoldersController {
     return /^\\\\[^\\]+\\[^\\]+/.test(path) || /^\/\/[^\/]+\/[^\/]+/.test(path);
   }
 
+  /**
+   * Validate stability window (optional, whole seconds >= 0)
+   * @private
+   */
+  private isValidStabilityWindow(value: unknown): boolean {
+    return value === undefined || (Number.isInteger(value) && (value as number) >= 0);
+  }
+
+  /**
+   * Validate removal limit (optional, whole percent 0-100)
+   * @private
+   */
+  private isValidRemovalPercent(value: unknown): boolean {
+    return value === undefined || (Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 100);
+  }
+
   /**
    * Validate network watch folder data
    * @private
@@ -64,7 +82,9 @@ class WatchFoldersController {
         return {
           ...sanitized,
           isScanning: folder.id ? scheduler.isScanning(folder.id) : false,
-          hasScheduledJob: folder.id ? status.jobs.some(j => j.watchFolderId === folder.id) : false
+          scanJobId: folder.id ? scanJobsService.getRunningJob(folder.id)?.jobId ?? null : null,
+          hasScheduledJob: folder.id ? status.jobs.some(j => j.watchFolderId === folder.id) : false,
+          isWatching: folder.id ? status.watchedFolders.includes(folder.id) : false
         };
       });
 
@@ -98,7 +118,9 @@ class WatchFoldersController {
       const folderWithStatus = {
         ...sanitized,
         isScanning: scheduler.isScanning(id),
-        hasScheduledJob: status.jobs.some(j => j.watchFolderId === id)
+        scanJobId: scanJobsService.getRunningJob(id)?.jobId ?? null,
+        hasScheduledJob: status.jobs.some(j => j.watchFolderId === id),
+        isWatching: status.watchedFolders.includes(id)
       };
 
       res.json(folderWithStatus);
@@ -140,12 +162,28 @@ class WatchFoldersController {
         return;
       }
 
+      // Live watch relies on local filesystem events
+      if (data.live_watch && data.type !== 'local') {
+        res.status(400).json({ error: 'Live watch is only supported for local watch folders' });
+        return;
+      }
+
       // Validate cron expression
       if (data.scan_interval && !cron.validate(data.scan_interval)) {
         res.status(400).json({ error: 'Invalid cron expression' });
         return;
       }
 
+      if (!this.isValidStabilityWindow(data.stability_window_seconds)) {
+        res.status(400).json({ error: 'Stability window must be a non-negative number of seconds' });
+        return;
+      }
+
+      if (!this.isValidRemovalPercent(data.max_removal_percent)) {
+        res.status(400).json({ error: 'Max removal percent must be a whole number between 0 and 100' });
+        return;
+      }
+
       // Check if path already exists
       const existing = await db.getWatchFolderByPath(data.path);
       if (existing) {
@@ -162,6 +200,7 @@ class WatchFoldersController {
       }
 
       logger.info('Created watch folder', { id: folder.id, path: folder.path, type: folder.type });
+      eventsService.publish('settings.changed', { scope: 'watchFolders', action: 'created', watchFolderId: folder.id });
       const sanitized = this.sanitizeWatchFolder(folder);
       res.status(201).json(sanitized);
     } catch (err: any) {
@@ -217,6 +256,23 @@ class WatchFoldersController {
         return;
       }
 
+      if (!this.isValidStabilityWindow(data.stability_window_seconds)) {
+        res.status(400).json({ error: 'Stability window must be a non-negative number of seconds' });
+        return;
+      }
+
+      if (!this.isValidRemovalPercent(data.max_removal_percent)) {
+        res.status(400).json({ error: 'Max removal percent must be a whole number between 0 and 100' });
+        return;
+      }
+
+      // Live watch relies on local filesystem events
+      const liveWatch = data.live_watch !== undefined ? data.live_watch : existing.live_watch;
+      if (liveWatch && type !== 'local') {
+        res.status(400).json({ error: 'Live watch is only supported for local watch folders' });
+        return;
+      }
+
       // Validate path exists if provided (only for local paths)
       if (data.path && type === 'local' && !existsSync(data.path)) {
         res.status(400).json({ error: 'Path does not exist' });
@@ -252,6 +308,7 @@ class WatchFoldersController {
       }
 
       logger.info('Updated watch folder', { id: folder.id, path: folder.path, type: folder.type });
+      eventsService.publish('settings.changed', { scope: 'watchFolders', action: 'updated', watchFolderId: folder.id });
       const sanitized = this.sanitizeWatchFolder(folder);
       res.json(sanitized);
     } catch (err: any) {
@@ -292,6 +349,7 @@ class WatchFoldersController {
 
       // Remove from scheduler
       scheduler.removeWatchFolder(id);
+      fileScanner.clearPendingFiles(id);
 
       // Delete from database
       const deleted = await db.deleteWatchFolder(id);
@@ -301,6 +359,7 @@ class WatchFoldersController {
       }
 
       logger.info('Deleted watch folder', { id, path: folder.path, type: folder.type });
+      eventsService.publish('settings.changed', { scope: 'watchFolders', action: 'deleted', watchFolderId: id });
       res.status(204).send();
     } catch (err: any) {
       logger.error('Error deleting watch folder', { error: err.message });
@@ -309,7 +368,8 @@ class WatchFoldersController {
   }
 
   /**
-   * Trigger manual scan for a watch folder
+   * Start manual scan for a watch folder
+   * Responds right away with the job ID; progress is available at GET /api/scans/:jobId
    * @route POST /api/watch-folders/:id/scan
    */
   async triggerScan(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -335,23 +395,18 @@ class WatchFoldersController {
         return;
       }
 
-      // Trigger scan
-      const result = await scheduler.triggerScan(id);
-
-      // Get updated stats
-      const stats = await db.getStats();
-
-      res.json({ 
-        message: 'File scan completed successfully',
-        watchFolderId: id,
-        fileCount: stats.totalFiles,
-        filesFound: result.filesFound,
-        processedCount: result.processedCount,
-        skippedCount: result.skippedCount,
-        removedCount: result.removedCount,
-        duration: result.duration,
-        scanCompleted: new Date().toISOString()
-      });
+      // Start scan in the background
+      const job = scheduler.startScan(id);
+
+      res.status(202)
+        .location(`/api/scans/${job.jobId}`)
+        .json({
+          message: 'File scan started',
+          watchFolderId: id,
+          jobId: job.jobId,
+          status: job.status,
+          startedAt: job.startedAt
+        });
     } catch (err: any) {
       if (err.message === 'Scan already in progress') {
         res.status(409).json({ 
@@ -365,6 +420,44 @@ class WatchFoldersController {
     }
   }
 
+  /**
+   * Cancel the running scan of a watch folder
+   * @route POST /api/watch-folders/:id/scan/cancel
+   */
+  async cancelScan(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        res.status(400).json({ error: 'Invalid watch folder ID' });
+        return;
+      }
+
+      const folder = await db.getWatchFolderById(id);
+      if (!folder) {
+        res.status(404).json({ error: 'Watch folder not found' });
+        return;
+      }
+
+      const job = scanJobsService.getRunningJob(id);
+      if (!job || !scheduler.cancelScan(job.jobId)) {
+        res.status(409).json({
+          error: 'No scan in progress',
+          message: 'There is no running scan for this watch folder.'
+        });
+        return;
+      }
+
+      res.status(202).json({
+        message: 'Scan cancellation requested',
+        watchFolderId: id,
+        jobId: job.jobId
+      });
+    } catch (err: any) {
+      logger.error('Error cancelling scan', { error: err.message });
+      next(err);
+    }
+  }
+
   /**
    * Get scan statistics for a watch folder
    * @route GET /api/watch-folders/:id/stats
@@ -393,7 +486,8 @@ class WatchFoldersController {
         scanHistory: folderScans,
         lastScan: folderScans[0] || null,
         totalScans: folderScans.length,
-        isScanning: scheduler.isScanning(id)
+        isScanning: scheduler.isScanning(id),
+        pendingFiles: fileScanner.getPendingFiles(id)
       });
     } catch (err: any) {
       logger.error('Error getting watch folder stats', { error: err.message });
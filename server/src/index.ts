@@ -4,9 +4,9 @@ import config from './config';
 import logger from './config/logger';
 import { setLogLevel } from './config/logger';
 import scheduler from './services/scheduler.service';
-import fileScannerService from './services/file-scanner.service';
 import db from './services/database.service';
 import configService from './services/config.service';
+import hlsService from './services/hls.service';
 import { Server } from 'http';
 
 /**
@@ -31,12 +31,14 @@ async function startServer(): Promise<Server> {
   scheduler.start(watchFolders);
 
   // Initial scan on startup (optional)
+  // Started as scan jobs in the background, like POST /files/refresh: tracked, cancellable and published as events
   if (configService.isScanOnStartup()) {
-    logger.info('Running initial file scans for enabled watch folders...');
+    logger.info('Starting initial file scans for enabled watch folders...');
     for (const folder of watchFolders) {
       if (folder.id) {
         try {
-          await fileScannerService.scan(folder.id);
+          const job = scheduler.startScan(folder.id);
+          logger.info('Initial file scan started', { watchFolderId: folder.id, jobId: job.jobId });
         } catch (error: any) {
           logger.error('Initial file scan failed', { 
             watchFolderId: folder.id,
@@ -73,6 +75,7 @@ async function startServer(): Promise<Server> {
   const shutdown = async () => {
     logger.info('Shutdown signal received, shutting down gracefully');
     scheduler.stop();
+    hlsService.stopAll(); // ffmpeg writes segments to disk and would outlive the server
     server.close(async () => {
       await db.close();
       logger.info('Server closed');
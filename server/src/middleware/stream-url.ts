@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from './error-handler';
+import db from '../services/database.service';
+import streamUrlService, { StreamUrlCheck, StreamUrlSignature } from '../services/stream-url.service';
+
+// Signed URLs only grant reading a file's streams
+const SIGNED_METHODS = ['GET', 'HEAD'];
+
+declare global {
+  namespace Express {
+    interface Request {
+      streamUrlQuery?: string; // Signature of a signed stream URL, passed on to HLS playlist entries
+    }
+  }
+}
+
+/**
+ * Signed stream URL middleware, mounted in front of the stream routes
+ * Requests with a signature (?exp=...&sig=...) are authorized by it instead of the X-API-Key header
+ * (the global API key check skips them); requests without one pass through unchanged.
+ * Covers embedded subtitle tracks too (/:id/subtitles/:trackIndex.vtt)
+ */
+export function streamUrlAuth(req: Request, _res: Response, next: NextFunction): void {
+  if (req.query.sig === undefined) {
+    return next();
+  }
+
+  // Path relative to the mount point: /:id or /:id/...
+  const fileId = parseInt(req.path.split('/')[1], 10);
+  const signature = parseSignature(req);
+  if (!fileId || fileId <= 0) {
+    throw new ApiError(401, 'Invalid stream URL signature');
+  }
+
+  checkSignature(signature, streamUrlService.verify(fileId, signature, req.ip));
+  req.streamUrlQuery = streamUrlService.toQuery(signature);
+  next();
+}
+
+/**
+ * Signed event stream URL middleware, mounted in front of the event routes
+ * Same as streamUrlAuth, for GET /api/events (signed by POST /api/events/token)
+ */
+export function eventsUrlAuth(req: Request, _res: Response, next: NextFunction): void {
+  if (req.query.sig === undefined) {
+    return next();
+  }
+
+  const signature = parseSignature(req);
+  if (req.path !== '/') {
+    throw new ApiError(401, 'Invalid stream URL signature');
+  }
+
+  checkSignature(signature, streamUrlService.verifyEvents(signature, req.ip));
+  next();
+}
+
+/**
+ * Signed sidecar subtitle URL middleware, mounted in front of the subtitle routes
+ * Sidecars belong to a file, so the signature of the file's stream URLs authorizes them too
+ */
+export async function subtitleUrlAuth(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  if (req.query.sig === undefined) {
+    return next();
+  }
+
+  try {
+    const signature = parseSignature(req);
+
+    // Path relative to the mount point: /:subId
+    const subtitleId = parseInt(req.path.split('/')[1], 10);
+    const subtitle = subtitleId > 0 ? await db.getSidecarSubtitleById(subtitleId) : null;
+    if (!subtitle) {
+      throw new ApiError(401, 'Invalid stream URL signature');
+    }
+
+    checkSignature(signature, streamUrlService.verify(subtitle.file_id!, signature, req.ip));
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Read the signature of a signed request (?exp=...&sig=...[&ip=1])
+ */
+function parseSignature(req: Request): StreamUrlSignature {
+  const { exp, sig, ip } = req.query;
+
+  if (!SIGNED_METHODS.includes(req.method)) {
+    throw new ApiError(401, 'Signed stream URLs are only valid for GET and HEAD requests');
+  }
+  if (typeof sig !== 'string' || typeof exp !== 'string' || !/^\d+$/.test(exp)) {
+    throw new ApiError(401, 'Invalid stream URL signature');
+  }
+
+  return { exp: Number(exp), sig, ipBound: ip === '1' };
+}
+
+/**
+ * Reject a request whose signature did not verify
+ */
+function checkSignature(signature: StreamUrlSignature, result: StreamUrlCheck): void {
+  if (result === 'invalid') {
+    throw new ApiError(401, 'Invalid stream URL signature', {
+      message: signature.ipBound ? 'The URL is bound to another client IP, or was modified' : 'The URL was modified'
+    });
+  }
+  if (result === 'expired') {
+    throw new ApiError(401, 'Stream URL expired', {
+      expiredAt: new Date(signature.exp * 1000).toISOString()
+    });
+  }
+}
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import path from 'path';
 import { ApiError } from './error-handler';
 import config from '../config';
+import { getLanguageTags } from '../utils/language-utils';
 
 // Extend Express Request interface to include validated fields
 declare global {
@@ -9,8 +10,12 @@ declare global {
     interface Request {
       validatedExt?: string;
       validatedFileId?: number;
+      validatedSubtitleId?: number;
       validatedImdbId?: string;
       validatedName?: string;
+      validatedAudioLangs?: string[]; // Stream language tags (ISO 639-2)
+      validatedSubLangs?: string[];
+      validatedStartTime?: number; // Seconds
       validatedFilename?: string;
       validatedFilePath?: string;
       rangeRequest?: { start: number; end: number } | null;
@@ -59,6 +64,42 @@ export function validateFileId(req: Request, _res: Response, next: NextFunction)
   next();
 }
 
+/**
+ * Validate subtitle ID parameter
+ */
+export function validateSubtitleId(req: Request, _res: Response, next: NextFunction): void {
+  const subtitleId = parseInt(req.params.subId, 10);
+  
+  if (!subtitleId || isNaN(subtitleId) || subtitleId <= 0) {
+    throw new ApiError(400, 'Invalid subtitle ID');
+  }
+
+  req.validatedSubtitleId = subtitleId;
+  next();
+}
+
+/**
+ * Validate start time query parameter (t, in seconds)
+ */
+export function validateStartTime(req: Request, _res: Response, next: NextFunction): void {
+  const { t } = req.query;
+
+  if (t === undefined || t === '') {
+    return next();
+  }
+
+  const startTime = typeof t === 'string' ? Number(t) : NaN;
+  if (!Number.isFinite(startTime) || startTime < 0) {
+    throw new ApiError(400, 'Invalid start time', {
+      provided: t,
+      expected: 'Non-negative number of seconds (e.g., 90 or 754.5)'
+    });
+  }
+
+  req.validatedStartTime = startTime;
+  next();
+}
+
 /**
  * Validate IMDB ID query parameter
  */
@@ -107,6 +148,32 @@ export function validateFileName(req: Request, _res: Response, next: NextFunctio
   next();
 }
 
+/**
+ * Validate audio_lang and sub_lang query parameters (ISO 639-1 or 639-2 codes)
+ */
+export function validateTrackLanguages(req: Request, _res: Response, next: NextFunction): void {
+  const parse = (param: 'audio_lang' | 'sub_lang'): string[] | undefined => {
+    const value = req.query[param];
+    if (!value || typeof value !== 'string') {
+      return undefined;
+    }
+
+    const tags = /^[a-z]{2,3}$/i.test(value) ? getLanguageTags(value) : null;
+    if (!tags) {
+      throw new ApiError(400, 'Invalid language code', {
+        parameter: param,
+        provided: value,
+        expected: 'ISO 639-1 or ISO 639-2 code (e.g., en or eng)'
+      });
+    }
+    return tags;
+  };
+
+  req.validatedAudioLangs = parse('audio_lang');
+  req.validatedSubLangs = parse('sub_lang');
+  next();
+}
+
 /**
  * Validate and sanitize file path parameter (deprecated - kept for backward compatibility)
  */
@@ -0,0 +1,108 @@
+import { Router } from 'express';
+import eventsController from '../controllers/events.controller';
+
+/**
+ * Server-sent event routes
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Events
+ *   description: Live server events
+ */
+
+/**
+ * @swagger
+ * /api/events:
+ *   get:
+ *     summary: Subscribe to server events (SSE)
+ *     tags: [Events]
+ *     description: |
+ *       Server-sent event stream, so clients do not have to poll for scans and library changes.
+ *       Each event has an `id`, an `event` type and a JSON `data` payload:
+ *
+ *       - `scan.started`, `scan.progress`, `scan.completed`, `scan.failed`, `scan.cancelled` - per watch folder (`watchFolderId`, `jobId`)
+ *       - `library.changed` - files added/updated/removed (counts; fetch details from `GET /api/files/changes`)
+ *       - `settings.changed` - server setting (`scope: server`) or watch folder (`scope: watchFolders`) changes
+ *
+ *       A `: heartbeat` comment is sent periodically (`EVENTS_HEARTBEAT_MS`). On reconnect, events after
+ *       the `Last-Event-ID` header (or `lastEventId` query parameter) are replayed from a bounded buffer
+ *       (`EVENTS_BUFFER_SIZE`); if some were dropped, a `reset` event is sent instead and the client should reload its state.
+ *
+ *       Browsers' EventSource cannot send headers: open the stream with a signed URL from `POST /api/events/token`
+ *       instead (`exp` and `sig` query parameters). The signature is checked when the stream is opened.
+ *     parameters:
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: integer
+ *         description: ID of the last event received (sent automatically by EventSource on reconnect)
+ *       - in: query
+ *         name: lastEventId
+ *         schema:
+ *           type: integer
+ *         description: Alternative to the Last-Event-ID header
+ *       - in: query
+ *         name: exp
+ *         schema:
+ *           type: integer
+ *         description: Expiry of a signed URL (with sig, instead of the X-API-Key header)
+ *       - in: query
+ *         name: sig
+ *         schema:
+ *           type: string
+ *         description: Signature of a signed URL
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *             example: |
+ *               id: 42
+ *               event: scan.completed
+ *               data: {"watchFolderId":1,"trigger":"scheduled","filesFound":150,"timestamp":"2024-01-01T00:00:00.000Z"}
+ *       401:
+ *         description: Missing or invalid API key, or invalid or expired signed URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', (req, res) => {
+  eventsController.stream(req, res);
+});
+
+/**
+ * @swagger
+ * /api/events/token:
+ *   post:
+ *     summary: Issue a signed event stream URL
+ *     tags: [Events]
+ *     description: |
+ *       Signs a `GET /api/events` URL for EventSource clients, so the API key never has to be put in a URL.
+ *       It is valid for `EVENTS_TOKEN_TTL_SECONDS` (default 5 minutes) and only checked when the stream is opened:
+ *       an open stream is not closed when it expires. Request a new URL when reconnecting after that.
+ *     responses:
+ *       200:
+ *         description: Signed URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EventsToken'
+ *       401:
+ *         description: Missing or invalid API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/token', (req, res, next) => {
+  eventsController.createToken(req, res, next);
+});
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import filesController from '../controllers/files.controller';
-import { validateExtension, validateImdbId, validateFileName } from '../middleware/validators';
+import { validateExtension, validateImdbId, validateFileName, validateFileId, validateTrackLanguages } from '../middleware/validators';
 
 /**
  * File listing routes
@@ -29,6 +29,9 @@ const router = Router();
  *       2. `name` - Case-insensitive partial match in filename or parsed name
  *       3. `ext` - Filter by file extension
  *       4. No filter - Returns all files
+ *       
+ *       `audio_lang` and `sub_lang` narrow the result of any of the above to files with an
+ *       audio or subtitle track in that language. Tracks are only known for probed files (`MEDIA_PROBE`).
  *     parameters:
  *       - in: query
  *         name: imdb_id
@@ -48,6 +51,18 @@ const router = Router();
  *           type: string
  *           example: .mkv
  *         description: Filter by file extension (e.g., .mp4, .mkv)
+ *       - in: query
+ *         name: audio_lang
+ *         schema:
+ *           type: string
+ *           example: en
+ *         description: Only files with an audio track in this language (ISO 639-1 or 639-2, e.g., en, eng, fre)
+ *       - in: query
+ *         name: sub_lang
+ *         schema:
+ *           type: string
+ *           example: en
+ *         description: Only files with a subtitle track in this language (ISO 639-1 or 639-2)
  *     responses:
  *       200:
  *         description: List of video files
@@ -70,24 +85,427 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/', validateExtension, validateImdbId, validateFileName, (req, res, next) => {
+router.get('/', validateExtension, validateImdbId, validateFileName, validateTrackLanguages, (req, res, next) => {
   filesController.listFiles(req, res, next);
 });
 
 /**
  * @swagger
- * /api/files/refresh:
+ * /api/files/unmatched:
+ *   get:
+ *     summary: List unmatched files
+ *     tags: [Files]
+ *     description: |
+ *       Files for which no IMDB ID was found (home videos, unusual naming, obscure releases).
+ *       They are stored so they are not re-parsed on every scan, but are not part of the library listing.
+ *     responses:
+ *       200:
+ *         description: List of unmatched files
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/File'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/unmatched', (req, res, next) => {
+  filesController.listUnmatchedFiles(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/files/trash:
+ *   get:
+ *     summary: List files in the trash
+ *     tags: [Files]
+ *     description: |
+ *       Files that disappeared from storage are soft-deleted instead of removed, so a folder that is
+ *       temporarily moved or unmounted keeps its matches and manual overrides. A trashed file is restored
+ *       when the same path reappears, or a file with the same name and size appears in a new path.
+ *       Files are purged permanently after `TRASH_RETENTION_DAYS` (see `purgeAt`).
+ *     responses:
+ *       200:
+ *         description: Trashed files, most recently removed first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Trash'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/trash', (req, res, next) => {
+  filesController.listTrash(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/files/duplicates:
+ *   get:
+ *     summary: Report duplicate files
+ *     tags: [Files]
+ *     description: |
+ *       Groups of files that are identical copies (same content fingerprint, in any watch folder)
+ *       and variants of the same movie or episode (same IMDB ID, season and episode, e.g. several qualities),
+ *       with the space reclaimable by keeping one file per group (the largest one for variants).
+ *
+ *       Identical copies are only found when `FILE_FINGERPRINT` is enabled (see `fingerprintEnabled`);
+ *       files indexed before it was enabled get their fingerprint on the next scan.
+ *     responses:
+ *       200:
+ *         description: Duplicate groups, largest reclaimable space first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DuplicatesReport'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/duplicates', (req, res, next) => {
+  filesController.getDuplicates(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/files/changes:
+ *   get:
+ *     summary: Get file changes since a cursor
+ *     tags: [Files]
+ *     description: |
+ *       Change feed for incremental sync instead of downloading the full list on every poll.
+ *       Returns the IDs of files added, updated and removed (tombstones) after `since`,
+ *       collapsed to the net change per file, plus the cursor to pass next time.
+ *
+ *       Without `since`, or when the cursor predates pruned changes (see `CHANGE_FEED_RETENTION_DAYS`),
+ *       `reset` is true: reload the full list from `GET /api/files` and continue from the returned cursor.
+ *       Note that IDs refer to all stored files, including unmatched ones.
+ *     parameters:
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Cursor from the previous response
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 1000
+ *           maximum: 10000
+ *         description: Maximum number of changes per page (check `hasMore`)
+ *     responses:
+ *       200:
+ *         description: Changes after the cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileChanges'
+ *       400:
+ *         description: Invalid parameter
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/changes', (req, res, next) => {
+  filesController.getChanges(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/files/imdb-search:
+ *   get:
+ *     summary: Search IMDB by title
+ *     tags: [Files]
+ *     description: |
+ *       Look up an IMDB title to pin as a manual match (see `PUT /api/files/{id}/match`).
+ *       Backed by name-to-imdb, which resolves a single best match, so at most one result is returned.
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: Pose
+ *         description: Title to search for (min 2 characters)
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *           example: 2018
+ *         description: Release year
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [movie, series]
+ *         description: Title type
+ *     responses:
+ *       200:
+ *         description: Search results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ImdbSearchResult'
+ *       400:
+ *         description: Invalid parameter
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/imdb-search', validateFileName, (req, res, next) => {
+  filesController.searchImdb(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/files/{id}/match:
+ *   put:
+ *     summary: Pin an IMDB match to a file
+ *     tags: [Files]
+ *     description: |
+ *       Manually set the IMDB ID, type, season and episode of a file.
+ *       The match is stored as locked: later scans refresh file and release details
+ *       but never overwrite the pinned match. Unmatched files become matched.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: File ID from database
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/FileMatch'
+ *     responses:
+ *       200:
+ *         description: Updated file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/File'
+ *       400:
+ *         description: Invalid match
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: File not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     summary: Remove a pinned IMDB match
+ *     tags: [Files]
+ *     description: Unlocks the match; the file is matched automatically again on the next scan.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: File ID from database
+ *     responses:
+ *       200:
+ *         description: Updated file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/File'
+ *       404:
+ *         description: File not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/:id/match', validateFileId, (req, res, next) => {
+  filesController.setFileMatch(req, res, next);
+});
+
+router.delete('/:id/match', validateFileId, (req, res, next) => {
+  filesController.unlockFileMatch(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/files/{id}/tracks:
+ *   get:
+ *     summary: List audio and subtitle tracks of a file
+ *     tags: [Files]
+ *     description: |
+ *       Streams found by the media probe (`MEDIA_PROBE=true`), in container order.
+ *       `probed` is false for files that were not probed yet: their tracks are unknown, not absent.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: File ID from database
+ *     responses:
+ *       200:
+ *         description: File tracks
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FileTracks'
+ *       404:
+ *         description: File not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/tracks', validateFileId, (req, res, next) => {
+  filesController.getFileTracks(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/files/{id}/subtitles:
+ *   get:
+ *     summary: List sidecar subtitles of a file
+ *     tags: [Files, Subtitles]
+ *     description: |
+ *       Subtitle files next to the video named after it, optionally with language and flag suffixes
+ *       (Movie.srt, Movie.en.srt, Movie.eng.forced.srt, Movie.en.sdh.srt). Found by scans of local
+ *       and network watch folders. Serve them with GET /api/subtitles/{subId}.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: File ID from database
+ *     responses:
+ *       200:
+ *         description: Sidecar subtitles
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/SidecarSubtitle'
+ *       404:
+ *         description: File not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/subtitles', validateFileId, (req, res, next) => {
+  filesController.listSubtitles(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/files/rematch:
  *   post:
- *     summary: Trigger manual file scan
+ *     summary: Re-run IMDB matching for a set of files
  *     tags: [Files]
- *     description: Force a fresh scan of the filesystem and update the database
+ *     description: |
+ *       Select stored files by a filter (all given criteria must match) and match them again
+ *       with the IMDB cache bypassed, e.g. a season directory matched to the wrong series.
+ *
+ *       With `imdb_id`, all selected files are pinned (locked) to that title instead; parsed
+ *       season/episode numbers are kept. Without it, locked files are skipped.
+ *       With `dry_run`, nothing is written and the diff shows what would change.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RematchRequest'
  *     responses:
  *       200:
- *         description: File scan completed successfully
+ *         description: Per-file before/after diff
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RematchResult'
+ *       400:
+ *         description: Invalid request
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/ScanResult'
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/rematch', (req, res, next) => {
+  filesController.rematchFiles(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/files/refresh:
+ *   post:
+ *     summary: Start manual scans of all enabled watch folders
+ *     tags: [Files]
+ *     description: |
+ *       Starts a scan job per enabled watch folder in the background and returns their IDs;
+ *       poll GET /api/scans/{jobId} for progress. Folders already being scanned are reported with an error.
+ *     responses:
+ *       202:
+ *         description: Scans started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 jobs:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       watchFolderId:
+ *                         type: integer
+ *                       path:
+ *                         type: string
+ *                       jobId:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         example: running
+ *                       startedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       error:
+ *                         type: string
+ *                         example: Scan already in progress
+ *       400:
+ *         description: No enabled watch folders
  *       500:
  *         description: Internal server error
  *         content:
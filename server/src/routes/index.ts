@@ -1,8 +1,14 @@
 import { Router } from 'express';
+import { eventsUrlAuth, streamUrlAuth, subtitleUrlAuth } from '../middleware/stream-url';
 import filesRoutes from './files.routes';
 import streamRoutes from './stream.routes';
 import watchFoldersRoutes from './watch-folders.routes';
 import settingsRoutes from './settings.routes';
+import systemRoutes from './system.routes';
+import eventsRoutes from './events.routes';
+import scansRoutes from './scans.routes';
+import subtitlesRoutes from './subtitles.routes';
+import transcodesRoutes from './transcodes.routes';
 
 /**
  * Main router - aggregates all route modules
@@ -38,8 +44,13 @@ router.get('/health', (_req, res) => {
 
 // Mount route modules - all under /api prefix for consistency
 router.use('/api/files', filesRoutes);
-router.use('/api/stream', streamRoutes);
+router.use('/api/stream', streamUrlAuth, streamRoutes);
 router.use('/api/watch-folders', watchFoldersRoutes);
 router.use('/api/settings', settingsRoutes);
+router.use('/api/system', systemRoutes);
+router.use('/api/events', eventsUrlAuth, eventsRoutes);
+router.use('/api/scans', scansRoutes);
+router.use('/api/subtitles', subtitleUrlAuth, subtitlesRoutes);
+router.use('/api/transcodes', transcodesRoutes);
 
 export default router;
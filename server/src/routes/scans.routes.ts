@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import scansController from '../controllers/scans.controller';
+
+/**
+ * Scan job routes
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Scans
+ *   description: Scan job progress
+ */
+
+/**
+ * @swagger
+ * /api/scans/{jobId}:
+ *   get:
+ *     summary: Get scan job progress
+ *     tags: [Scans]
+ *     description: |
+ *       Phase, counts so far, current file and ETA of a running scan, or the outcome of a finished one.
+ *       Jobs are kept in memory; the most recent finished jobs remain available until the server restarts.
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Job ID returned by POST /api/watch-folders/{id}/scan
+ *     responses:
+ *       200:
+ *         description: Scan job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScanJob'
+ *       404:
+ *         description: Scan job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:jobId', (req, res, next) => {
+  scansController.getScanJob(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/scans/{jobId}:
+ *   delete:
+ *     summary: Cancel a running scan
+ *     tags: [Scans]
+ *     description: |
+ *       Stops discovery or IMDB processing at the next file. Nothing is written and no files are removed;
+ *       the scan is recorded in scan history with status `cancelled`. Once the scan has started persisting
+ *       results it runs to completion. The job status becomes `cancelled` when the scan has stopped.
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Cancellation requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 job:
+ *                   $ref: '#/components/schemas/ScanJob'
+ *       404:
+ *         description: Scan job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Scan job is not running
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:jobId', (req, res, next) => {
+  scansController.cancelScanJob(req, res, next);
+});
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import streamController from '../controllers/stream.controller';
-import { validateFileId } from '../middleware/validators';
+import { validateFileId, validateStartTime } from '../middleware/validators';
 
 /**
  * Video streaming routes
@@ -158,4 +158,340 @@ router.get('/:id', validateFileId, (req, res, next) => {
   streamController.streamFile(req, res, next);
 });
 
+/**
+ * @swagger
+ * /api/stream/{id}/token:
+ *   post:
+ *     summary: Issue signed stream URLs
+ *     tags: [Streaming]
+ *     description: |
+ *       Signs URLs for the stream endpoints of a file (direct, remux, HLS, embedded subtitles), for players
+ *       that cannot send the X-API-Key header. The signature (`exp`, `sig` and, when bound to an IP, `ip=1`)
+ *       can be appended to any GET or HEAD /api/stream/{id}/... URL of the same file, and to /api/subtitles/{subId}
+ *       URLs of its sidecar subtitles, and replaces the header until it expires. HLS playlists requested with a
+ *       signature carry it to their entries. The response lists signed URLs of the file's subtitles.
+ *       Issuing URLs requires the API key; signatures never authorize other endpoints.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: File ID from database
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ttl_seconds:
+ *                 type: integer
+ *                 description: Validity in seconds (default STREAM_URL_TTL_SECONDS, at most STREAM_URL_MAX_TTL_SECONDS)
+ *                 example: 14400
+ *               bind_ip:
+ *                 type: boolean
+ *                 description: Only accept the URLs from the IP of this request
+ *               ip:
+ *                 type: string
+ *                 description: Only accept the URLs from this IP (e.g. the player's, when an add-on requests URLs)
+ *                 example: 203.0.113.7
+ *     responses:
+ *       200:
+ *         description: Signed URLs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StreamToken'
+ *       400:
+ *         description: Invalid TTL or IP
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: File not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/token', validateFileId, (req, res, next) => {
+  streamController.createStreamToken(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/stream/{id}/remux.mp4:
+ *   get:
+ *     summary: Stream a file remuxed to MP4
+ *     tags: [Streaming]
+ *     description: |
+ *       Rewrites the container to fragmented MP4 with ffmpeg while streaming, copying the video and main audio
+ *       streams (no transcoding), for browsers that cannot play MKV or AVI files.
+ *       Files with `playback: remux` need this; files with `playback: transcode` use codecs that copying does not fix.
+ *       The output length is unknown, so Range requests are not supported: players seek by requesting a new start time.
+ *       Only available for storage with local paths (local folders and mounted network shares).
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: File ID from database
+ *       - in: query
+ *         name: t
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           example: 754.5
+ *         description: Start time in seconds (output starts at the keyframe before it)
+ *     responses:
+ *       200:
+ *         description: Fragmented MP4 stream
+ *         content:
+ *           video/mp4:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid file ID or start time, or start time past the end of the file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: File not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: ffmpeg failed before streaming started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       501:
+ *         description: Storage type without local paths
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/remux.mp4', validateFileId, validateStartTime, (req, res, next) => {
+  streamController.streamRemux(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/stream/{id}/hls/master.m3u8:
+ *   get:
+ *     summary: HLS master playlist
+ *     tags: [Streaming]
+ *     description: |
+ *       Adaptive transcoding ladder (480p, 720p, 1080p; H.264 and stereo AAC) for clients on slow connections.
+ *       Renditions larger than the source are left out. Segments are transcoded on demand with libx264,
+ *       cached in HLS_CACHE_DIR, and at most HLS_MAX_TRANSCODES transcodes run at once (see GET /api/transcodes).
+ *       Files not probed yet are probed on request. Only available for storage with local paths.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: File ID from database
+ *     responses:
+ *       200:
+ *         description: Master playlist
+ *         content:
+ *           application/vnd.apple.mpegurl:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: File not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: File duration unknown
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       501:
+ *         description: Storage type without local paths
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: Media details could not be read (ffprobe unavailable or failed)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/hls/master.m3u8', validateFileId, (req, res, next) => {
+  streamController.getHlsMaster(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/stream/{id}/hls/{rendition}/index.m3u8:
+ *   get:
+ *     summary: HLS media playlist of a rendition
+ *     tags: [Streaming]
+ *     description: VOD playlist with fixed-length segments, listed before they are transcoded.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: File ID from database
+ *       - in: path
+ *         name: rendition
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [480p, 720p, 1080p]
+ *     responses:
+ *       200:
+ *         description: Media playlist
+ *         content:
+ *           application/vnd.apple.mpegurl:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: File not found, or rendition not offered for the file (`details.available`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/hls/:rendition/index.m3u8', validateFileId, (req, res, next) => {
+  streamController.getHlsPlaylist(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/stream/{id}/hls/{rendition}/{segment}.ts:
+ *   get:
+ *     summary: HLS segment
+ *     tags: [Streaming]
+ *     description: |
+ *       MPEG-TS segment, served from the cache or transcoded on demand. Requests just ahead of the running
+ *       transcode wait for it; requests elsewhere (seeks) restart the transcode at the requested segment.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: File ID from database
+ *       - in: path
+ *         name: rendition
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [480p, 720p, 1080p]
+ *       - in: path
+ *         name: segment
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Segment number from the media playlist
+ *     responses:
+ *       200:
+ *         description: Segment
+ *         content:
+ *           video/mp2t:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: File, rendition or segment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Transcode failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: Too many active transcodes (retry later, see Retry-After)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/hls/:rendition/:segment.ts', validateFileId, (req, res, next) => {
+  streamController.getHlsSegment(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/stream/{id}/subtitles/{trackIndex}.vtt:
+ *   get:
+ *     summary: Extract an embedded subtitle track as WebVTT
+ *     tags: [Streaming]
+ *     description: |
+ *       Extracts a text subtitle track (SubRip, ASS, mov_text, ...) from the container with ffmpeg.
+ *       The first request reads the whole file; the result is cached on disk until the file changes (mtime).
+ *       Image-based tracks (PGS, VobSub, DVB) cannot be converted and return 422.
+ *       Tracks are listed by GET /api/files/{id}/tracks; files not probed yet are probed on request.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: File ID from database
+ *       - in: path
+ *         name: trackIndex
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Stream index of the subtitle track (`stream_index`)
+ *     responses:
+ *       200:
+ *         description: WebVTT subtitles
+ *         content:
+ *           text/vtt:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid file ID or track index
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: File or subtitle track not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Image-based subtitle track
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: Tracks could not be read (ffprobe unavailable or failed)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/subtitles/:trackIndex.vtt', validateFileId, (req, res, next) => {
+  streamController.streamSubtitleTrack(req, res, next);
+});
+
 export default router;
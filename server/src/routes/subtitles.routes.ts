@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import subtitlesController from '../controllers/subtitles.controller';
+import { validateSubtitleId } from '../middleware/validators';
+
+/**
+ * Sidecar subtitle routes
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Subtitles
+ *   description: Sidecar subtitle files (e.g. Movie.en.srt next to Movie.mkv)
+ */
+
+/**
+ * @swagger
+ * /api/subtitles/{subId}:
+ *   get:
+ *     summary: Get a sidecar subtitle
+ *     tags: [Subtitles]
+ *     description: |
+ *       Serves a subtitle file listed by GET /api/files/{id}/subtitles.
+ *       SRT files are converted to WebVTT on the fly (UTF-8 output; non-UTF-8 files are read as Windows-1252).
+ *       WebVTT files are served as-is, ASS/SSA files are always served in their original format.
+ *       Instead of the X-API-Key header, GET requests accept the stream URL signature of the subtitle's video
+ *       (POST /api/stream/{id}/token lists the signed subtitle URLs).
+ *     parameters:
+ *       - in: path
+ *         name: subId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Subtitle ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [vtt, original]
+ *           default: vtt
+ *         description: '`original` serves the file unconverted'
+ *       - in: query
+ *         name: exp
+ *         schema:
+ *           type: integer
+ *         description: Expiry of a signed URL (Unix seconds)
+ *       - in: query
+ *         name: sig
+ *         schema:
+ *           type: string
+ *         description: Stream URL signature of the subtitle's video
+ *     responses:
+ *       200:
+ *         description: Subtitle content
+ *         content:
+ *           text/vtt:
+ *             schema:
+ *               type: string
+ *           application/x-subrip:
+ *             schema:
+ *               type: string
+ *           text/x-ssa:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid subtitle ID or format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Subtitle not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:subId', validateSubtitleId, (req, res, next) => {
+  subtitlesController.serveSubtitle(req, res, next);
+});
+
+export default router;
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import systemController from '../controllers/system.controller';
+
+/**
+ * System information routes
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: System
+ *   description: System and database information
+ */
+
+/**
+ * @swagger
+ * /api/system/schema:
+ *   get:
+ *     summary: Get database schema version
+ *     tags: [System]
+ *     description: Reports applied and pending database migrations. The version is the timestamp of the latest applied migration.
+ *     responses:
+ *       200:
+ *         description: Schema status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 databaseType:
+ *                   type: string
+ *                   example: postgres
+ *                 version:
+ *                   type: integer
+ *                   nullable: true
+ *                   example: 1792433220762
+ *                 currentMigration:
+ *                   type: string
+ *                   nullable: true
+ *                   example: InitialSchema1792433220762
+ *                 applied:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                       timestamp:
+ *                         type: integer
+ *                 pending:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 upToDate:
+ *                   type: boolean
+ */
+router.get('/schema', (req, res, next) => {
+  systemController.getSchemaStatus(req, res, next);
+});
+
+export default router;
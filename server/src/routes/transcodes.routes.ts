@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import transcodesController from '../controllers/transcodes.controller';
+
+/**
+ * HLS transcode session routes
+ */
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Transcodes
+ *   description: Running HLS transcodes
+ */
+
+/**
+ * @swagger
+ * /api/transcodes:
+ *   get:
+ *     summary: List running transcodes
+ *     tags: [Transcodes]
+ *     description: |
+ *       ffmpeg transcodes started by HLS segment requests (GET /api/stream/{id}/hls/master.m3u8).
+ *       Transcodes without segment requests for HLS_IDLE_TIMEOUT_MS are stopped automatically.
+ *     responses:
+ *       200:
+ *         description: Running transcodes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 limit:
+ *                   type: integer
+ *                   description: Maximum concurrent transcodes (HLS_MAX_TRANSCODES)
+ *                   example: 2
+ *                 sessions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TranscodeSession'
+ */
+router.get('/', (req, res, next) => {
+  transcodesController.listTranscodes(req, res, next);
+});
+
+/**
+ * @swagger
+ * /api/transcodes/{sessionId}:
+ *   delete:
+ *     summary: Stop a running transcode
+ *     tags: [Transcodes]
+ *     description: Kills the ffmpeg process. Cached segments are kept; a player requesting further segments starts a new transcode.
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transcode stopped
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 session:
+ *                   $ref: '#/components/schemas/TranscodeSession'
+ *       404:
+ *         description: Transcode session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:sessionId', (req, res, next) => {
+  transcodesController.stopTranscode(req, res, next);
+});
+
+export default router;
@@ -83,6 +83,21 @@ router.get('/:id', (req, res, next) => {
  *                 type: array
  *                 items:
  *                   type: string
+ *               stability_window_seconds:
+ *                 type: integer
+ *                 description: Defer files modified within this many seconds (still being written); 0 disables
+ *               live_watch:
+ *                 type: boolean
+ *                 description: Pick up changes from filesystem events between scheduled scans (local folders only)
+ *               max_removal_percent:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 default: 50
+ *                 description: |
+ *                   Mass-deletion guard. A scan that would remove more than this share of the folder's files
+ *                   (or finds the folder empty) removes nothing and marks the folder unavailable
+ *                   (`unavailable_reason`, `unavailable_since`). 100 disables the guard.
  *     responses:
  *       201:
  *         description: Watch folder created
@@ -147,7 +162,8 @@ router.delete('/:id', (req, res, next) => {
  * @swagger
  * /api/watch-folders/{id}/scan:
  *   post:
- *     summary: Trigger manual scan for a watch folder
+ *     summary: Start manual scan for a watch folder
+ *     description: Starts the scan in the background and returns its job ID; poll GET /api/scans/{jobId} for progress
  *     tags: [Watch Folders]
  *     parameters:
  *       - in: path
@@ -156,8 +172,32 @@ router.delete('/:id', (req, res, next) => {
  *         schema:
  *           type: integer
  *     responses:
- *       200:
- *         description: Scan completed
+ *       202:
+ *         description: Scan started
+ *         headers:
+ *           Location:
+ *             description: URL of the scan job
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 watchFolderId:
+ *                   type: integer
+ *                 jobId:
+ *                   type: string
+ *                 status:
+ *                   type: string
+ *                   example: running
+ *                 startedAt:
+ *                   type: string
+ *                   format: date-time
+ *       404:
+ *         description: Watch folder not found
  *       409:
  *         description: Scan already in progress
  */
@@ -165,6 +205,31 @@ router.post('/:id/scan', (req, res, next) => {
   watchFoldersController.triggerScan(req, res, next);
 });
 
+/**
+ * @swagger
+ * /api/watch-folders/{id}/scan/cancel:
+ *   post:
+ *     summary: Cancel the running scan of a watch folder
+ *     description: Same as DELETE /api/scans/{jobId} for the folder's running scan job
+ *     tags: [Watch Folders]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       202:
+ *         description: Cancellation requested
+ *       404:
+ *         description: Watch folder not found
+ *       409:
+ *         description: No scan in progress
+ */
+router.post('/:id/scan/cancel', (req, res, next) => {
+  watchFoldersController.cancelScan(req, res, next);
+});
+
 /**
  * @swagger
  * /api/watch-folders/{id}/stats:
@@ -179,7 +244,7 @@ router.post('/:id/scan', (req, res, next) => {
  *           type: integer
  *     responses:
  *       200:
- *         description: Watch folder statistics
+ *         description: Watch folder statistics, including files deferred by the stability window (pendingFiles)
  */
 router.get('/:id/stats', (req, res, next) => {
   watchFoldersController.getWatchFolderStats(req, res, next);
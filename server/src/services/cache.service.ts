@@ -7,12 +7,11 @@
  * 
  * Usage:
  *   import cache from './services/cache.service';
- *   const value = cache.get('key', 60000);
- *   cache.set('key', value);
+ *   const value = await cache.get('key', 60000);
+ *   await cache.set('key', value);
  * 
  * To use a different cache:
- *   Set CACHE_TYPE=redis (or memcached) in your environment
- *   Note: Redis/Memcached providers need to be added first
+ *   Set CACHE_TYPE=redis or CACHE_TYPE=memcached in your environment (with CACHE_HOST/CACHE_PORT)
  */
 import { createCacheService } from './cache/factory';
 
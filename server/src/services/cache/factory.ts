@@ -1,7 +1,9 @@
 import logger from '../../config/logger';
 import config from '../../config';
 import { ICacheService } from './interface';
+import { MemcachedCacheService } from './providers/memcached.cache.service';
 import { MemoryCacheService } from './providers/memory.cache.service';
+import { RedisCacheService } from './providers/redis.cache.service';
 
 export type CacheType = 'memory' | 'redis' | 'memcached';
 
@@ -19,12 +21,10 @@ export function createCacheService(): ICacheService {
       return new MemoryCacheService();
 
     case 'redis':
-      // TODO: Implement Redis support
-      throw new Error('Redis cache support is not yet implemented. Please use memory cache for now.');
+      return new RedisCacheService();
 
     case 'memcached':
-      // TODO: Implement Memcached support
-      throw new Error('Memcached cache support is not yet implemented. Please use memory cache for now.');
+      return new MemcachedCacheService();
 
     default:
       logger.warn('Unknown cache type, defaulting to memory', { type: cacheType });
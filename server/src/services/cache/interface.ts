@@ -1,6 +1,16 @@
+/**
+ * Cache statistics reported by a cache provider
+ */
+export interface CacheStats {
+  size: number;
+  maxSize: number;
+}
+
 /**
  * Cache service interface
  * Defines the contract for all cache providers
+ * All methods are async so that networked providers (Redis, memcached) can be used.
+ * Providers never reject: backend errors are logged and reads become cache misses.
  */
 export interface ICacheService {
   /**
@@ -9,31 +19,29 @@ export interface ICacheService {
    * @param ttl - Time to live in milliseconds
    * @returns Cached value or null if not found/expired
    */
-  get(key: string, ttl: number): any;
+  get<T = unknown>(key: string, ttl: number): Promise<T | null>;
 
   /**
    * Set a value in cache
    * @param key - Cache key
    * @param value - Value to cache
+   * @param ttl - Optional time to live in milliseconds for this key
    */
-  set(key: string, value: any): void;
+  set(key: string, value: unknown, ttl?: number): Promise<void>;
 
   /**
    * Delete a specific key from cache
    * @param key - Cache key to delete
    */
-  delete(key: string): void;
+  delete(key: string): Promise<void>;
 
   /**
    * Clear entire cache
    */
-  clear(): void;
+  clear(): Promise<void>;
 
   /**
    * Get cache statistics
    */
-  getStats(): {
-    size: number;
-    maxSize: number;
-  };
+  getStats(): Promise<CacheStats>;
 }
@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import Memcached from 'memcached';
+import config from '../../../config';
+import logger from '../../../config/logger';
+import { CacheStats, ICacheService } from '../interface';
+import { MemoryCacheService } from './memory.cache.service';
+
+// Memcached treats expirations above 30 days as absolute Unix timestamps
+const MAX_RELATIVE_EXPIRATION_SECONDS = 30 * 24 * 60 * 60;
+
+// Memcached rejects keys longer than 250 bytes
+const MAX_KEY_LENGTH = 250;
+
+// Commands on a connection the server dropped never call back, so each one is given up after this
+const COMMAND_TIMEOUT_MS = 2000;
+
+/**
+ * Stored cache entry; the timestamp lets callers apply a shorter read TTL
+ * than the expiry the key was written with
+ */
+interface MemcachedCacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+/**
+ * Memcached cache service implementation
+ * Keys are namespaced with config.cache.keyPrefix plus a generation number, so
+ * clear() only invalidates this service's keys instead of flushing a memcached
+ * instance shared with other applications.
+ * If memcached is unreachable at startup the service degrades to the in-memory provider.
+ */
+export class MemcachedCacheService implements ICacheService {
+  private client: Memcached;
+  private prefix: string;
+  private fallback: MemoryCacheService | null = null;
+  private ready: Promise<void>;
+
+  constructor(location?: string) {
+    const serverLocation = location || `${config.cache.host || 'localhost'}:${config.cache.port || 11211}`;
+
+    this.prefix = config.cache.keyPrefix;
+    this.client = new Memcached(serverLocation, {
+      timeout: COMMAND_TIMEOUT_MS,
+      retries: 1,
+      retry: 10000
+    });
+
+    this.client.on('failure', (details: Memcached.IssueData) => {
+      logger.warn('Memcached server failure', { server: details.server, messages: details.messages });
+    });
+
+    logger.info('Memcached cache service initialized', {
+      type: 'memcached',
+      location: serverLocation,
+      prefix: this.prefix
+    });
+
+    this.ready = this._checkConnection(serverLocation);
+  }
+
+  /**
+   * Get a value from cache
+   * @param key - Cache key
+   * @param ttl - Time to live in milliseconds
+   * @returns Cached value or null if not found/expired
+   */
+  async get<T = unknown>(key: string, ttl: number): Promise<T | null> {
+    await this.ready;
+    if (this.fallback) {
+      return this.fallback.get<T>(key, ttl);
+    }
+
+    try {
+      const cacheKey = await this._key(key);
+      const raw = await this._command<any>((cb) => this.client.get(cacheKey, cb));
+      if (raw === undefined || raw === null || raw === false) {
+        return null;
+      }
+
+      const entry: MemcachedCacheEntry = JSON.parse(String(raw));
+      if (Date.now() - entry.storedAt > ttl) {
+        await this._command<boolean>((cb) => this.client.del(cacheKey, cb));
+        logger.debug('Cache expired', { key });
+        return null;
+      }
+
+      logger.debug('Cache hit', { key });
+      return entry.value as T;
+    } catch (err: any) {
+      logger.warn('Memcached cache get failed', { key, error: err.message });
+      return null;
+    }
+  }
+
+  /**
+   * Set a value in cache
+   * @param key - Cache key
+   * @param value - Value to cache
+   * @param ttl - Optional time to live in milliseconds (defaults to CACHE_IMDB_TTL)
+   */
+  async set(key: string, value: unknown, ttl?: number): Promise<void> {
+    await this.ready;
+    if (this.fallback) {
+      return this.fallback.set(key, value, ttl);
+    }
+
+    const entry: MemcachedCacheEntry = { value, storedAt: Date.now() };
+    const lifetime = this._lifetime(ttl ?? config.cache.imdbTTL);
+
+    try {
+      const cacheKey = await this._key(key);
+      await this._command<boolean>((cb) => this.client.set(cacheKey, JSON.stringify(entry), lifetime, cb));
+      logger.debug('Cache set', { key, lifetime });
+    } catch (err: any) {
+      logger.warn('Memcached cache set failed', { key, error: err.message });
+    }
+  }
+
+  /**
+   * Delete a specific key from cache
+   * @param key - Cache key to delete
+   */
+  async delete(key: string): Promise<void> {
+    await this.ready;
+    if (this.fallback) {
+      return this.fallback.delete(key);
+    }
+
+    try {
+      const cacheKey = await this._key(key);
+      const removed = await this._command<boolean>((cb) => this.client.del(cacheKey, cb));
+      if (removed) {
+        logger.debug('Cache deleted', { key });
+      }
+    } catch (err: any) {
+      logger.warn('Memcached cache delete failed', { key, error: err.message });
+    }
+  }
+
+  /**
+   * Clear entire cache
+   * Bumps the namespace generation; old keys become unreachable and expire on their own
+   */
+  async clear(): Promise<void> {
+    await this.ready;
+    if (this.fallback) {
+      return this.fallback.clear();
+    }
+
+    const generationKey = this._generationKey();
+    try {
+      const result = await this._command<boolean | number>((cb) => this.client.incr(generationKey, 1, cb));
+      if (result === false) {
+        // Generation key was evicted; start a new one
+        await this._command<boolean>((cb) => this.client.set(generationKey, String(Date.now()), 0, cb));
+      }
+      logger.info('Cache cleared', { type: 'memcached' });
+    } catch (err: any) {
+      logger.warn('Memcached cache clear failed', { error: err.message });
+    }
+  }
+
+  /**
+   * Get cache statistics
+   * Memcached cannot enumerate keys, so size is the item count reported by the server(s)
+   * (0 while memcached is unreachable)
+   */
+  async getStats(): Promise<CacheStats> {
+    await this.ready;
+    if (this.fallback) {
+      return this.fallback.getStats();
+    }
+
+    let size = 0;
+    try {
+      const stats = await this._command<Memcached.StatusData[]>((cb) => this.client.stats(cb));
+      size = (Array.isArray(stats) ? stats : [stats])
+        .reduce((total, server: any) => total + (parseInt(server?.curr_items, 10) || 0), 0);
+    } catch (err: any) {
+      logger.warn('Memcached cache stats failed', { error: err.message });
+    }
+
+    return {
+      size,
+      maxSize: config.cache.maxSize
+    };
+  }
+
+  /**
+   * Close the memcached connections
+   */
+  async disconnect(): Promise<void> {
+    await this.ready;
+    this.client.end();
+  }
+
+  /**
+   * Verify memcached is reachable; otherwise switch to the memory provider
+   * @private
+   */
+  private async _checkConnection(location: string): Promise<void> {
+    try {
+      await this._command<Memcached.VersionData[]>((cb) => this.client.version(cb));
+      logger.info('Connected to memcached', { location });
+    } catch (err: any) {
+      logger.warn('Memcached unreachable, falling back to memory cache', {
+        location,
+        error: err.message
+      });
+      this.client.end();
+      this.fallback = new MemoryCacheService();
+    }
+  }
+
+  /**
+   * Build the namespaced memcached key for a cache key
+   * Keys are URI-encoded (memcached keys cannot contain spaces) and hashed when too long
+   * @private
+   */
+  private async _key(key: string): Promise<string> {
+    const generation = await this._generation();
+    const namespaced = `${this.prefix}${generation}:${encodeURIComponent(key)}`;
+    if (namespaced.length <= MAX_KEY_LENGTH) {
+      return namespaced;
+    }
+    return `${this.prefix}${generation}:sha1:${crypto.createHash('sha1').update(key).digest('hex')}`;
+  }
+
+  /**
+   * Get the current namespace generation, creating it if missing
+   * Read on every call so clear() on one replica is seen by all of them
+   * @private
+   */
+  private async _generation(): Promise<string> {
+    const generationKey = this._generationKey();
+    const current = await this._command<any>((cb) => this.client.get(generationKey, cb));
+    if (current !== undefined && current !== null && current !== false) {
+      return String(current);
+    }
+
+    const generation = String(Date.now());
+    await this._command<boolean>((cb) => this.client.add(generationKey, generation, 0, cb)).catch(() => false);
+    const stored = await this._command<any>((cb) => this.client.get(generationKey, cb));
+    return stored !== undefined && stored !== null && stored !== false ? String(stored) : generation;
+  }
+
+  /**
+   * Key holding the namespace generation
+   * @private
+   */
+  private _generationKey(): string {
+    return `${this.prefix}generation`;
+  }
+
+  /**
+   * Convert a TTL in milliseconds to a memcached lifetime
+   * @private
+   */
+  private _lifetime(ttl: number): number {
+    const seconds = Math.max(1, Math.ceil(ttl / 1000));
+    if (seconds <= MAX_RELATIVE_EXPIRATION_SECONDS) {
+      return seconds;
+    }
+    return Math.floor(Date.now() / 1000) + seconds;
+  }
+
+  /**
+   * Run a callback-style memcached command as a promise (rejected after COMMAND_TIMEOUT_MS)
+   * @private
+   */
+  private _command<T>(run: (cb: (err: any, result: T) => void) => void): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`Memcached command timed out after ${COMMAND_TIMEOUT_MS}ms`));
+      }, COMMAND_TIMEOUT_MS);
+      run((err, result) => {
+        clearTimeout(timer);
+        if (err) {
+          reject(err);
+        } else {
+          resolve(result);
+        }
+      });
+    });
+  }
+}
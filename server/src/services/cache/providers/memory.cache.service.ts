@@ -1,18 +1,20 @@
 import config from '../../../config';
 import logger from '../../../config/logger';
-import { ICacheService } from '../interface';
+import { CacheStats, ICacheService } from '../interface';
 
 /**
  * In-memory cache service implementation using Map
  * Simple LRU eviction when cache reaches max size
  */
 export class MemoryCacheService implements ICacheService {
-  private cache: Map<string, any>;
+  private cache: Map<string, unknown>;
   private timestamps: Map<string, number>;
+  private ttls: Map<string, number>;
 
   constructor() {
     this.cache = new Map();
     this.timestamps = new Map();
+    this.ttls = new Map();
     logger.info('Memory cache service initialized', { type: 'memory' });
   }
 
@@ -22,7 +24,7 @@ export class MemoryCacheService implements ICacheService {
    * @param ttl - Time to live in milliseconds
    * @returns Cached value or null if not found/expired
    */
-  get(key: string, ttl: number): any {
+  async get<T = unknown>(key: string, ttl: number): Promise<T | null> {
     if (!this.cache.has(key)) {
       return null;
     }
@@ -33,37 +35,47 @@ export class MemoryCacheService implements ICacheService {
     }
 
     const now = Date.now();
+    const keyTtl = this.ttls.get(key);
+    const effectiveTtl = keyTtl !== undefined ? Math.min(ttl, keyTtl) : ttl;
 
-    if (now - timestamp > ttl) {
+    if (now - timestamp > effectiveTtl) {
       // Expired, remove from cache
       this.cache.delete(key);
       this.timestamps.delete(key);
+      this.ttls.delete(key);
       logger.debug('Cache expired', { key });
       return null;
     }
 
     logger.debug('Cache hit', { key });
-    return this.cache.get(key);
+    return this.cache.get(key) as T;
   }
 
   /**
    * Set a value in cache
    * @param key - Cache key
    * @param value - Value to cache
+   * @param ttl - Optional time to live in milliseconds for this key
    */
-  set(key: string, value: any): void {
+  async set(key: string, value: unknown, ttl?: number): Promise<void> {
     // Implement simple LRU: if cache is full, remove oldest entry
     if (this.cache.size >= config.cache.maxSize && !this.cache.has(key)) {
       const oldestKey = this.timestamps.keys().next().value;
       if (oldestKey) {
         this.cache.delete(oldestKey);
         this.timestamps.delete(oldestKey);
+        this.ttls.delete(oldestKey);
         logger.debug('Cache eviction', { key: oldestKey });
       }
     }
 
     this.cache.set(key, value);
     this.timestamps.set(key, Date.now());
+    if (ttl !== undefined) {
+      this.ttls.set(key, ttl);
+    } else {
+      this.ttls.delete(key);
+    }
     logger.debug('Cache set', { key, size: this.cache.size });
   }
 
@@ -71,10 +83,11 @@ export class MemoryCacheService implements ICacheService {
    * Delete a specific key from cache
    * @param key - Cache key to delete
    */
-  delete(key: string): void {
+  async delete(key: string): Promise<void> {
     const existed = this.cache.has(key);
     this.cache.delete(key);
     this.timestamps.delete(key);
+    this.ttls.delete(key);
     if (existed) {
       logger.debug('Cache deleted', { key });
     }
@@ -83,17 +96,18 @@ export class MemoryCacheService implements ICacheService {
   /**
    * Clear entire cache
    */
-  clear(): void {
+  async clear(): Promise<void> {
     const size = this.cache.size;
     this.cache.clear();
     this.timestamps.clear();
+    this.ttls.clear();
     logger.info('Cache cleared', { entriesRemoved: size });
   }
 
   /**
    * Get cache statistics
    */
-  getStats() {
+  async getStats(): Promise<CacheStats> {
     return {
       size: this.cache.size,
       maxSize: config.cache.maxSize
@@ -0,0 +1,187 @@
+import Redis from 'ioredis';
+import config from '../../../config';
+import logger from '../../../config/logger';
+import { CacheStats, ICacheService } from '../interface';
+
+// Number of keys requested per SCAN iteration when counting or clearing keys
+const SCAN_BATCH_SIZE = 500;
+
+/**
+ * Stored cache entry; the timestamp lets callers apply a shorter read TTL
+ * than the expiry the key was written with
+ */
+interface RedisCacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+/**
+ * Redis cache service implementation
+ * Shares cached values between API replicas. All keys are namespaced with
+ * config.cache.keyPrefix so several deployments can share one Redis database.
+ * Redis errors are logged and treated as cache misses so lookups keep working.
+ */
+export class RedisCacheService implements ICacheService {
+  private client: Redis;
+  private prefix: string;
+
+  constructor(client?: Redis) {
+    this.prefix = config.cache.keyPrefix;
+    this.client = client || new Redis({
+      host: config.cache.host || 'localhost',
+      port: config.cache.port || 6379,
+      password: config.cache.password || undefined,
+      maxRetriesPerRequest: 2
+    });
+
+    this.client.on('error', (err: Error) => {
+      logger.warn('Redis cache connection error', { error: err.message });
+    });
+
+    logger.info('Redis cache service initialized', {
+      type: 'redis',
+      host: config.cache.host || 'localhost',
+      port: config.cache.port || 6379,
+      prefix: this.prefix
+    });
+  }
+
+  /**
+   * Get a value from cache
+   * @param key - Cache key
+   * @param ttl - Time to live in milliseconds
+   * @returns Cached value or null if not found/expired
+   */
+  async get<T = unknown>(key: string, ttl: number): Promise<T | null> {
+    try {
+      const raw = await this.client.get(this._key(key));
+      if (raw === null) {
+        return null;
+      }
+
+      const entry: RedisCacheEntry = JSON.parse(raw);
+      if (Date.now() - entry.storedAt > ttl) {
+        await this.client.del(this._key(key));
+        logger.debug('Cache expired', { key });
+        return null;
+      }
+
+      logger.debug('Cache hit', { key });
+      return entry.value as T;
+    } catch (err: any) {
+      logger.warn('Redis cache get failed', { key, error: err.message });
+      return null;
+    }
+  }
+
+  /**
+   * Set a value in cache
+   * @param key - Cache key
+   * @param value - Value to cache
+   * @param ttl - Optional time to live in milliseconds (defaults to CACHE_IMDB_TTL)
+   */
+  async set(key: string, value: unknown, ttl?: number): Promise<void> {
+    const entry: RedisCacheEntry = { value, storedAt: Date.now() };
+    const expiry = ttl ?? config.cache.imdbTTL;
+
+    try {
+      await this.client.set(this._key(key), JSON.stringify(entry), 'PX', expiry);
+      logger.debug('Cache set', { key, ttl: expiry });
+    } catch (err: any) {
+      logger.warn('Redis cache set failed', { key, error: err.message });
+    }
+  }
+
+  /**
+   * Delete a specific key from cache
+   * @param key - Cache key to delete
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      const removed = await this.client.del(this._key(key));
+      if (removed > 0) {
+        logger.debug('Cache deleted', { key });
+      }
+    } catch (err: any) {
+      logger.warn('Redis cache delete failed', { key, error: err.message });
+    }
+  }
+
+  /**
+   * Clear entire cache (only keys in this service's namespace)
+   */
+  async clear(): Promise<void> {
+    let removed = 0;
+    try {
+      await this._scanKeys(async (keys) => {
+        removed += await this.client.del(...keys);
+      });
+      logger.info('Cache cleared', { entriesRemoved: removed });
+    } catch (err: any) {
+      logger.warn('Redis cache clear failed', { entriesRemoved: removed, error: err.message });
+    }
+  }
+
+  /**
+   * Get cache statistics
+   * Size is the number of keys in this service's namespace (0 while Redis is unreachable)
+   */
+  async getStats(): Promise<CacheStats> {
+    let size = 0;
+    try {
+      await this._scanKeys(async (keys) => {
+        size += keys.length;
+      });
+    } catch (err: any) {
+      logger.warn('Redis cache stats failed', { error: err.message });
+      size = 0;
+    }
+
+    return {
+      size,
+      maxSize: config.cache.maxSize
+    };
+  }
+
+  /**
+   * Close the Redis connection
+   */
+  async disconnect(): Promise<void> {
+    await this.client.quit();
+  }
+
+  /**
+   * Add the namespace prefix to a cache key
+   * @private
+   */
+  private _key(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  /**
+   * Iterate over all keys in the namespace using SCAN (non-blocking, unlike KEYS)
+   * @private
+   */
+  private async _scanKeys(handleBatch: (keys: string[]) => Promise<void>): Promise<void> {
+    let cursor = '0';
+    do {
+      const [nextCursor, keys] = await this.client.scan(
+        cursor,
+        'MATCH', `${this._escapePattern(this.prefix)}*`,
+        'COUNT', SCAN_BATCH_SIZE
+      );
+      cursor = nextCursor;
+      if (keys.length > 0) {
+        await handleBatch(keys);
+      }
+    } while (cursor !== '0');
+  }
+
+  /**
+   * Escape glob characters so the prefix is matched literally
+   * @private
+   */
+  private _escapePattern(value: string): string {
+    return value.replace(/[*?[\]\\]/g, '\\$&');
+  }
+}
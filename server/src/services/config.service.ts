@@ -1,4 +1,5 @@
 import db from './database.service';
+import eventsService from './events.service';
 import logger from '../config/logger';
 import config from '../config';
 import { WatchFolder } from '../types/database';
@@ -138,6 +139,7 @@ class ConfigService {
     await db.setSetting(key, value);
     this.serverSettings[key] = value;
     logger.debug('Updated server setting', { key, value });
+    eventsService.publish('settings.changed', { scope: 'server', key, value });
   }
 
   /**
@@ -1,15 +1,29 @@
 import 'reflect-metadata';
-import { DataSource, Repository } from 'typeorm';
+import path from 'path';
+import { DataSource, EntityManager, In, IsNull, LessThan, MigrationExecutor, MoreThan, Not, Repository } from 'typeorm';
 import logger from '../config/logger';
 import config from '../config';
-import { FileRecord, DatabaseStats, ScanRecord, WatchFolder } from '../types/database';
-import { WatchFolderDTO } from '../types/dtos';
+import { FileRecord, FileFilter, FileMatchStatus, PlaybackMode, FileHashes, FileMove, FileSidecars, FileTracks, SidecarSubtitle, TrackType, FileChangeType, FileChangeFeed, DatabaseStats, ScanRecord, ScanStatus, UnavailableWatchFolder, WatchFolder, SchemaStatus } from '../types/database';
+import { WatchFolderDTO, FileMatchDTO } from '../types/dtos';
 import encryptionService from './encryption.service';
 import { IDatabaseService } from './database/interface';
 import { FileEntity } from './database/entities/file.entity';
 import { ScanEntity } from './database/entities/scan.entity';
 import { WatchFolderEntity } from './database/entities/watch-folder.entity';
 import { ServerSettingEntity } from './database/entities/server-setting.entity';
+import { FileChangeEntity } from './database/entities/file-change.entity';
+import { AudioTrackEntity } from './database/entities/audio-track.entity';
+import { SubtitleTrackEntity } from './database/entities/subtitle-track.entity';
+import { SidecarSubtitleEntity } from './database/entities/sidecar-subtitle.entity';
+import { ChangeFeedLockEntity } from './database/entities/change-feed-lock.entity';
+import { createDataSource, getTypeOrmDatabaseType } from './database/data-source';
+import { parseSidecarName } from '../utils/subtitle-utils';
+
+// Maximum number of IDs per DELETE ... WHERE id IN (...) statement
+const DELETE_CHUNK_SIZE = 500;
+
+// Maximum number of rows per change feed INSERT statement
+const CHANGE_INSERT_CHUNK_SIZE = 500;
 
 /**
  * Database service using TypeORM
@@ -21,6 +35,7 @@ class DatabaseService implements IDatabaseService {
   private scanRepository!: Repository<ScanEntity>;
   private watchFolderRepository!: Repository<WatchFolderEntity>;
   private serverSettingRepository!: Repository<ServerSettingEntity>;
+  private fileChangeRepository!: Repository<FileChangeEntity>;
   private initialized: boolean = false;
   private initPromise!: Promise<void>;
 
@@ -36,51 +51,28 @@ class DatabaseService implements IDatabaseService {
   private async initialize(): Promise<void> {
     if (this.initialized) return;
 
-    const dbType = (config.database.type || 'postgresql').toLowerCase();
-    
-    // Map database type to TypeORM driver type
-    let typeormType: 'postgres' | 'mysql' | 'mariadb';
-    switch (dbType) {
-      case 'postgresql':
-        typeormType = 'postgres';
-        break;
-      case 'mysql':
-        typeormType = 'mysql';
-        break;
-      case 'mariadb':
-        typeormType = 'mariadb';
-        break;
-      default:
-        logger.warn('Unknown database type, defaulting to PostgreSQL', { type: dbType });
-        typeormType = 'postgres';
-    }
-
-    // Prepare database connection options
-    const dataSourceOptions: any = {
-      type: typeormType,
-      entities: [FileEntity, ScanEntity, WatchFolderEntity, ServerSettingEntity],
-      synchronize: process.env.NODE_ENV !== 'production', // Auto-sync schema in development only
-      logging: config.logLevel === 'debug' ? ['query', 'error'] : ['error'],
-    };
-
-    // Configure PostgreSQL, MySQL, or MariaDB connection
-    dataSourceOptions.host = config.database.host || 'localhost';
-    dataSourceOptions.port = config.database.port || (typeormType === 'postgres' ? 5432 : 3306);
-    dataSourceOptions.username = config.database.username || 'postgres';
-    dataSourceOptions.password = config.database.password;
-    dataSourceOptions.database = config.database.database || 'stremio_nas';
-
-    this.dataSource = new DataSource(dataSourceOptions);
+    this.dataSource = createDataSource();
+    const isSqlite = getTypeOrmDatabaseType() === 'sqlite';
     
     try {
       await this.dataSource.initialize();
+
+      // Bring schema up to date before any repository is used
+      if (config.database.migrationsRun) {
+        await this.runMigrations();
+      }
+
       this.fileRepository = this.dataSource.getRepository(FileEntity);
       this.scanRepository = this.dataSource.getRepository(ScanEntity);
       this.watchFolderRepository = this.dataSource.getRepository(WatchFolderEntity);
       this.serverSettingRepository = this.dataSource.getRepository(ServerSettingEntity);
+      this.fileChangeRepository = this.dataSource.getRepository(FileChangeEntity);
 
       this.initialized = true;
-      logger.info('TypeORM database initialized', {
+      logger.info('TypeORM database initialized', isSqlite ? {
+        type: config.database.type,
+        path: this.dataSource.options.database,
+      } : {
         type: config.database.type,
         host: config.database.host,
         port: config.database.port,
@@ -92,6 +84,18 @@ class DatabaseService implements IDatabaseService {
     }
   }
 
+  /**
+   * Apply pending schema migrations (each in its own transaction)
+   */
+  private async runMigrations(): Promise<void> {
+    const applied = await this.dataSource.runMigrations({ transaction: 'each' });
+    if (applied.length > 0) {
+      logger.info('Applied database migrations', { migrations: applied.map(m => m.name) });
+    } else {
+      logger.debug('Database schema is up to date');
+    }
+  }
+
   /**
    * Ensure database is initialized
    */
@@ -104,14 +108,15 @@ class DatabaseService implements IDatabaseService {
 
   /**
    * Convert FileEntity to FileRecord
+   * bigint columns come back as strings from PostgreSQL and MySQL: records always carry numbers
    */
   private entityToFileRecord(entity: FileEntity): FileRecord {
     return {
       id: entity.id,
       name: entity.name,
       path: entity.path,
-      size: entity.size,
-      mtime: entity.mtime,
+      size: Number(entity.size),
+      mtime: Number(entity.mtime),
       parsedName: entity.parsedName ?? undefined,
       type: entity.type ?? undefined,
       imdb_id: entity.imdb_id ?? undefined,
@@ -134,8 +139,21 @@ class DatabaseService implements IDatabaseService {
       starring: entity.starring ?? undefined,
       similarity: entity.similarity ?? undefined,
       watch_folder_id: entity.watch_folder_id ?? undefined,
+      match_status: entity.match_status as FileMatchStatus,
+      match_locked: entity.match_locked === 1,
+      partial_hash: entity.partial_hash ?? undefined,
+      fingerprint: entity.fingerprint ?? undefined,
+      duration: entity.duration ?? undefined,
+      width: entity.width ?? undefined,
+      height: entity.height ?? undefined,
+      bitrate: entity.bitrate !== null && entity.bitrate !== undefined ? Number(entity.bitrate) : undefined,
+      videoProfile: entity.videoProfile ?? undefined,
+      hdrFormat: entity.hdrFormat ?? undefined,
+      probedAt: entity.probedAt?.toISOString(),
+      playback: (entity.playback as PlaybackMode) ?? undefined,
       createdAt: entity.createdAt?.toISOString(),
       updatedAt: entity.updatedAt?.toISOString(),
+      deletedAt: entity.deletedAt?.toISOString(),
     };
   }
 
@@ -170,6 +188,18 @@ class DatabaseService implements IDatabaseService {
       starring: fileData.starring ?? null,
       similarity: fileData.similarity ?? null,
       watch_folder_id: fileData.watch_folder_id ?? null,
+      match_status: fileData.match_status ?? 'matched',
+      match_locked: fileData.match_locked ? 1 : 0,
+      partial_hash: fileData.partial_hash ?? null,
+      fingerprint: fileData.fingerprint ?? null,
+      duration: fileData.duration ?? null,
+      width: fileData.width ?? null,
+      height: fileData.height ?? null,
+      bitrate: fileData.bitrate ?? null,
+      videoProfile: fileData.videoProfile ?? null,
+      hdrFormat: fileData.hdrFormat ?? null,
+      probedAt: fileData.probedAt ? new Date(fileData.probedAt) : null,
+      playback: fileData.playback ?? null,
     };
   }
 
@@ -178,49 +208,143 @@ class DatabaseService implements IDatabaseService {
   async upsertFile(fileData: FileRecord): Promise<any> {
     await this.ensureInitialized();
     
-    return await this.dataSource.transaction(async (manager) => {
+    return await this.changeFeedTransaction(async (manager) => {
       const fileRepository = manager.getRepository(FileEntity);
-      const existing = await fileRepository.findOne({ where: { path: fileData.path } });
+      const existing = await this.findFileForUpsert(fileRepository, fileData);
       
       const entityData = this.fileRecordToEntity(fileData);
       
       if (existing) {
-        Object.assign(existing, entityData);
+        const restored = existing.deletedAt !== null && existing.deletedAt !== undefined;
+        Object.assign(existing, entityData, { deletedAt: null });
         const saved = await fileRepository.save(existing);
+        await this.replaceFileTracks(manager, saved.id, fileData);
+        await this.recordFileChanges(manager, [saved.id], restored ? 'added' : 'updated');
         return { changes: 1, lastInsertRowid: saved.id };
       } else {
         const newEntity = fileRepository.create(entityData);
         const saved = await fileRepository.save(newEntity);
+        await this.replaceFileTracks(manager, saved.id, fileData);
+        await this.recordFileChanges(manager, [saved.id], 'added');
         return { changes: 1, lastInsertRowid: saved.id };
       }
     });
   }
 
-  async upsertFilesBatch(files: FileRecord[]): Promise<void> {
+  async upsertFilesBatch(files: FileRecord[]): Promise<{ added: number; updated: number }> {
     await this.ensureInitialized();
     
-    await this.dataSource.transaction(async (manager) => {
+    return await this.changeFeedTransaction(async (manager) => {
       const fileRepository = manager.getRepository(FileEntity);
+      const addedIds: number[] = [];
+      const updatedIds: number[] = [];
       
       for (const fileData of files) {
-        const existing = await fileRepository.findOne({ where: { path: fileData.path } });
+        const existing = await this.findFileForUpsert(fileRepository, fileData);
         const entityData = this.fileRecordToEntity(fileData);
         
         if (existing) {
-          Object.assign(existing, entityData);
+          // A file restored from the trash is new to clients again
+          const restored = existing.deletedAt !== null && existing.deletedAt !== undefined;
+          Object.assign(existing, entityData, { deletedAt: null });
           await fileRepository.save(existing);
+          await this.replaceFileTracks(manager, existing.id, fileData);
+          (restored ? addedIds : updatedIds).push(existing.id);
         } else {
           const newEntity = fileRepository.create(entityData);
-          await fileRepository.save(newEntity);
+          const saved = await fileRepository.save(newEntity);
+          await this.replaceFileTracks(manager, saved.id, fileData);
+          addedIds.push(saved.id);
         }
       }
+
+      await this.recordFileChanges(manager, addedIds, 'added');
+      await this.recordFileChanges(manager, updatedIds, 'updated');
+      return { added: addedIds.length, updated: updatedIds.length };
     });
   }
 
+  /**
+   * Find the stored file an upsert applies to, including files in the trash
+   * By ID when given (e.g. a file restored to a new path), otherwise by path
+   */
+  private async findFileForUpsert(fileRepository: Repository<FileEntity>, fileData: FileRecord): Promise<FileEntity | null> {
+    return await fileRepository.findOne({
+      where: fileData.id !== undefined ? { id: fileData.id } : { path: fileData.path },
+      withDeleted: true,
+    });
+  }
+
+  /**
+   * Replace the stored audio and subtitle tracks of a file (within the caller's transaction)
+   * Tracks are kept when the record has none (file not probed, e.g. restored from the trash)
+   */
+  private async replaceFileTracks(manager: EntityManager, fileId: number, fileData: FileRecord): Promise<void> {
+    if (fileData.audioTracks === undefined && fileData.subtitleTracks === undefined) {
+      return;
+    }
+
+    await this.deleteFileTracks(manager, [fileId]);
+    const audioTracks = (fileData.audioTracks || []).map(track => ({
+      ...track,
+      file_id: fileId,
+      is_default: track.is_default ? 1 : 0,
+      is_forced: track.is_forced ? 1 : 0,
+    }));
+    const subtitleTracks = (fileData.subtitleTracks || []).map(track => ({
+      ...track,
+      file_id: fileId,
+      is_default: track.is_default ? 1 : 0,
+      is_forced: track.is_forced ? 1 : 0,
+      is_hearing_impaired: track.is_hearing_impaired ? 1 : 0,
+    }));
+    if (audioTracks.length > 0) {
+      await manager.getRepository(AudioTrackEntity).insert(audioTracks);
+    }
+    if (subtitleTracks.length > 0) {
+      await manager.getRepository(SubtitleTrackEntity).insert(subtitleTracks);
+    }
+  }
+
+  /**
+   * Delete the audio and subtitle tracks of files in chunks (within the caller's transaction)
+   */
+  private async deleteFileTracks(manager: EntityManager, fileIds: number[]): Promise<void> {
+    for (let i = 0; i < fileIds.length; i += DELETE_CHUNK_SIZE) {
+      const chunk = fileIds.slice(i, i + DELETE_CHUNK_SIZE);
+      await manager.getRepository(AudioTrackEntity).delete({ file_id: In(chunk) });
+      await manager.getRepository(SubtitleTrackEntity).delete({ file_id: In(chunk) });
+    }
+  }
+
+  /**
+   * Delete everything stored for files besides the file rows: tracks and sidecar subtitles
+   * (within the caller's transaction, when files are deleted for good)
+   */
+  private async deleteFileRelations(manager: EntityManager, fileIds: number[]): Promise<void> {
+    await this.deleteFileTracks(manager, fileIds);
+    for (let i = 0; i < fileIds.length; i += DELETE_CHUNK_SIZE) {
+      await manager.getRepository(SidecarSubtitleEntity).delete({ file_id: In(fileIds.slice(i, i + DELETE_CHUNK_SIZE)) });
+    }
+  }
+
   async getAllFiles(): Promise<FileRecord[]> {
     await this.ensureInitialized();
     
-    const entities = await this.fileRepository.find({ order: { name: 'ASC' } });
+    const entities = await this.fileRepository.find({
+      where: { match_status: 'matched' },
+      order: { name: 'ASC' },
+    });
+    return entities.map(e => this.entityToFileRecord(e));
+  }
+
+  async getUnmatchedFiles(): Promise<FileRecord[]> {
+    await this.ensureInitialized();
+    
+    const entities = await this.fileRepository.find({
+      where: { match_status: 'unmatched' },
+      order: { name: 'ASC' },
+    });
     return entities.map(e => this.entityToFileRecord(e));
   }
 
@@ -256,7 +380,8 @@ class DatabaseService implements IDatabaseService {
     
     const entities = await this.fileRepository
       .createQueryBuilder('file')
-      .where('file.name LIKE :pattern OR file.parsedName LIKE :pattern', { pattern })
+      .where('(file.name LIKE :pattern OR file.parsedName LIKE :pattern)', { pattern })
+      .andWhere('file.match_status = :status', { status: 'matched' })
       .orderBy('file.name', 'ASC')
       .getMany();
     return entities.map(e => this.entityToFileRecord(e));
@@ -274,57 +399,542 @@ class DatabaseService implements IDatabaseService {
     const entities = await this.fileRepository
       .createQueryBuilder('file')
       .where('file.name LIKE :pattern', { pattern })
+      .andWhere('file.match_status = :status', { status: 'matched' })
       .orderBy('file.name', 'ASC')
       .getMany();
     return entities.map(e => this.entityToFileRecord(e));
   }
 
+  async getFilesByFilter(filter: FileFilter): Promise<FileRecord[]> {
+    await this.ensureInitialized();
+    
+    const query = this.fileRepository.createQueryBuilder('file');
+    if (filter.watch_folder_id !== undefined) {
+      query.andWhere('file.watch_folder_id = :watchFolderId', { watchFolderId: filter.watch_folder_id });
+    }
+    if (filter.imdb_id !== undefined) {
+      query.andWhere('file.imdb_id = :imdbId', { imdbId: filter.imdb_id });
+    }
+    if (filter.similarity_below !== undefined) {
+      query.andWhere('file.similarity < :similarity', { similarity: filter.similarity_below });
+    }
+    const entities = await query.orderBy('file.path', 'ASC').getMany();
+
+    // Prefix filtered in memory (no LIKE escaping differences between drivers);
+    // matches the file itself or everything below a directory
+    let files = entities.map(e => this.entityToFileRecord(e));
+    if (filter.path_prefix) {
+      const prefix = filter.path_prefix.replace(/[\\/]+$/, '');
+      const dirPrefix = prefix + path.sep;
+      files = files.filter(file => file.path === prefix || file.path.startsWith(dirPrefix));
+    }
+    return files;
+  }
+
   async removeFile(filePath: string): Promise<boolean> {
     await this.ensureInitialized();
     
-    const result = await this.fileRepository.delete({ path: filePath });
-    return (result.affected || 0) > 0;
+    return await this.changeFeedTransaction(async (manager) => {
+      const fileRepository = manager.getRepository(FileEntity);
+      const existing = await fileRepository.findOne({ select: ['id'], where: { path: filePath } });
+      if (!existing) {
+        return false;
+      }
+      return (await this.trashFilesByIds(fileRepository, [existing.id])) > 0;
+    });
+  }
+
+  async getFilePaths(watchFolderId: number): Promise<string[]> {
+    await this.ensureInitialized();
+    
+    const entities = await this.fileRepository.find({
+      select: ['path'],
+      where: { watch_folder_id: watchFolderId },
+    });
+    return entities.map(e => e.path);
   }
 
   async removeFilesNotInList(paths: string[], watchFolderId?: number): Promise<number> {
     await this.ensureInitialized();
     
-    return await this.dataSource.transaction(async (manager) => {
+    return await this.changeFeedTransaction(async (manager) => {
       const fileRepository = manager.getRepository(FileEntity);
       
-      if (paths.length === 0) {
-        if (watchFolderId !== undefined) {
-          const result = await fileRepository.delete({ watch_folder_id: watchFolderId });
-          return result.affected || 0;
-        } else {
-          const result = await fileRepository.delete({});
-          return result.affected || 0;
+      // Diff in memory instead of `path NOT IN (...)`: large libraries exceed the
+      // bound parameter limit of the drivers (SQLite: 32766, PostgreSQL: 65535)
+      const keep = new Set(paths);
+      const existing = await fileRepository.find({
+        select: ['id', 'path'],
+        where: watchFolderId !== undefined ? { watch_folder_id: watchFolderId } : {},
+      });
+      const idsToRemove = existing.filter(file => !keep.has(file.path)).map(file => file.id);
+
+      return await this.trashFilesByIds(fileRepository, idsToRemove);
+    });
+  }
+
+  async removeFilesUnderPath(relativePath: string, watchFolderId: number): Promise<number> {
+    await this.ensureInitialized();
+    
+    return await this.changeFeedTransaction(async (manager) => {
+      const fileRepository = manager.getRepository(FileEntity);
+
+      // Matches the file itself or, for a removed directory, everything below it
+      const dirPrefix = relativePath.endsWith(path.sep) ? relativePath : relativePath + path.sep;
+      const existing = await fileRepository.find({
+        select: ['id', 'path'],
+        where: { watch_folder_id: watchFolderId },
+      });
+      const idsToRemove = existing
+        .filter(file => file.path === relativePath || file.path.startsWith(dirPrefix))
+        .map(file => file.id);
+
+      return await this.trashFilesByIds(fileRepository, idsToRemove);
+    });
+  }
+
+  async moveFiles(moves: FileMove[]): Promise<number> {
+    await this.ensureInitialized();
+    
+    return await this.changeFeedTransaction(async (manager) => {
+      const fileRepository = manager.getRepository(FileEntity);
+      const movedIds: number[] = [];
+
+      for (const move of moves) {
+        // A trashed file at the target path is superseded by the moved one (paths are unique)
+        const superseded = await fileRepository.findOne({ where: { path: move.path, deletedAt: Not(IsNull()) }, withDeleted: true });
+        if (superseded) {
+          await fileRepository.delete({ id: superseded.id });
+          await this.deleteFileRelations(manager, [superseded.id]);
+        }
+        const result = await fileRepository.update({ id: move.id }, { path: move.path, name: move.name });
+        if (result.affected) {
+          movedIds.push(move.id);
         }
       }
 
-      if (watchFolderId !== undefined) {
-        const result = await fileRepository
-          .createQueryBuilder()
-          .delete()
-          .where('watch_folder_id = :watchFolderId', { watchFolderId })
-          .andWhere('path NOT IN (:...paths)', { paths })
-          .execute();
-        return result.affected || 0;
-      } else {
-        const result = await fileRepository
-          .createQueryBuilder()
-          .delete()
-          .where('path NOT IN (:...paths)', { paths })
-          .execute();
-        return result.affected || 0;
+      await this.recordFileChanges(manager, movedIds, 'updated');
+      return movedIds.length;
+    });
+  }
+
+  async setFileHashes(hashes: FileHashes[]): Promise<void> {
+    await this.ensureInitialized();
+    
+    // Not a change clients see: no change feed entries
+    await this.dataSource.transaction(async (manager) => {
+      const fileRepository = manager.getRepository(FileEntity);
+      for (const { id, ...fileHashes } of hashes) {
+        await fileRepository.update({ id }, fileHashes);
+      }
+    });
+  }
+
+  async getDuplicateFingerprintFiles(): Promise<FileRecord[]> {
+    await this.ensureInitialized();
+    
+    const shared = this.fileRepository
+      .createQueryBuilder('dup')
+      .select('dup.fingerprint')
+      .where('dup.fingerprint IS NOT NULL')
+      .groupBy('dup.fingerprint')
+      .having('COUNT(*) > 1');
+    const entities = await this.fileRepository
+      .createQueryBuilder('file')
+      .where(`file.fingerprint IN (${shared.getQuery()})`)
+      .orderBy('file.fingerprint', 'ASC')
+      .addOrderBy('file.path', 'ASC')
+      .getMany();
+    return entities.map(e => this.entityToFileRecord(e));
+  }
+
+  async getFileTracks(fileId: number): Promise<FileTracks | null> {
+    await this.ensureInitialized();
+    
+    const file = await this.fileRepository.findOne({ where: { id: fileId } });
+    if (!file) {
+      return null;
+    }
+
+    const [audioTracks, subtitleTracks] = await Promise.all([
+      this.dataSource.getRepository(AudioTrackEntity).find({ where: { file_id: fileId }, order: { stream_index: 'ASC' } }),
+      this.dataSource.getRepository(SubtitleTrackEntity).find({ where: { file_id: fileId }, order: { stream_index: 'ASC' } }),
+    ]);
+
+    return {
+      fileId,
+      probed: file.probedAt !== null && file.probedAt !== undefined,
+      probedAt: file.probedAt?.toISOString() ?? null,
+      audio: audioTracks.map(({ id, file_id, ...track }) => ({
+        ...track,
+        bitrate: track.bitrate !== null && track.bitrate !== undefined ? Number(track.bitrate) : null,
+        is_default: track.is_default === 1,
+        is_forced: track.is_forced === 1,
+      })),
+      subtitles: subtitleTracks.map(({ id, file_id, ...track }) => ({
+        ...track,
+        is_default: track.is_default === 1,
+        is_forced: track.is_forced === 1,
+        is_hearing_impaired: track.is_hearing_impaired === 1,
+      })),
+    };
+  }
+
+  async getFileIdsByTrackLanguage(trackType: TrackType, languages: string[]): Promise<number[]> {
+    await this.ensureInitialized();
+    
+    const entity = trackType === 'audio' ? AudioTrackEntity : SubtitleTrackEntity;
+    const rows = await this.dataSource.getRepository<AudioTrackEntity | SubtitleTrackEntity>(entity)
+      .createQueryBuilder('track')
+      .select('DISTINCT track.file_id', 'file_id')
+      .where('track.language IN (:...languages)', { languages })
+      .getRawMany();
+    return rows.map(row => Number(row.file_id));
+  }
+
+  async syncSidecarSubtitles(watchFolderId: number, files: FileSidecars[]): Promise<number> {
+    await this.ensureInitialized();
+    
+    if (files.length === 0) {
+      return 0;
+    }
+
+    return await this.dataSource.transaction(async (manager) => {
+      const fileRepository = manager.getRepository(FileEntity);
+      const sidecarRepository = manager.getRepository(SidecarSubtitleEntity);
+      const signature = (sidecars: Array<{ path: string; size: number; mtime: number }>) => sidecars
+        .map(sidecar => `${sidecar.path}:${Number(sidecar.size)}:${Number(sidecar.mtime)}`)
+        .sort()
+        .join('|');
+
+      const stored = await fileRepository.find({ select: ['id', 'path', 'name'], where: { watch_folder_id: watchFolderId } });
+      const fileIds = new Map(stored.map(file => [file.path, file.id]));
+      const videosByDir = new Map<string, FileEntity[]>();
+      stored.forEach(file => videosByDir.set(path.dirname(file.path), [...(videosByDir.get(path.dirname(file.path)) || []), file]));
+      const existing = new Map<number, SidecarSubtitleEntity[]>();
+      for (let i = 0; i < stored.length; i += DELETE_CHUNK_SIZE) {
+        const rows = await sidecarRepository.find({ where: { file_id: In(stored.slice(i, i + DELETE_CHUNK_SIZE).map(file => file.id)) } });
+        rows.forEach(row => existing.set(row.file_id, [...(existing.get(row.file_id) || []), row]));
+      }
+
+      let changed = 0;
+      for (const file of files) {
+        const fileId = fileIds.get(file.path);
+        const subtitles = file.subtitles.filter(sidecar => this.sidecarOwner(videosByDir, sidecar)?.path === file.path);
+        if (fileId === undefined || signature(existing.get(fileId) || []) === signature(subtitles)) {
+          continue;
+        }
+
+        await sidecarRepository.delete({ file_id: fileId });
+        if (subtitles.length > 0) {
+          await sidecarRepository.insert(subtitles.map(({ id, ...sidecar }) => ({
+            ...sidecar,
+            file_id: fileId,
+            is_forced: sidecar.is_forced ? 1 : 0,
+            is_hearing_impaired: sidecar.is_hearing_impaired ? 1 : 0,
+          })));
+        }
+        changed++;
       }
+      return changed;
+    });
+  }
+
+  async getSidecarSubtitles(fileId: number): Promise<SidecarSubtitle[] | null> {
+    await this.ensureInitialized();
+    
+    const file = await this.fileRepository.findOne({ where: { id: fileId } });
+    if (!file) {
+      return null;
+    }
+
+    const entities = await this.dataSource.getRepository(SidecarSubtitleEntity).find({
+      where: { file_id: fileId },
+      order: { name: 'ASC' },
+    });
+    return entities.map(e => this.entityToSidecarSubtitle(e));
+  }
+
+  async getSidecarSubtitleById(subtitleId: number): Promise<SidecarSubtitle | null> {
+    await this.ensureInitialized();
+    
+    const entity = await this.dataSource.getRepository(SidecarSubtitleEntity).findOne({ where: { id: subtitleId } });
+    return entity ? this.entityToSidecarSubtitle(entity) : null;
+  }
+
+  /**
+   * Find the video a sidecar subtitle belongs to: of the videos in its directory it is named after,
+   * the one with the longest name (Movie.en.srt goes to Movie.en.mkv rather than Movie.mkv)
+   */
+  private sidecarOwner(videosByDir: Map<string, FileEntity[]>, sidecar: SidecarSubtitle): FileEntity | undefined {
+    let owner: FileEntity | undefined;
+    for (const video of videosByDir.get(path.dirname(sidecar.path)) || []) {
+      if (parseSidecarName(video.name, sidecar.name) && (!owner || path.parse(video.name).name.length > path.parse(owner.name).name.length)) {
+        owner = video;
+      }
+    }
+    return owner;
+  }
+
+  /**
+   * Convert SidecarSubtitleEntity to SidecarSubtitle
+   */
+  private entityToSidecarSubtitle(entity: SidecarSubtitleEntity): SidecarSubtitle {
+    return {
+      id: entity.id,
+      file_id: entity.file_id,
+      name: entity.name,
+      path: entity.path,
+      size: Number(entity.size),
+      mtime: Number(entity.mtime),
+      format: entity.format,
+      language: entity.language ?? null,
+      is_forced: entity.is_forced === 1,
+      is_hearing_impaired: entity.is_hearing_impaired === 1,
+    };
+  }
+
+  /**
+   * Move files to the trash (soft delete) by ID in chunks and record tombstones in the change feed
+   */
+  private async trashFilesByIds(fileRepository: Repository<FileEntity>, ids: number[]): Promise<number> {
+    let removed = 0;
+    for (let i = 0; i < ids.length; i += DELETE_CHUNK_SIZE) {
+      const result = await fileRepository.softDelete({ id: In(ids.slice(i, i + DELETE_CHUNK_SIZE)) });
+      removed += result.affected || 0;
+    }
+    await this.recordFileChanges(fileRepository.manager, ids, 'removed');
+    return removed;
+  }
+
+  /**
+   * Delete files by ID in chunks and record tombstones in the change feed
+   */
+  private async deleteFilesByIds(fileRepository: Repository<FileEntity>, ids: number[]): Promise<number> {
+    let removed = 0;
+    for (let i = 0; i < ids.length; i += DELETE_CHUNK_SIZE) {
+      const result = await fileRepository.delete({ id: In(ids.slice(i, i + DELETE_CHUNK_SIZE)) });
+      removed += result.affected || 0;
+    }
+    await this.deleteFileRelations(fileRepository.manager, ids);
+    await this.recordFileChanges(fileRepository.manager, ids, 'removed');
+    return removed;
+  }
+
+  /**
+   * Run a transaction that writes the change feed
+   * The lock row is taken first, so these transactions commit one at a time and change
+   * IDs become visible in order: a client cursor never skips a change committed later
+   * under a lower ID. SQLite already allows a single writer at a time.
+   */
+  private async changeFeedTransaction<T>(run: (manager: EntityManager) => Promise<T>): Promise<T> {
+    return await this.dataSource.transaction(async (manager) => {
+      if (getTypeOrmDatabaseType() !== 'sqlite') {
+        await manager.getRepository(ChangeFeedLockEntity)
+          .createQueryBuilder('lock')
+          .setLock('pessimistic_write')
+          .where('lock.id = :id', { id: 1 })
+          .getOne();
+      }
+      return await run(manager);
+    });
+  }
+
+  /**
+   * Append file changes to the change feed (within a changeFeedTransaction)
+   */
+  private async recordFileChanges(manager: EntityManager, fileIds: number[], changeType: FileChangeType): Promise<void> {
+    const fileChangeRepository = manager.getRepository(FileChangeEntity);
+    for (let i = 0; i < fileIds.length; i += CHANGE_INSERT_CHUNK_SIZE) {
+      const rows = fileIds
+        .slice(i, i + CHANGE_INSERT_CHUNK_SIZE)
+        .map(fileId => ({ file_id: fileId, change_type: changeType }));
+      await fileChangeRepository.insert(rows);
+    }
+  }
+
+  async setFileMatch(fileId: number, match: FileMatchDTO): Promise<FileRecord | null> {
+    await this.ensureInitialized();
+    
+    return await this.changeFeedTransaction(async (manager) => {
+      const fileRepository = manager.getRepository(FileEntity);
+      const entity = await fileRepository.findOne({ where: { id: fileId } });
+      if (!entity) {
+        return null;
+      }
+
+      // Metadata of the previous (automatic) match no longer applies to a different title
+      if (entity.imdb_id !== match.imdb_id) {
+        entity.yearRange = null;
+        entity.image = null;
+        entity.starring = null;
+      }
+
+      entity.imdb_id = match.imdb_id;
+      entity.type = match.type;
+      entity.season = match.season ?? null;
+      entity.episode = match.episode ?? null;
+      entity.imdbName = match.imdbName ?? null;
+      entity.imdbYear = match.imdbYear ?? null;
+      entity.imdbType = match.type;
+      entity.similarity = null;
+      entity.match_status = 'matched';
+      entity.match_locked = 1;
+
+      const saved = await fileRepository.save(entity);
+      await this.recordFileChanges(manager, [saved.id], 'updated');
+      return this.entityToFileRecord(saved);
+    });
+  }
+
+  async unlockFileMatch(fileId: number): Promise<FileRecord | null> {
+    await this.ensureInitialized();
+    
+    return await this.changeFeedTransaction(async (manager) => {
+      const fileRepository = manager.getRepository(FileEntity);
+      const entity = await fileRepository.findOne({ where: { id: fileId } });
+      if (!entity) {
+        return null;
+      }
+
+      // Reset mtime so the next scan treats the file as changed and matches it again
+      entity.match_locked = 0;
+      entity.mtime = 0;
+
+      const saved = await fileRepository.save(entity);
+      await this.recordFileChanges(manager, [saved.id], 'updated');
+      return this.entityToFileRecord(saved);
     });
   }
 
   async clearFiles(): Promise<any> {
     await this.ensureInitialized();
     
-    return await this.fileRepository.delete({});
+    return await this.changeFeedTransaction(async (manager) => {
+      const fileRepository = manager.getRepository(FileEntity);
+      const existing = await fileRepository.find({ select: ['id'] });
+      const removed = await this.deleteFilesByIds(fileRepository, existing.map(file => file.id));
+
+      // Empty the trash too (tombstones were recorded when those files were trashed)
+      const trashed = await fileRepository.find({ select: ['id'], where: { deletedAt: Not(IsNull()) }, withDeleted: true });
+      await fileRepository.delete({ deletedAt: Not(IsNull()) });
+      await this.deleteFileRelations(manager, trashed.map(file => file.id));
+      return removed;
+    });
+  }
+
+  // Trash operations
+
+  async getDeletedFiles(): Promise<FileRecord[]> {
+    await this.ensureInitialized();
+    
+    const entities = await this.fileRepository.find({
+      where: { deletedAt: Not(IsNull()) },
+      withDeleted: true,
+      order: { deletedAt: 'DESC' },
+    });
+    return entities.map(e => this.entityToFileRecord(e));
+  }
+
+  async findDeletedFile(filePath: string, name: string, size: number, excludeIds: number[] = []): Promise<FileRecord | null> {
+    await this.ensureInitialized();
+    
+    const exclude = new Set(excludeIds);
+
+    // Same path first, then the same file (name and size) moved to another path
+    const samePath = await this.fileRepository.findOne({
+      where: { path: filePath, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    });
+    if (samePath && !exclude.has(samePath.id)) {
+      return this.entityToFileRecord(samePath);
+    }
+
+    const sameFile = await this.fileRepository.find({
+      where: { name, size, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+      order: { deletedAt: 'DESC' },
+    });
+    const candidate = sameFile.find(entity => !exclude.has(entity.id));
+    return candidate ? this.entityToFileRecord(candidate) : null;
+  }
+
+  async purgeDeletedFiles(olderThan: Date): Promise<number> {
+    await this.ensureInitialized();
+    
+    return await this.dataSource.transaction(async (manager) => {
+      const fileRepository = manager.getRepository(FileEntity);
+      const expired = await fileRepository.find({ select: ['id'], where: { deletedAt: LessThan(olderThan) }, withDeleted: true });
+
+      // Tombstones were recorded when the files were trashed
+      const result = await fileRepository.delete({ deletedAt: LessThan(olderThan) });
+      await this.deleteFileRelations(manager, expired.map(file => file.id));
+      return result.affected || 0;
+    });
+  }
+
+  // Change feed operations
+
+  async getFileChanges(since: number | null, limit: number): Promise<FileChangeFeed> {
+    await this.ensureInitialized();
+    
+    const bounds = await this.fileChangeRepository
+      .createQueryBuilder('change')
+      .select('MIN(change.id)', 'min')
+      .addSelect('MAX(change.id)', 'max')
+      .getRawOne();
+    const oldest = bounds?.min !== null && bounds?.min !== undefined ? parseInt(bounds.min, 10) : null;
+    const head = bounds?.max !== null && bounds?.max !== undefined ? parseInt(bounds.max, 10) : 0;
+
+    // No cursor, a cursor from before pruned changes, or one ahead of the feed
+    // (e.g. database replaced): the client has to reload the full file list
+    const pruned = oldest !== null && since !== null && since < oldest - 1;
+    if (since === null || pruned || since > head) {
+      return { cursor: head, added: [], updated: [], removed: [], hasMore: false, reset: true };
+    }
+
+    const rows = await this.fileChangeRepository.find({
+      where: { id: MoreThan(since) },
+      order: { id: 'ASC' },
+      take: limit + 1,
+    });
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+
+    // Collapse to the net change per file within the page
+    const netChanges = new Map<number, FileChangeType>();
+    for (const row of page) {
+      const previous = netChanges.get(row.file_id);
+      const changeType = row.change_type as FileChangeType;
+      netChanges.set(row.file_id, previous === 'added' && changeType === 'updated' ? 'added' : changeType);
+    }
+
+    const feed: FileChangeFeed = {
+      cursor: page.length > 0 ? page[page.length - 1].id : since,
+      added: [],
+      updated: [],
+      removed: [],
+      hasMore,
+      reset: false,
+    };
+    netChanges.forEach((changeType, fileId) => feed[changeType].push(fileId));
+    return feed;
+  }
+
+  async pruneFileChanges(olderThan: Date): Promise<number> {
+    await this.ensureInitialized();
+    
+    // The newest change is always kept so the feed head (and cursors) never go backwards
+    const newest = await this.fileChangeRepository.find({ select: ['id'], order: { id: 'DESC' }, take: 1 });
+    if (newest.length === 0) {
+      return 0;
+    }
+
+    const result = await this.fileChangeRepository.delete({
+      changedAt: LessThan(olderThan),
+      id: LessThan(newest[0].id),
+    });
+    return result.affected || 0;
   }
 
   // Scan operations
@@ -335,6 +945,7 @@ class DatabaseService implements IDatabaseService {
     errors?: number;
     processedCount?: number;
     skippedCount?: number;
+    status?: ScanStatus;
     watchFolderId?: number;
   }): Promise<any> {
     await this.ensureInitialized();
@@ -347,6 +958,7 @@ class DatabaseService implements IDatabaseService {
         errors: stats.errors || 0,
         processedCount: stats.processedCount || 0,
         skippedCount: stats.skippedCount || 0,
+        status: stats.status || (stats.errors ? 'failed' : 'completed'),
         watch_folder_id: stats.watchFolderId || null,
       });
       const saved = await scanRepository.save(scan);
@@ -369,6 +981,7 @@ class DatabaseService implements IDatabaseService {
       errors: e.errors,
       processedCount: e.processedCount,
       skippedCount: e.skippedCount,
+      status: e.status as ScanStatus,
       watch_folder_id: e.watch_folder_id ?? undefined,
     }));
   }
@@ -379,6 +992,7 @@ class DatabaseService implements IDatabaseService {
     await this.ensureInitialized();
     
     const totalFiles = await this.fileRepository.count();
+    const unmatchedFiles = await this.fileRepository.count({ where: { match_status: 'unmatched' } });
     
     const uniqueImdbResult = await this.fileRepository
       .createQueryBuilder('file')
@@ -406,8 +1020,21 @@ class DatabaseService implements IDatabaseService {
     });
     const lastScanEntity = lastScanEntities.length > 0 ? lastScanEntities[0] : null;
 
+    const unavailableEntities = await this.watchFolderRepository.find({
+      where: { unavailable_reason: Not(IsNull()) },
+      order: { id: 'ASC' },
+    });
+    const unavailableWatchFolders: UnavailableWatchFolder[] = unavailableEntities.map(e => ({
+      id: e.id,
+      name: e.name ?? null,
+      path: e.path,
+      reason: e.unavailable_reason!,
+      since: (e.unavailable_since ?? e.updated_at).toISOString(),
+    }));
+
     return {
       totalFiles,
+      unmatchedFiles,
       uniqueImdb,
       totalSize,
       byType: typeStats.reduce((acc, row) => {
@@ -422,8 +1049,10 @@ class DatabaseService implements IDatabaseService {
         errors: lastScanEntity.errors,
         processedCount: lastScanEntity.processedCount,
         skippedCount: lastScanEntity.skippedCount,
+        status: lastScanEntity.status as ScanStatus,
         watch_folder_id: lastScanEntity.watch_folder_id ?? undefined,
       } : null,
+      unavailableWatchFolders,
     };
   }
 
@@ -486,11 +1115,14 @@ class DatabaseService implements IDatabaseService {
         scan_interval: data.scan_interval || '*/5 * * * *',
         allowed_extensions: data.allowed_extensions || ['.mp4', '.mkv', '.avi'],
         min_video_size_mb: data.min_video_size_mb || 50,
+        stability_window_seconds: data.stability_window_seconds || 0,
         temporary_extensions: data.temporary_extensions || ['.part', '.tmp', '.download', '.crdownload', '.!qB', '.filepart'],
         type: data.type || 'local',
+        live_watch: data.live_watch ? 1 : 0,
         username: data.username || null,
         password_encrypted: passwordEncrypted,
         domain: data.domain || null,
+        max_removal_percent: data.max_removal_percent ?? 50,
       });
 
       const saved = await watchFolderRepository.save(entity);
@@ -515,10 +1147,13 @@ class DatabaseService implements IDatabaseService {
       if (data.scan_interval !== undefined) existing.scan_interval = data.scan_interval;
       if (data.allowed_extensions !== undefined) existing.allowed_extensions = data.allowed_extensions;
       if (data.min_video_size_mb !== undefined) existing.min_video_size_mb = data.min_video_size_mb;
+      if (data.stability_window_seconds !== undefined) existing.stability_window_seconds = data.stability_window_seconds;
       if (data.temporary_extensions !== undefined) existing.temporary_extensions = data.temporary_extensions;
       if (data.type !== undefined) existing.type = data.type;
+      if (data.live_watch !== undefined) existing.live_watch = data.live_watch ? 1 : 0;
       if (data.username !== undefined) existing.username = data.username || null;
       if (data.domain !== undefined) existing.domain = data.domain || null;
+      if (data.max_removal_percent !== undefined) existing.max_removal_percent = data.max_removal_percent;
 
       if (data.password !== undefined) {
         if (data.password) {
@@ -545,6 +1180,20 @@ class DatabaseService implements IDatabaseService {
     return (result.affected || 0) > 0;
   }
 
+  async setWatchFolderUnavailable(id: number, reason: string | null): Promise<void> {
+    await this.ensureInitialized();
+    
+    const existing = await this.watchFolderRepository.findOne({ where: { id } });
+    if (!existing) {
+      return;
+    }
+
+    existing.unavailable_reason = reason;
+    // Keep the time it first became unavailable while the reason changes
+    existing.unavailable_since = reason ? existing.unavailable_since ?? new Date() : null;
+    await this.watchFolderRepository.save(existing);
+  }
+
   async getDecryptedPassword(watchFolderId: number): Promise<string | null> {
     await this.ensureInitialized();
     
@@ -577,11 +1226,16 @@ class DatabaseService implements IDatabaseService {
       scan_interval: entity.scan_interval,
       allowed_extensions: entity.allowed_extensions,
       min_video_size_mb: entity.min_video_size_mb,
+      stability_window_seconds: entity.stability_window_seconds,
       temporary_extensions: entity.temporary_extensions,
       type: entity.type as 'local' | 'network' | 's3',
+      live_watch: entity.live_watch === 1,
       username: entity.username ?? undefined,
       password_encrypted: undefined, // Never return encrypted password
       domain: entity.domain ?? undefined,
+      max_removal_percent: entity.max_removal_percent,
+      unavailable_reason: entity.unavailable_reason ?? null,
+      unavailable_since: entity.unavailable_since ? entity.unavailable_since.toISOString() : null,
       created_at: entity.created_at.toISOString(),
       updated_at: entity.updated_at.toISOString(),
     };
@@ -650,6 +1304,29 @@ class DatabaseService implements IDatabaseService {
     return (result.affected || 0) > 0;
   }
 
+  // Schema operations
+
+  async getSchemaStatus(): Promise<SchemaStatus> {
+    await this.ensureInitialized();
+    
+    const executor = new MigrationExecutor(this.dataSource);
+    const executed = await executor.getExecutedMigrations();
+    const pending = await executor.getPendingMigrations();
+    const applied = executed
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(m => ({ name: m.name, timestamp: m.timestamp }));
+    const current = applied.length > 0 ? applied[applied.length - 1] : null;
+
+    return {
+      databaseType: getTypeOrmDatabaseType(),
+      version: current ? current.timestamp : null,
+      currentMigration: current ? current.name : null,
+      applied,
+      pending: pending.map(m => m.name),
+      upToDate: pending.length === 0,
+    };
+  }
+
   // Connection management
 
   async close(): Promise<void> {
@@ -0,0 +1,9 @@
+import config from '../../config';
+
+/**
+ * Column type for timestamp columns on the configured database
+ * SQLite has no `timestamp` type, TypeORM stores dates as `datetime` there
+ */
+export const timestampColumnType = (config.database.type || '').toLowerCase() === 'sqlite'
+  ? 'datetime'
+  : 'timestamp';
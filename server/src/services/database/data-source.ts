@@ -0,0 +1,74 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { DataSource } from 'typeorm';
+import logger from '../../config/logger';
+import config from '../../config';
+import { FileEntity } from './entities/file.entity';
+import { ScanEntity } from './entities/scan.entity';
+import { WatchFolderEntity } from './entities/watch-folder.entity';
+import { ServerSettingEntity } from './entities/server-setting.entity';
+import { FileChangeEntity } from './entities/file-change.entity';
+import { AudioTrackEntity } from './entities/audio-track.entity';
+import { SubtitleTrackEntity } from './entities/subtitle-track.entity';
+import { SidecarSubtitleEntity } from './entities/sidecar-subtitle.entity';
+import { ChangeFeedLockEntity } from './entities/change-feed-lock.entity';
+import { migrations } from './migrations';
+
+export type TypeOrmDatabaseType = 'sqlite' | 'postgres' | 'mysql' | 'mariadb';
+
+/**
+ * Map configured database type to TypeORM driver type
+ */
+export function getTypeOrmDatabaseType(): TypeOrmDatabaseType {
+  const dbType = (config.database.type || 'postgresql').toLowerCase();
+
+  switch (dbType) {
+    case 'sqlite':
+      return 'sqlite';
+    case 'postgresql':
+      return 'postgres';
+    case 'mysql':
+      return 'mysql';
+    case 'mariadb':
+      return 'mariadb';
+    default:
+      logger.warn('Unknown database type, defaulting to PostgreSQL', { type: dbType });
+      return 'postgres';
+  }
+}
+
+/**
+ * Create TypeORM DataSource based on configuration
+ * Shared by the database service and the migration CLI
+ * Schema is managed by versioned migrations, never by synchronize
+ */
+export function createDataSource(): DataSource {
+  const typeormType = getTypeOrmDatabaseType();
+
+  // Prepare database connection options
+  const dataSourceOptions: any = {
+    type: typeormType,
+    entities: [FileEntity, ScanEntity, WatchFolderEntity, ServerSettingEntity, FileChangeEntity, AudioTrackEntity, SubtitleTrackEntity, SidecarSubtitleEntity, ChangeFeedLockEntity],
+    migrations,
+    migrationsTableName: 'migrations',
+    synchronize: false,
+    logging: config.logLevel === 'debug' ? ['query', 'error'] : ['error'],
+  };
+
+  if (typeormType === 'sqlite') {
+    // Configure SQLite file database (self-contained, no server needed)
+    const dbPath = config.database.path || './storage/media.db';
+    mkdirSync(path.dirname(dbPath), { recursive: true });
+    dataSourceOptions.database = dbPath;
+    dataSourceOptions.enableWAL = true; // Readers (streaming, listing) don't block scan writes
+  } else {
+    // Configure PostgreSQL, MySQL, or MariaDB connection
+    dataSourceOptions.host = config.database.host || 'localhost';
+    dataSourceOptions.port = config.database.port || (typeormType === 'postgres' ? 5432 : 3306);
+    dataSourceOptions.username = config.database.username || 'postgres';
+    dataSourceOptions.password = config.database.password;
+    dataSourceOptions.database = config.database.database || 'stremio_nas';
+  }
+
+  return new DataSource(dataSourceOptions);
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index
+} from 'typeorm';
+
+/**
+ * Audio track entity mapping to audio_tracks table
+ * One row per audio stream found by the media probe (ffprobe)
+ */
+@Entity('audio_tracks')
+export class AudioTrackEntity {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'integer' })
+  @Index('idx_audio_tracks_file_id')
+  file_id!: number;
+
+  @Column({ type: 'integer' })
+  stream_index!: number; // Stream index in the container (ffprobe/ffmpeg numbering)
+
+  @Column({ type: 'text' })
+  codec!: string;
+
+  @Column({ type: 'text', nullable: true })
+  profile?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  @Index('idx_audio_tracks_language')
+  language?: string | null; // ISO 639-2 code as tagged in the container
+
+  @Column({ type: 'text', nullable: true })
+  title?: string | null;
+
+  @Column({ type: 'integer', nullable: true })
+  channels?: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  channel_layout?: string | null;
+
+  @Column({ type: 'integer', nullable: true })
+  sample_rate?: number | null;
+
+  @Column({ type: 'bigint', nullable: true })
+  bitrate?: number | null;
+
+  @Column({ type: 'integer', default: 0 })
+  is_default!: number;
+
+  @Column({ type: 'integer', default: 0 })
+  is_forced!: number;
+}
@@ -0,0 +1,15 @@
+import {
+  Entity,
+  PrimaryColumn
+} from 'typeorm';
+
+/**
+ * Change feed lock entity mapping to change_feed_lock table (a single row, ID 1)
+ * Transactions that write the change feed lock this row first, so change IDs
+ * are committed in the order they were assigned
+ */
+@Entity('change_feed_lock')
+export class ChangeFeedLockEntity {
+  @PrimaryColumn({ type: 'integer' })
+  id!: number;
+}
@@ -0,0 +1,29 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index
+} from 'typeorm';
+import { timestampColumnType } from '../column-types';
+
+/**
+ * File change entity mapping to file_changes table
+ * The auto-increment ID is the change sequence used as change feed cursor
+ */
+@Entity('file_changes')
+export class FileChangeEntity {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'integer' })
+  @Index('idx_file_changes_file_id')
+  file_id!: number;
+
+  @Column({ type: 'text' })
+  change_type!: string; // 'added', 'updated' or 'removed' (tombstone)
+
+  @CreateDateColumn({ type: timestampColumnType })
+  @Index('idx_file_changes_changedAt')
+  changedAt!: Date;
+}
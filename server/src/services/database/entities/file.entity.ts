@@ -4,8 +4,10 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
   Index
 } from 'typeorm';
+import { timestampColumnType } from '../column-types';
 
 /**
  * JSON transformer for complex fields
@@ -120,10 +122,53 @@ export class FileEntity {
   @Column({ type: 'integer', nullable: true })
   watch_folder_id?: number | null;
 
-  @CreateDateColumn({ type: 'timestamp' })
+  @Column({ type: 'text', default: 'matched' })
+  @Index('idx_files_match_status')
+  match_status!: string; // 'matched' or 'unmatched' (no IMDB ID found)
+
+  @Column({ type: 'integer', default: 0 })
+  match_locked!: number; // 1 if the match was pinned manually (scans never overwrite it)
+
+  @Column({ type: 'text', nullable: true })
+  partial_hash?: string | null; // Hash of size, head and tail (move detection, see MOVE_DETECTION_HASH)
+
+  @Column({ type: 'text', nullable: true })
+  @Index('idx_files_fingerprint')
+  fingerprint?: string | null; // OpenSubtitles hash (duplicate detection, see FILE_FINGERPRINT)
+
+  // Media probe results (ffprobe, see MEDIA_PROBE); tracks are in audio_tracks/subtitle_tracks
+  @Column({ type: 'real', nullable: true })
+  duration?: number | null; // Seconds
+
+  @Column({ type: 'integer', nullable: true })
+  width?: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  height?: number | null;
+
+  @Column({ type: 'bigint', nullable: true })
+  bitrate?: number | null; // Overall bits per second
+
+  @Column({ type: 'text', nullable: true })
+  videoProfile?: string | null; // e.g. 'Main 10', 'High'
+
+  @Column({ type: 'text', nullable: true })
+  hdrFormat?: string | null; // 'HDR10', 'HLG', 'Dolby Vision' (null for SDR)
+
+  @Column({ type: timestampColumnType, nullable: true })
+  probedAt?: Date | null; // Set when the stream details above (and codecs, resolution) come from the probe
+
+  @Column({ type: 'text', nullable: true })
+  playback?: string | null; // 'direct', 'remux' or 'transcode' (browser compatibility, from the probe)
+
+  @CreateDateColumn({ type: timestampColumnType })
   createdAt!: Date;
 
-  @UpdateDateColumn({ type: 'timestamp' })
+  @UpdateDateColumn({ type: timestampColumnType })
   updatedAt!: Date;
+
+  @DeleteDateColumn({ type: timestampColumnType, nullable: true })
+  @Index('idx_files_deletedAt')
+  deletedAt?: Date | null; // Set when the file disappeared from storage (trash), purged after retention
 }
 
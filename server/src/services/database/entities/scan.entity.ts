@@ -4,6 +4,7 @@ import {
   Column,
   CreateDateColumn
 } from 'typeorm';
+import { timestampColumnType } from '../column-types';
 
 /**
  * Scan entity mapping to scans table
@@ -13,7 +14,7 @@ export class ScanEntity {
   @PrimaryGeneratedColumn()
   id!: number;
 
-  @CreateDateColumn({ type: 'timestamp' })
+  @CreateDateColumn({ type: timestampColumnType })
   timestamp!: Date;
 
   @Column({ type: 'integer' })
@@ -31,6 +32,9 @@ export class ScanEntity {
   @Column({ type: 'integer', default: 0 })
   skippedCount!: number;
 
+  @Column({ type: 'text', default: 'completed' })
+  status!: string; // 'completed', 'failed' or 'cancelled'
+
   @Column({ type: 'integer', nullable: true })
   watch_folder_id?: number | null;
 }
@@ -4,6 +4,7 @@ import {
   Column,
   UpdateDateColumn
 } from 'typeorm';
+import { timestampColumnType } from '../column-types';
 
 /**
  * Server setting entity mapping to server_settings table
@@ -16,7 +17,7 @@ export class ServerSettingEntity {
   @Column({ type: 'text' })
   value!: string;
 
-  @UpdateDateColumn({ type: 'timestamp' })
+  @UpdateDateColumn({ type: timestampColumnType })
   updated_at!: Date;
 }
 
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index
+} from 'typeorm';
+
+/**
+ * Sidecar subtitle entity mapping to sidecar_subtitles table
+ * Subtitle files found next to a video (e.g. Movie.en.srt), collected by the scanner
+ */
+@Entity('sidecar_subtitles')
+export class SidecarSubtitleEntity {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'integer' })
+  @Index('idx_sidecar_subtitles_file_id')
+  file_id!: number;
+
+  @Column({ type: 'text' })
+  name!: string;
+
+  @Column({ type: 'text' })
+  path!: string; // Relative to the watch folder root
+
+  @Column({ type: 'bigint' })
+  size!: number;
+
+  @Column({ type: 'bigint' })
+  mtime!: number;
+
+  @Column({ type: 'text' })
+  format!: string; // srt, ass, ssa or vtt
+
+  @Column({ type: 'text', nullable: true })
+  language?: string | null; // ISO 639-2 code from the filename suffix
+
+  @Column({ type: 'integer', default: 0 })
+  is_forced!: number;
+
+  @Column({ type: 'integer', default: 0 })
+  is_hearing_impaired!: number;
+}
@@ -0,0 +1,42 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index
+} from 'typeorm';
+
+/**
+ * Subtitle track entity mapping to subtitle_tracks table
+ * One row per subtitle stream found by the media probe (ffprobe)
+ */
+@Entity('subtitle_tracks')
+export class SubtitleTrackEntity {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'integer' })
+  @Index('idx_subtitle_tracks_file_id')
+  file_id!: number;
+
+  @Column({ type: 'integer' })
+  stream_index!: number; // Stream index in the container (ffprobe/ffmpeg numbering)
+
+  @Column({ type: 'text' })
+  codec!: string; // e.g. subrip, ass, mov_text, hdmv_pgs_subtitle (image-based)
+
+  @Column({ type: 'text', nullable: true })
+  @Index('idx_subtitle_tracks_language')
+  language?: string | null; // ISO 639-2 code as tagged in the container
+
+  @Column({ type: 'text', nullable: true })
+  title?: string | null;
+
+  @Column({ type: 'integer', default: 0 })
+  is_default!: number;
+
+  @Column({ type: 'integer', default: 0 })
+  is_forced!: number;
+
+  @Column({ type: 'integer', default: 0 })
+  is_hearing_impaired!: number;
+}
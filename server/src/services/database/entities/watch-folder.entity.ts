@@ -6,6 +6,7 @@ import {
   UpdateDateColumn,
   Index
 } from 'typeorm';
+import { timestampColumnType } from '../column-types';
 
 /**
  * JSON transformer for array fields
@@ -52,12 +53,18 @@ export class WatchFolderEntity {
   @Column({ type: 'integer', default: 50 })
   min_video_size_mb!: number;
 
+  @Column({ type: 'integer', default: 0 })
+  stability_window_seconds!: number;
+
   @Column({ type: 'text', transformer: jsonArrayTransformer })
   temporary_extensions!: string[];
 
   @Column({ type: 'text', default: 'local' })
   type!: string;
 
+  @Column({ type: 'integer', default: 0 })
+  live_watch!: number; // 1 for true, 0 for false
+
   @Column({ type: 'text', nullable: true })
   username?: string | null;
 
@@ -67,10 +74,19 @@ export class WatchFolderEntity {
   @Column({ type: 'text', nullable: true })
   domain?: string | null;
 
-  @CreateDateColumn({ type: 'timestamp' })
+  @Column({ type: 'integer', default: 50 })
+  max_removal_percent!: number;
+
+  @Column({ type: 'text', nullable: true })
+  unavailable_reason?: string | null; // Set when a scan refused to remove files
+
+  @Column({ type: timestampColumnType, nullable: true })
+  unavailable_since?: Date | null;
+
+  @CreateDateColumn({ type: timestampColumnType })
   created_at!: Date;
 
-  @UpdateDateColumn({ type: 'timestamp' })
+  @UpdateDateColumn({ type: timestampColumnType })
   updated_at!: Date;
 }
 
@@ -1,5 +1,5 @@
-import { FileRecord, DatabaseStats, ScanRecord, WatchFolder } from '../../types/database';
-import { WatchFolderDTO } from '../../types/dtos';
+import { FileRecord, FileFilter, FileHashes, FileMove, FileSidecars, FileTracks, SidecarSubtitle, TrackType, FileChangeFeed, DatabaseStats, ScanRecord, ScanStatus, WatchFolder, SchemaStatus } from '../../types/database';
+import { WatchFolderDTO, FileMatchDTO } from '../../types/dtos';
 
 /**
  * Database service interface
@@ -9,8 +9,9 @@ import { WatchFolderDTO } from '../../types/dtos';
 export interface IDatabaseService {
   // File operations
   upsertFile(fileData: FileRecord): Promise<any>;
-  upsertFilesBatch(files: FileRecord[]): Promise<void>;
+  upsertFilesBatch(files: FileRecord[]): Promise<{ added: number; updated: number }>;
   getAllFiles(): Promise<FileRecord[]>;
+  getUnmatchedFiles(): Promise<FileRecord[]>;
   getFileById(fileId: number): Promise<FileRecord | null>;
   getFileByPath(filePath: string): Promise<FileRecord | null>;
   getFilesByImdb(imdbId: string): Promise<FileRecord[]>;
@@ -18,9 +19,31 @@ export interface IDatabaseService {
   searchFiles(query: string): Promise<FileRecord[]>;
   searchFilesByName(namePattern: string): Promise<FileRecord[]>;
   filterByExtension(ext: string): Promise<FileRecord[]>;
+  getFilesByFilter(filter: FileFilter): Promise<FileRecord[]>;
   removeFile(filePath: string): Promise<boolean>;
+  getFilePaths(watchFolderId: number): Promise<string[]>;
   removeFilesNotInList(paths: string[], watchFolderId?: number): Promise<number>;
+  removeFilesUnderPath(relativePath: string, watchFolderId: number): Promise<number>;
+  moveFiles(moves: FileMove[]): Promise<number>;
+  setFileHashes(hashes: FileHashes[]): Promise<void>;
+  getDuplicateFingerprintFiles(): Promise<FileRecord[]>;
+  getFileTracks(fileId: number): Promise<FileTracks | null>;
+  getFileIdsByTrackLanguage(trackType: TrackType, languages: string[]): Promise<number[]>;
+  syncSidecarSubtitles(watchFolderId: number, files: FileSidecars[]): Promise<number>;
+  getSidecarSubtitles(fileId: number): Promise<SidecarSubtitle[] | null>;
+  getSidecarSubtitleById(subtitleId: number): Promise<SidecarSubtitle | null>;
   clearFiles(): Promise<any>;
+  setFileMatch(fileId: number, match: FileMatchDTO): Promise<FileRecord | null>;
+  unlockFileMatch(fileId: number): Promise<FileRecord | null>;
+
+  // Trash operations (files removed from storage are soft-deleted)
+  getDeletedFiles(): Promise<FileRecord[]>;
+  findDeletedFile(filePath: string, name: string, size: number, excludeIds?: number[]): Promise<FileRecord | null>;
+  purgeDeletedFiles(olderThan: Date): Promise<number>;
+
+  // Change feed operations
+  getFileChanges(since: number | null, limit: number): Promise<FileChangeFeed>;
+  pruneFileChanges(olderThan: Date): Promise<number>;
 
   // Scan operations
   recordScan(stats: {
@@ -29,6 +52,7 @@ export interface IDatabaseService {
     errors?: number;
     processedCount?: number;
     skippedCount?: number;
+    status?: ScanStatus;
     watchFolderId?: number;
   }): Promise<any>;
   getScanHistory(limit?: number): Promise<ScanRecord[]>;
@@ -44,6 +68,7 @@ export interface IDatabaseService {
   createWatchFolder(data: WatchFolderDTO): Promise<WatchFolder>;
   updateWatchFolder(id: number, data: Partial<WatchFolderDTO>): Promise<WatchFolder | null>;
   deleteWatchFolder(id: number): Promise<boolean>;
+  setWatchFolderUnavailable(id: number, reason: string | null): Promise<void>;
   getDecryptedPassword(watchFolderId: number): Promise<string | null>;
 
   // Server settings operations
@@ -53,6 +78,9 @@ export interface IDatabaseService {
   setSettings(settings: Record<string, string>): Promise<void>;
   deleteSetting(key: string): Promise<boolean>;
 
+  // Schema operations
+  getSchemaStatus(): Promise<SchemaStatus>;
+
   // Connection management
   close(): Promise<void>;
 }
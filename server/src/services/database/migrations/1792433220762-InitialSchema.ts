@@ -0,0 +1,112 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+import { idColumn, createDateColumn, updateDateColumn } from './columns';
+
+/**
+ * Initial schema: files, scans, watch_folders and server_settings
+ * Tables are created only if missing, so databases created by the former
+ * `synchronize` mode are adopted as-is
+ */
+export class InitialSchema1792433220762 implements MigrationInterface {
+  name = 'InitialSchema1792433220762';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(new Table({
+      name: 'files',
+      columns: [
+        idColumn(),
+        { name: 'name', type: 'text' },
+        { name: 'path', type: 'text', isUnique: true },
+        { name: 'size', type: 'bigint' },
+        { name: 'mtime', type: 'bigint' },
+        { name: 'parsedName', type: 'text', isNullable: true },
+        { name: 'type', type: 'text', isNullable: true },
+        { name: 'imdb_id', type: 'text', isNullable: true },
+        { name: 'season', type: 'integer', isNullable: true },
+        { name: 'episode', type: 'integer', isNullable: true },
+        { name: 'resolution', type: 'text', isNullable: true },
+        { name: 'source', type: 'text', isNullable: true },
+        { name: 'videoCodec', type: 'text', isNullable: true },
+        { name: 'audioCodec', type: 'text', isNullable: true },
+        { name: 'audioChannels', type: 'text', isNullable: true },
+        { name: 'languages', type: 'text', isNullable: true },
+        { name: 'releaseGroup', type: 'text', isNullable: true },
+        { name: 'flags', type: 'text', isNullable: true },
+        { name: 'edition', type: 'text', isNullable: true },
+        { name: 'imdbName', type: 'text', isNullable: true },
+        { name: 'imdbYear', type: 'integer', isNullable: true },
+        { name: 'imdbType', type: 'text', isNullable: true },
+        { name: 'yearRange', type: 'text', isNullable: true },
+        { name: 'image', type: 'text', isNullable: true },
+        { name: 'starring', type: 'text', isNullable: true },
+        { name: 'similarity', type: 'real', isNullable: true },
+        { name: 'watch_folder_id', type: 'integer', isNullable: true },
+        createDateColumn(queryRunner, 'createdAt'),
+        updateDateColumn(queryRunner, 'updatedAt'),
+      ],
+      indices: [
+        new TableIndex({ name: 'idx_files_name', columnNames: ['name'] }),
+        new TableIndex({ name: 'idx_files_path', columnNames: ['path'] }),
+        new TableIndex({ name: 'idx_files_type', columnNames: ['type'] }),
+        new TableIndex({ name: 'idx_files_imdb', columnNames: ['imdb_id'] }),
+        new TableIndex({ name: 'idx_files_resolution', columnNames: ['resolution'] }),
+        new TableIndex({ name: 'idx_files_source', columnNames: ['source'] }),
+        new TableIndex({ name: 'idx_files_videoCodec', columnNames: ['videoCodec'] }),
+        new TableIndex({ name: 'idx_files_releaseGroup', columnNames: ['releaseGroup'] }),
+      ],
+    }), true);
+
+    await queryRunner.createTable(new Table({
+      name: 'scans',
+      columns: [
+        idColumn(),
+        createDateColumn(queryRunner, 'timestamp'),
+        { name: 'filesFound', type: 'integer' },
+        { name: 'duration', type: 'integer' },
+        { name: 'errors', type: 'integer', default: 0 },
+        { name: 'processedCount', type: 'integer', default: 0 },
+        { name: 'skippedCount', type: 'integer', default: 0 },
+        { name: 'watch_folder_id', type: 'integer', isNullable: true },
+      ],
+    }), true);
+
+    await queryRunner.createTable(new Table({
+      name: 'watch_folders',
+      columns: [
+        idColumn(),
+        { name: 'path', type: 'text', isUnique: true },
+        { name: 'name', type: 'text', isNullable: true },
+        { name: 'enabled', type: 'integer', default: 1 },
+        { name: 'scan_interval', type: 'text' },
+        { name: 'allowed_extensions', type: 'text' },
+        { name: 'min_video_size_mb', type: 'integer', default: 50 },
+        { name: 'temporary_extensions', type: 'text' },
+        { name: 'type', type: 'text', default: "'local'" },
+        { name: 'username', type: 'text', isNullable: true },
+        { name: 'password_encrypted', type: 'text', isNullable: true },
+        { name: 'domain', type: 'text', isNullable: true },
+        createDateColumn(queryRunner, 'created_at'),
+        updateDateColumn(queryRunner, 'updated_at'),
+      ],
+      indices: [
+        new TableIndex({ name: 'idx_watch_folders_path', columnNames: ['path'] }),
+        new TableIndex({ name: 'idx_watch_folders_enabled', columnNames: ['enabled'] }),
+      ],
+    }), true);
+
+    await queryRunner.createTable(new Table({
+      name: 'server_settings',
+      columns: [
+        { name: 'key', type: 'text', isPrimary: true },
+        { name: 'value', type: 'text' },
+        updateDateColumn(queryRunner, 'updated_at'),
+      ],
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('server_settings', true);
+    await queryRunner.dropTable('watch_folders', true);
+    await queryRunner.dropTable('scans', true);
+    await queryRunner.dropTable('files', true);
+  }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Add live_watch flag to watch folders (filesystem event watching)
+ */
+export class AddWatchFolderLiveWatch1792434400000 implements MigrationInterface {
+  name = 'AddWatchFolderLiveWatch1792434400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('watch_folders', new TableColumn({
+      name: 'live_watch',
+      type: 'integer',
+      default: 0,
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('watch_folders', 'live_watch');
+  }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Add stability window to watch folders (defer files that are still being written)
+ */
+export class AddWatchFolderStabilityWindow1792435300000 implements MigrationInterface {
+  name = 'AddWatchFolderStabilityWindow1792435300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('watch_folders', new TableColumn({
+      name: 'stability_window_seconds',
+      type: 'integer',
+      default: 0,
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('watch_folders', 'stability_window_seconds');
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+/**
+ * Add match status to files so files without IMDB ID can be stored as unmatched
+ * Existing rows all have an IMDB ID (unmatched files used to be dropped)
+ */
+export class AddFileMatchStatus1792436500000 implements MigrationInterface {
+  name = 'AddFileMatchStatus1792436500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('files', new TableColumn({
+      name: 'match_status',
+      type: 'text',
+      default: "'matched'",
+    }));
+    await queryRunner.createIndex('files', new TableIndex({
+      name: 'idx_files_match_status',
+      columnNames: ['match_status'],
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('files', 'idx_files_match_status');
+    await queryRunner.dropColumn('files', 'match_status');
+  }
+}
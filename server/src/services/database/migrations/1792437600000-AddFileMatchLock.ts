@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Add match lock to files so a manually pinned IMDB match is never overwritten by scans
+ */
+export class AddFileMatchLock1792437600000 implements MigrationInterface {
+  name = 'AddFileMatchLock1792437600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('files', new TableColumn({
+      name: 'match_locked',
+      type: 'integer',
+      default: 0,
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('files', 'match_locked');
+  }
+}
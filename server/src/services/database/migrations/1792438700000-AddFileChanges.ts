@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+import { idColumn, createDateColumn } from './columns';
+
+/**
+ * Add file_changes table for the file change feed (sequence of added/updated/removed file IDs)
+ */
+export class AddFileChanges1792438700000 implements MigrationInterface {
+  name = 'AddFileChanges1792438700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(new Table({
+      name: 'file_changes',
+      columns: [
+        idColumn(),
+        { name: 'file_id', type: 'integer' },
+        { name: 'change_type', type: 'text' },
+        createDateColumn(queryRunner, 'changedAt'),
+      ],
+      indices: [
+        new TableIndex({ name: 'idx_file_changes_file_id', columnNames: ['file_id'] }),
+        new TableIndex({ name: 'idx_file_changes_changedAt', columnNames: ['changedAt'] }),
+      ],
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('file_changes');
+  }
+}
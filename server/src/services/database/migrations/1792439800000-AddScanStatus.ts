@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Add status to scans so cancelled scans can be told apart from completed and failed ones
+ * Existing rows are derived from the error count
+ */
+export class AddScanStatus1792439800000 implements MigrationInterface {
+  name = 'AddScanStatus1792439800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('scans', new TableColumn({
+      name: 'status',
+      type: 'text',
+      default: "'completed'",
+    }));
+    await queryRunner.query(`UPDATE scans SET status = 'failed' WHERE errors > 0`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('scans', 'status');
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+import { timestampColumnType } from '../column-types';
+
+/**
+ * Add mass-deletion guard to watch folders: removal limit per scan and unavailable state
+ * (set instead of removing files when the share looks missing or mostly empty)
+ */
+export class AddWatchFolderRemovalGuard1792440900000 implements MigrationInterface {
+  name = 'AddWatchFolderRemovalGuard1792440900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('watch_folders', [
+      new TableColumn({
+        name: 'max_removal_percent',
+        type: 'integer',
+        default: 50,
+      }),
+      new TableColumn({
+        name: 'unavailable_reason',
+        type: 'text',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'unavailable_since',
+        type: timestampColumnType,
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('watch_folders', 'unavailable_since');
+    await queryRunner.dropColumn('watch_folders', 'unavailable_reason');
+    await queryRunner.dropColumn('watch_folders', 'max_removal_percent');
+  }
+}
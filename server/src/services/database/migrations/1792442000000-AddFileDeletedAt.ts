@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+import { timestampColumnType } from '../column-types';
+
+/**
+ * Add soft delete to files: removed files are kept in the trash (deletedAt set)
+ * until purged, so a folder that comes back keeps its matches
+ */
+export class AddFileDeletedAt1792442000000 implements MigrationInterface {
+  name = 'AddFileDeletedAt1792442000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('files', new TableColumn({
+      name: 'deletedAt',
+      type: timestampColumnType,
+      isNullable: true,
+    }));
+    await queryRunner.createIndex('files', new TableIndex({
+      name: 'idx_files_deletedAt',
+      columnNames: ['deletedAt'],
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('files', 'idx_files_deletedAt');
+    await queryRunner.dropColumn('files', 'deletedAt');
+  }
+}
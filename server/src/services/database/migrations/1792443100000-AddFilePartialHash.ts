@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Add partial content hash to files, used to confirm moved/renamed files during scans
+ */
+export class AddFilePartialHash1792443100000 implements MigrationInterface {
+  name = 'AddFilePartialHash1792443100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('files', new TableColumn({
+      name: 'partial_hash',
+      type: 'text',
+      isNullable: true,
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('files', 'partial_hash');
+  }
+}
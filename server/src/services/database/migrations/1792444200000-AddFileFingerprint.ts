@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+/**
+ * Add content fingerprint to files (OpenSubtitles hash), used to find identical copies
+ */
+export class AddFileFingerprint1792444200000 implements MigrationInterface {
+  name = 'AddFileFingerprint1792444200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('files', new TableColumn({
+      name: 'fingerprint',
+      type: 'text',
+      isNullable: true,
+    }));
+    await queryRunner.createIndex('files', new TableIndex({
+      name: 'idx_files_fingerprint',
+      columnNames: ['fingerprint'],
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('files', 'idx_files_fingerprint');
+    await queryRunner.dropColumn('files', 'fingerprint');
+  }
+}
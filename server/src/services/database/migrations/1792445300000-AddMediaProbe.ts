@@ -0,0 +1,72 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableIndex } from 'typeorm';
+import { idColumn } from './columns';
+import { timestampColumnType } from '../column-types';
+
+/**
+ * Add media probe results: stream details on files, plus audio_tracks and subtitle_tracks tables
+ */
+export class AddMediaProbe1792445300000 implements MigrationInterface {
+  name = 'AddMediaProbe1792445300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('files', [
+      new TableColumn({ name: 'duration', type: 'real', isNullable: true }),
+      new TableColumn({ name: 'width', type: 'integer', isNullable: true }),
+      new TableColumn({ name: 'height', type: 'integer', isNullable: true }),
+      new TableColumn({ name: 'bitrate', type: 'bigint', isNullable: true }),
+      new TableColumn({ name: 'videoProfile', type: 'text', isNullable: true }),
+      new TableColumn({ name: 'hdrFormat', type: 'text', isNullable: true }),
+      new TableColumn({ name: 'probedAt', type: timestampColumnType, isNullable: true }),
+    ]);
+
+    await queryRunner.createTable(new Table({
+      name: 'audio_tracks',
+      columns: [
+        idColumn(),
+        { name: 'file_id', type: 'integer' },
+        { name: 'stream_index', type: 'integer' },
+        { name: 'codec', type: 'text' },
+        { name: 'profile', type: 'text', isNullable: true },
+        { name: 'language', type: 'text', isNullable: true },
+        { name: 'title', type: 'text', isNullable: true },
+        { name: 'channels', type: 'integer', isNullable: true },
+        { name: 'channel_layout', type: 'text', isNullable: true },
+        { name: 'sample_rate', type: 'integer', isNullable: true },
+        { name: 'bitrate', type: 'bigint', isNullable: true },
+        { name: 'is_default', type: 'integer', default: 0 },
+        { name: 'is_forced', type: 'integer', default: 0 },
+      ],
+      indices: [
+        new TableIndex({ name: 'idx_audio_tracks_file_id', columnNames: ['file_id'] }),
+        new TableIndex({ name: 'idx_audio_tracks_language', columnNames: ['language'] }),
+      ],
+    }));
+
+    await queryRunner.createTable(new Table({
+      name: 'subtitle_tracks',
+      columns: [
+        idColumn(),
+        { name: 'file_id', type: 'integer' },
+        { name: 'stream_index', type: 'integer' },
+        { name: 'codec', type: 'text' },
+        { name: 'language', type: 'text', isNullable: true },
+        { name: 'title', type: 'text', isNullable: true },
+        { name: 'is_default', type: 'integer', default: 0 },
+        { name: 'is_forced', type: 'integer', default: 0 },
+        { name: 'is_hearing_impaired', type: 'integer', default: 0 },
+      ],
+      indices: [
+        new TableIndex({ name: 'idx_subtitle_tracks_file_id', columnNames: ['file_id'] }),
+        new TableIndex({ name: 'idx_subtitle_tracks_language', columnNames: ['language'] }),
+      ],
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('subtitle_tracks');
+    await queryRunner.dropTable('audio_tracks');
+    for (const column of ['probedAt', 'hdrFormat', 'videoProfile', 'bitrate', 'height', 'width', 'duration']) {
+      await queryRunner.dropColumn('files', column);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+import { idColumn } from './columns';
+
+/**
+ * Add sidecar_subtitles table (subtitle files next to videos)
+ */
+export class AddSidecarSubtitles1792446400000 implements MigrationInterface {
+  name = 'AddSidecarSubtitles1792446400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(new Table({
+      name: 'sidecar_subtitles',
+      columns: [
+        idColumn(),
+        { name: 'file_id', type: 'integer' },
+        { name: 'name', type: 'text' },
+        { name: 'path', type: 'text' },
+        { name: 'size', type: 'bigint' },
+        { name: 'mtime', type: 'bigint' },
+        { name: 'format', type: 'text' },
+        { name: 'language', type: 'text', isNullable: true },
+        { name: 'is_forced', type: 'integer', default: 0 },
+        { name: 'is_hearing_impaired', type: 'integer', default: 0 },
+      ],
+      indices: [
+        new TableIndex({ name: 'idx_sidecar_subtitles_file_id', columnNames: ['file_id'] }),
+      ],
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('sidecar_subtitles');
+  }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Add browser playback mode to files (direct, remux or transcode, set by the media probe)
+ */
+export class AddFilePlayback1792447500000 implements MigrationInterface {
+  name = 'AddFilePlayback1792447500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('files', new TableColumn({
+      name: 'playback',
+      type: 'text',
+      isNullable: true,
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('files', 'playback');
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Add change_feed_lock table (single row locked by transactions that write the change feed)
+ */
+export class AddChangeFeedLock1792448600000 implements MigrationInterface {
+  name = 'AddChangeFeedLock1792448600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(new Table({
+      name: 'change_feed_lock',
+      columns: [
+        { name: 'id', type: 'integer', isPrimary: true },
+      ],
+    }));
+    await queryRunner.manager
+      .createQueryBuilder()
+      .insert()
+      .into('change_feed_lock')
+      .values({ id: 1 })
+      .execute();
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('change_feed_lock');
+  }
+}
@@ -0,0 +1,48 @@
+import { QueryRunner, TableColumnOptions } from 'typeorm';
+import { timestampColumnType } from '../column-types';
+
+/**
+ * Column builders shared by migrations
+ * Migrations use the QueryRunner schema API (not raw SQL) so the same
+ * migration runs on SQLite, PostgreSQL, MySQL and MariaDB
+ */
+
+/**
+ * Auto-increment integer primary key (matches @PrimaryGeneratedColumn())
+ */
+export function idColumn(name: string = 'id'): TableColumnOptions {
+  return {
+    name,
+    type: 'integer',
+    isPrimary: true,
+    isGenerated: true,
+    generationStrategy: 'increment',
+  };
+}
+
+/**
+ * Creation timestamp column (matches @CreateDateColumn({ type: timestampColumnType }))
+ */
+export function createDateColumn(queryRunner: QueryRunner, name: string): TableColumnOptions {
+  const { mappedDataTypes } = queryRunner.connection.driver;
+  return {
+    name,
+    type: timestampColumnType,
+    default: mappedDataTypes.createDateDefault,
+    precision: mappedDataTypes.createDatePrecision,
+  };
+}
+
+/**
+ * Update timestamp column (matches @UpdateDateColumn({ type: timestampColumnType }))
+ */
+export function updateDateColumn(queryRunner: QueryRunner, name: string): TableColumnOptions {
+  const { mappedDataTypes } = queryRunner.connection.driver;
+  return {
+    name,
+    type: timestampColumnType,
+    default: mappedDataTypes.updateDateDefault,
+    onUpdate: mappedDataTypes.updateDateDefault,
+    precision: mappedDataTypes.updateDatePrecision,
+  };
+}
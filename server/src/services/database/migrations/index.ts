@@ -0,0 +1,37 @@
+import { InitialSchema1792433220762 } from './1792433220762-InitialSchema';
+import { AddWatchFolderLiveWatch1792434400000 } from './1792434400000-AddWatchFolderLiveWatch';
+import { AddWatchFolderStabilityWindow1792435300000 } from './1792435300000-AddWatchFolderStabilityWindow';
+import { AddFileMatchStatus1792436500000 } from './1792436500000-AddFileMatchStatus';
+import { AddFileMatchLock1792437600000 } from './1792437600000-AddFileMatchLock';
+import { AddFileChanges1792438700000 } from './1792438700000-AddFileChanges';
+import { AddScanStatus1792439800000 } from './1792439800000-AddScanStatus';
+import { AddWatchFolderRemovalGuard1792440900000 } from './1792440900000-AddWatchFolderRemovalGuard';
+import { AddFileDeletedAt1792442000000 } from './1792442000000-AddFileDeletedAt';
+import { AddFilePartialHash1792443100000 } from './1792443100000-AddFilePartialHash';
+import { AddFileFingerprint1792444200000 } from './1792444200000-AddFileFingerprint';
+import { AddMediaProbe1792445300000 } from './1792445300000-AddMediaProbe';
+import { AddSidecarSubtitles1792446400000 } from './1792446400000-AddSidecarSubtitles';
+import { AddFilePlayback1792447500000 } from './1792447500000-AddFilePlayback';
+import { AddChangeFeedLock1792448600000 } from './1792448600000-AddChangeFeedLock';
+
+/**
+ * All schema migrations, in order
+ * Register new migrations here (listed explicitly so they load under Bun without globbing)
+ */
+export const migrations = [
+  InitialSchema1792433220762,
+  AddWatchFolderLiveWatch1792434400000,
+  AddWatchFolderStabilityWindow1792435300000,
+  AddFileMatchStatus1792436500000,
+  AddFileMatchLock1792437600000,
+  AddFileChanges1792438700000,
+  AddScanStatus1792439800000,
+  AddWatchFolderRemovalGuard1792440900000,
+  AddFileDeletedAt1792442000000,
+  AddFilePartialHash1792443100000,
+  AddFileFingerprint1792444200000,
+  AddMediaProbe1792445300000,
+  AddSidecarSubtitles1792446400000,
+  AddFilePlayback1792447500000,
+  AddChangeFeedLock1792448600000,
+];
@@ -0,0 +1,113 @@
+import logger from '../config/logger';
+import config from '../config';
+import db from './database.service';
+import { FileRecord } from '../types/database';
+
+/**
+ * Files that are copies or variants of each other
+ */
+export interface DuplicateGroup {
+  key: string; // Fingerprint, or imdb_id[:season:episode]
+  imdb_id: string | null;
+  imdbName: string | null;
+  season: number | null;
+  episode: number | null;
+  totalSize: number;
+  reclaimableBytes: number; // Space freed by keeping one file (the largest variant)
+  files: FileRecord[];
+}
+
+/**
+ * Duplicate report
+ */
+export interface DuplicatesReport {
+  fingerprintEnabled: boolean; // Identical copies are only found with FILE_FINGERPRINT
+  identical: DuplicateGroup[]; // Same content (fingerprint), in any folder
+  variants: DuplicateGroup[]; // Same movie or episode, e.g. in several qualities
+  identicalReclaimableBytes: number;
+  variantReclaimableBytes: number; // Includes identical copies of matched files
+}
+
+/**
+ * Duplicate detection service
+ * Groups stored files by content fingerprint (identical copies) and by
+ * IMDB match (same movie or episode in other releases or qualities)
+ */
+class DuplicatesService {
+  /**
+   * Build the duplicate report
+   * @returns Identical and variant groups, largest reclaimable space first
+   */
+  async getReport(): Promise<DuplicatesReport> {
+    const startTime = Date.now();
+
+    const identicalFiles = await db.getDuplicateFingerprintFiles();
+    const identical = this._group(identicalFiles, file => file.fingerprint!)
+      .map(([key, files]) => this._toGroup(key, files, files[0].size * (files.length - 1)));
+
+    // Series files without season/episode (e.g. extras) are not variants of each other
+    const matchedFiles = (await db.getAllFiles())
+      .filter(file => file.imdb_id && (file.type !== 'series' || (file.season != null && file.episode != null)));
+    const variants = this._group(matchedFiles, file => [file.imdb_id, file.season, file.episode]
+      .filter(part => part !== null && part !== undefined)
+      .join(':'))
+      .map(([key, files]) => {
+        const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+        const largest = Math.max(...files.map(file => file.size));
+        return this._toGroup(key, files, totalSize - largest);
+      });
+
+    const byReclaimable = (a: DuplicateGroup, b: DuplicateGroup) => b.reclaimableBytes - a.reclaimableBytes;
+    identical.sort(byReclaimable);
+    variants.sort(byReclaimable);
+
+    const report: DuplicatesReport = {
+      fingerprintEnabled: config.scanner.fingerprint,
+      identical,
+      variants,
+      identicalReclaimableBytes: identical.reduce((sum, group) => sum + group.reclaimableBytes, 0),
+      variantReclaimableBytes: variants.reduce((sum, group) => sum + group.reclaimableBytes, 0)
+    };
+
+    logger.debug('Duplicate report built', {
+      identicalGroups: identical.length,
+      variantGroups: variants.length,
+      duration: `${Date.now() - startTime}ms`
+    });
+
+    return report;
+  }
+
+  /**
+   * Group files by key, keeping groups with more than one file
+   * @private
+   */
+  private _group(files: FileRecord[], keyOf: (file: FileRecord) => string): [string, FileRecord[]][] {
+    const groups = new Map<string, FileRecord[]>();
+    for (const file of files) {
+      const key = keyOf(file);
+      groups.set(key, [...(groups.get(key) || []), file]);
+    }
+    return Array.from(groups.entries()).filter(([, group]) => group.length > 1);
+  }
+
+  /**
+   * Build a group, with title details of its first matched file
+   * @private
+   */
+  private _toGroup(key: string, files: FileRecord[], reclaimableBytes: number): DuplicateGroup {
+    const matched = files.find(file => file.imdb_id) || files[0];
+    return {
+      key,
+      imdb_id: matched.imdb_id ?? null,
+      imdbName: matched.imdbName ?? null,
+      season: matched.season ?? null,
+      episode: matched.episode ?? null,
+      totalSize: files.reduce((sum, file) => sum + file.size, 0),
+      reclaimableBytes,
+      files
+    };
+  }
+}
+
+export default new DuplicatesService();
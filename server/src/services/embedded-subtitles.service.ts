@@ -0,0 +1,126 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import logger from '../config/logger';
+import config from '../config';
+
+// Subtitle codecs stored as images (PGS, VobSub, DVB): ffmpeg cannot convert them to text
+const IMAGE_SUBTITLE_CODECS = ['hdmv_pgs_subtitle', 'dvd_subtitle', 'dvb_subtitle', 'xsub'];
+
+/**
+ * Embedded subtitle extraction service
+ * Extracts text subtitle tracks from video containers to WebVTT with ffmpeg,
+ * caching the result on disk per file version (mtime) and track
+ */
+class EmbeddedSubtitlesService {
+  private extractions: Map<string, Promise<string>>; // In progress, keyed by cache path
+
+  constructor() {
+    this.extractions = new Map();
+  }
+
+  /**
+   * Check if a subtitle codec is image-based (cannot be converted to WebVTT)
+   * @param codec - ffprobe codec name
+   */
+  isImageBased(codec: string): boolean {
+    return IMAGE_SUBTITLE_CODECS.includes(codec);
+  }
+
+  /**
+   * Get a subtitle track as WebVTT, extracting it on first request
+   * Concurrent requests for the same track share one ffmpeg run
+   * @param fileId - File ID (cache key)
+   * @param mtime - File modification time (cache key: a changed file is extracted again)
+   * @param localPath - Absolute path of the video
+   * @param streamIndex - Stream index of the subtitle track in the container
+   * @returns Path of the cached WebVTT file
+   */
+  async getVtt(fileId: number, mtime: number, localPath: string, streamIndex: number): Promise<string> {
+    const cachePath = path.join(config.ffmpeg.cacheDir, 'subtitles', `${fileId}-${streamIndex}-${mtime}.vtt`);
+
+    // Registered before any await, so a concurrent request cannot start a second run
+    const running = this.extractions.get(cachePath);
+    if (running) {
+      return running;
+    }
+
+    const pending = this._getCached(localPath, streamIndex, cachePath)
+      .finally(() => this.extractions.delete(cachePath));
+    this.extractions.set(cachePath, pending);
+    return pending;
+  }
+
+  /**
+   * Return the cached file, extracting it first if missing
+   * @private
+   */
+  private async _getCached(localPath: string, streamIndex: number, cachePath: string): Promise<string> {
+    try {
+      await fs.access(cachePath);
+      return cachePath;
+    } catch {
+      return this._extract(localPath, streamIndex, cachePath);
+    }
+  }
+
+  /**
+   * Extract a track with ffmpeg into the cache, replacing versions of older file mtimes
+   * @private
+   */
+  private async _extract(localPath: string, streamIndex: number, cachePath: string): Promise<string> {
+    const startTime = Date.now();
+    const cacheDir = path.dirname(cachePath);
+    await fs.mkdir(cacheDir, { recursive: true });
+
+    // Written next to the target and renamed, so a cached file is always complete
+    const tempPath = `${cachePath}.tmp`;
+    try {
+      await this._runFfmpeg([
+        '-v', 'error',
+        '-nostdin',
+        '-y',
+        '-i', localPath,
+        '-map', `0:${streamIndex}`,
+        '-c:s', 'webvtt',
+        '-f', 'webvtt',
+        tempPath
+      ]);
+      await fs.rename(tempPath, cachePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    // File ID and track prefix, any mtime: older extractions of this track are stale
+    const prefix = path.basename(cachePath).replace(/-\d+\.vtt$/, '-');
+    const stale = (await fs.readdir(cacheDir))
+      .filter(name => name.startsWith(prefix) && name.endsWith('.vtt') && name !== path.basename(cachePath));
+    await Promise.all(stale.map(name => fs.rm(path.join(cacheDir, name), { force: true })));
+
+    logger.info('Subtitle track extracted', {
+      path: localPath,
+      streamIndex,
+      duration: `${Date.now() - startTime}ms`
+    });
+    return cachePath;
+  }
+
+  /**
+   * Run ffmpeg, rejecting with its error output
+   * @private
+   */
+  private _runFfmpeg(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      execFile(config.ffmpeg.path, args, { timeout: config.ffmpeg.subtitleTimeoutMs }, (error, _stdout, stderr) => {
+        if (error) {
+          reject(new Error(`ffmpeg failed: ${stderr.trim() || error.message}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+export default new EmbeddedSubtitlesService();
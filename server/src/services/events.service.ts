@@ -0,0 +1,113 @@
+import logger from '../config/logger';
+import config from '../config';
+
+/**
+ * Event types published on the event stream
+ */
+export type ServerEventType =
+  | 'scan.started'
+  | 'scan.progress'
+  | 'scan.completed'
+  | 'scan.failed'
+  | 'scan.cancelled'
+  | 'library.changed'
+  | 'settings.changed';
+
+/**
+ * Published event
+ */
+export interface ServerEvent {
+  id: number;
+  type: ServerEventType;
+  data: Record<string, any>;
+  timestamp: string;
+}
+
+export type ServerEventListener = (event: ServerEvent) => void;
+
+/**
+ * Event bus for the server-sent event stream
+ * Keeps the last config.events.bufferSize events so reconnecting clients
+ * can replay what they missed (Last-Event-ID)
+ */
+class EventsService {
+  private buffer: ServerEvent[];
+  private nextId: number;
+  private listeners: Set<ServerEventListener>;
+
+  constructor() {
+    this.buffer = [];
+    this.nextId = 1;
+    this.listeners = new Set();
+  }
+
+  /**
+   * Publish an event to all subscribers
+   * @param type - Event type
+   * @param data - Event payload (JSON-serializable)
+   * @returns Published event
+   */
+  publish(type: ServerEventType, data: Record<string, any>): ServerEvent {
+    const event: ServerEvent = {
+      id: this.nextId++,
+      type,
+      data,
+      timestamp: new Date().toISOString()
+    };
+
+    this.buffer.push(event);
+    if (this.buffer.length > config.events.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - config.events.bufferSize);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error: any) {
+        logger.warn('Event listener failed', { type, error: error.message });
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Subscribe to events
+   * @returns Function that removes the subscription
+   */
+  subscribe(listener: ServerEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get buffered events published after an event ID
+   * @param lastEventId - Last event ID the client received
+   * @returns Missed events, or null if some were already dropped from the buffer
+   *          or the ID is unknown (e.g. issued before a server restart)
+   */
+  getEventsSince(lastEventId: number): ServerEvent[] | null {
+    const latestId = this.nextId - 1;
+    if (lastEventId > latestId) {
+      return null;
+    }
+
+    const oldestId = this.buffer.length > 0 ? this.buffer[0].id : this.nextId;
+    if (lastEventId < oldestId - 1) {
+      return null;
+    }
+
+    return this.buffer.filter(event => event.id > lastEventId);
+  }
+
+  /**
+   * Number of connected subscribers
+   */
+  getSubscriberCount(): number {
+    return this.listeners.size;
+  }
+}
+
+export default new EventsService();
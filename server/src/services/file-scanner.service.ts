@@ -1,14 +1,25 @@
+import path from 'path';
+import { createHash } from 'crypto';
 import logger from '../config/logger';
+import config from '../config';
 import imdbService from './imdb.service';
+import mediaProbeService, { MediaInfo } from './media-probe.service';
 import db from './database.service';
-import { FileRecord } from '../types/database';
+import eventsService from './events.service';
+import { FileHashes, FileMove, FileRecord, FileSidecars, WatchFolder } from '../types/database';
 import { createStorageProvider } from './file-scanner/factory';
-import { RawFile } from './file-scanner/interface';
+import { IStorageProvider, RawFile, StorageUnavailableError } from './file-scanner/interface';
+import { isSubtitleFile, parseSidecarName } from '../utils/subtitle-utils';
+
+// Bytes read from the start and from the end of a file for its content hashes
+const HASH_CHUNK_SIZE = 64 * 1024;
+const UINT64_MASK = (BigInt(1) << BigInt(64)) - BigInt(1);
 
 interface ProcessResult {
   filesToUpdate: FileRecord[];
   processedCount: number;
   skippedCount: number;
+  restoredCount: number; // Files restored from the trash (part of filesToUpdate)
 }
 
 interface ScanResult {
@@ -16,21 +27,75 @@ interface ScanResult {
   filesFound: number;
   processedCount: number;
   skippedCount: number;
+  restoredCount: number;
+  movedCount: number; // Files moved or renamed on storage (path updated, ID kept)
   removedCount: number;
+  pendingCount: number;
+  unavailableReason: string | null; // Set when removal was refused by the mass-deletion guard
   duration: number;
 }
 
+interface SyncResult {
+  changedPaths: number;
+  processedCount: number;
+  skippedCount: number;
+  restoredCount: number;
+  movedCount: number;
+  removedCount: number;
+  pendingPaths: string[];
+  duration: number;
+}
+
+/**
+ * Progress of a running scan
+ */
+export interface ScanProgress {
+  phase: ScanPhase;
+  filesFound: number; // Files discovered on storage (0 while discovering)
+  total: number; // Files to process (stable files)
+  processed: number; // Files handled so far (processed or skipped)
+  currentFile: string | null;
+}
+
+export type ScanPhase = 'discovering' | 'processing' | 'persisting' | 'cleanup';
+
+export type ScanProgressHandler = (progress: ScanProgress) => void;
+
+/**
+ * File deferred by the stability window (modified too recently, likely still being written)
+ */
+export interface PendingFile {
+  path: string;
+  name: string;
+  size: number;
+  mtime: number;
+  firstSeenAt: string;
+  lastCheckedAt: string;
+}
+
 /**
  * File scanner service with database persistence
  * Orchestrates storage providers and processes files
  */
 class FileScannerService {
+  private pendingFiles: Map<number, Map<string, PendingFile>>; // Per watch folder, keyed by path
+  private probeFailures: Map<string, number>; // mtime of files ffprobe failed on, keyed by watch folder ID and path
+
+  constructor() {
+    this.pendingFiles = new Map();
+    this.probeFailures = new Map();
+  }
+
   /**
    * Scan filesystem and sync with database
+   * Cancellation (signal) is honoured during discovery and processing; once files are
+   * being persisted the scan runs to completion. A cancelled scan removes no files.
    * @param watchFolderId - Watch folder ID to scan (required)
+   * @param onProgress - Optional progress handler
+   * @param signal - Optional abort signal to cancel the scan
    * @returns Scan results
    */
-  async scan(watchFolderId: number): Promise<ScanResult> {
+  async scan(watchFolderId: number, onProgress?: ScanProgressHandler, signal?: AbortSignal): Promise<ScanResult> {
     // Get watch folder configuration
     const watchFolder = await db.getWatchFolderById(watchFolderId);
     if (!watchFolder) {
@@ -58,29 +123,87 @@ class FileScannerService {
       }
 
       // Step 1: Scan storage (only file discovery)
+      onProgress?.({ phase: 'discovering', filesFound: 0, total: 0, processed: 0, currentFile: null });
       const rawFiles = await provider.scan(watchFolder, {
         allowedExtensions,
         minVideoSizeMB,
         temporaryExtensions,
         basePath: '' // Start with empty base path for relative paths
-      });
+      }, signal);
 
       // Extract all paths from raw files (for cleanup)
+      // Pending files are included so an indexed file being overwritten is not removed
       const allPaths = rawFiles.map(f => f.path);
 
-      // Step 2: Process files (DB checks, IMDB lookups, filtering)
-      const processResult = await this._processFiles(rawFiles, watchFolderId);
+      // Defer files still inside the stability window to the next pass
+      const { stableFiles, unstableFiles } = this._splitByStability(rawFiles, watchFolder);
+      this._updatePendingFiles(watchFolderId, unstableFiles);
 
-      // Step 3: Update database with files that need changes
-      if (processResult.filesToUpdate.length > 0) {
-        await db.upsertFilesBatch(processResult.filesToUpdate);
+      // Step 2: Match files that disappeared to new ones (moved or renamed), so they keep ID and match
+      const storedFiles = await db.getFilesByFilter({ watch_folder_id: watchFolderId });
+      const foundPaths = new Set(allPaths);
+      const moves = await this._detectMoves(
+        provider,
+        watchFolder,
+        storedFiles.filter(file => !foundPaths.has(file.path)),
+        stableFiles,
+        storedFiles,
+        signal
+      );
+      const movedPaths = new Set(moves.map(move => move.path));
+
+      // Step 3: Process files (DB checks, IMDB lookups, filtering)
+      const processResult = await this._processFiles(stableFiles.filter(f => !movedPaths.has(f.path)), watchFolderId, progress => {
+        onProgress?.({ ...progress, filesFound: rawFiles.length });
+      }, signal);
+      const stablePaths = new Set(stableFiles.map(f => f.path));
+      const fileHashes = await this._assignFileHashes(
+        provider,
+        watchFolder,
+        processResult.filesToUpdate,
+        storedFiles.filter(file => stablePaths.has(file.path)),
+        signal
+      );
+
+      // Last point to cancel: database writes and cleanup below always run together
+      signal?.throwIfAborted();
+
+      // Step 4: Update database with moved files and files that need changes
+      const progressDone = { filesFound: rawFiles.length, total: stableFiles.length, processed: stableFiles.length, currentFile: null };
+      onProgress?.({ phase: 'persisting', ...progressDone });
+      const movedCount = moves.length > 0 ? await db.moveFiles(moves) : 0;
+      const upserted = processResult.filesToUpdate.length > 0
+        ? await db.upsertFilesBatch(processResult.filesToUpdate)
+        : { added: 0, updated: 0 };
+      if (fileHashes.length > 0) {
+        await db.setFileHashes(fileHashes);
       }
+      const subtitleChanges = await db.syncSidecarSubtitles(watchFolderId, this._toFileSidecars(stableFiles));
+
+      // Step 5: Cleanup - remove files that no longer exist on storage for this watch folder
+      // unless so many would go that the share is more likely missing than emptied
+      onProgress?.({ phase: 'cleanup', ...progressDone });
+      const existingPaths = await db.getFilePaths(watchFolderId);
+      const missingCount = existingPaths.filter(p => !foundPaths.has(p)).length;
+      const unavailableReason = this._checkRemovalGuard(watchFolder, existingPaths.length, missingCount, allPaths.length);
 
-      // Step 4: Cleanup - remove files that no longer exist on storage for this watch folder
-      const removedCount = await db.removeFilesNotInList(allPaths, watchFolderId);
+      let removedCount = 0;
+      if (unavailableReason) {
+        logger.warn('Refusing to remove files, marking watch folder unavailable', {
+          watchFolderId,
+          reason: unavailableReason
+        });
+      } else {
+        removedCount = await db.removeFilesNotInList(allPaths, watchFolderId);
+      }
+      await this._updateAvailability(watchFolder, unavailableReason);
+      this._publishLibraryChange(watchFolderId, upserted.added, upserted.updated + movedCount, removedCount);
 
+      if (movedCount > 0) {
+        logger.info('Updated paths of moved files', { count: movedCount });
+      }
       if (removedCount > 0) {
-        logger.info('Removed deleted files from database', { count: removedCount });
+        logger.info('Moved deleted files to trash', { count: removedCount });
       }
 
       const duration = Date.now() - startTime;
@@ -95,12 +218,21 @@ class FileScannerService {
         watchFolderId: watchFolderId
       });
 
+      // Drop change feed entries past retention
+      const retentionMs = config.changeFeed.retentionDays * 24 * 60 * 60 * 1000;
+      await db.pruneFileChanges(new Date(Date.now() - retentionMs));
+
       logger.info('Filesystem scan completed and synced to database', {
         watchFolderId: watchFolderId,
         fileCount: allPaths.length,
         processedCount: processResult.processedCount || 0,
         skippedCount: processResult.skippedCount || 0,
+        restoredCount: processResult.restoredCount,
+        movedCount,
         removedCount,
+        subtitleChanges,
+        pendingCount: unstableFiles.length,
+        unavailableReason,
         duration: `${duration}ms`
       });
 
@@ -109,12 +241,30 @@ class FileScannerService {
         filesFound: allPaths.length,
         processedCount: processResult.processedCount || 0,
         skippedCount: processResult.skippedCount || 0,
+        restoredCount: processResult.restoredCount,
+        movedCount,
         removedCount,
+        pendingCount: unstableFiles.length,
+        unavailableReason,
         duration
       };
     } catch (error: any) {
       const duration = Date.now() - startTime;
 
+      if (signal?.aborted) {
+        logger.info('Filesystem scan cancelled', { watchFolderId, duration: `${duration}ms` });
+
+        // Record cancelled scan (nothing was written or removed)
+        await db.recordScan({
+          filesFound: 0,
+          duration,
+          status: 'cancelled',
+          watchFolderId: watchFolderId
+        });
+
+        throw error;
+      }
+
       logger.error('Filesystem scan failed', {
         watchFolderId: watchFolderId,
         error: error.message,
@@ -122,6 +272,10 @@ class FileScannerService {
         duration: `${duration}ms`
       });
 
+      if (error instanceof StorageUnavailableError) {
+        await this._updateAvailability(watchFolder, error.message);
+      }
+
       // Record failed scan
       await db.recordScan({
         filesFound: 0,
@@ -146,6 +300,167 @@ class FileScannerService {
     }
   }
 
+  /**
+   * Sync only the given paths with the database (incremental update, used by live watch)
+   * Existing files go through the same processing as a full scan; paths that no longer
+   * exist (or are filtered out) are removed, including everything below a removed directory
+   * @param watchFolderId - Watch folder ID
+   * @param changedPaths - Paths relative to the watch folder root
+   * @returns Sync results
+   */
+  async syncPaths(watchFolderId: number, changedPaths: string[]): Promise<SyncResult> {
+    const watchFolder = await db.getWatchFolderById(watchFolderId);
+    if (!watchFolder) {
+      throw new Error(`Watch folder with ID ${watchFolderId} not found`);
+    }
+
+    const startTime = Date.now();
+    const provider = createStorageProvider(watchFolder);
+    const scanOptions = {
+      allowedExtensions: watchFolder.allowed_extensions,
+      minVideoSizeMB: watchFolder.min_video_size_mb,
+      temporaryExtensions: watchFolder.temporary_extensions,
+      basePath: ''
+    };
+
+    // Step 1: Resolve each changed path to current file data (null = gone or filtered out)
+    // Subtitle files are not indexed themselves, they update the sidecars of their videos
+    const rawFiles: RawFile[] = [];
+    const removedPaths: string[] = [];
+    const subtitlePaths = changedPaths.filter(changedPath => isSubtitleFile(changedPath));
+    for (const changedPath of changedPaths.filter(p => !isSubtitleFile(p))) {
+      const rawFile = await provider.getRawFile(watchFolder, changedPath, scanOptions);
+      if (rawFile) {
+        rawFiles.push(rawFile);
+      } else {
+        removedPaths.push(changedPath);
+      }
+    }
+
+    // Defer files still inside the stability window (caller re-checks them later)
+    const { stableFiles, unstableFiles } = this._splitByStability(rawFiles, watchFolder);
+    this._updatePendingFiles(watchFolderId, unstableFiles, changedPaths);
+
+    // Step 2: A move shows up as a removed and an added path, usually in the same batch
+    let moves: FileMove[] = [];
+    if (removedPaths.length > 0 && stableFiles.length > 0) {
+      const storedFiles = await db.getFilesByFilter({ watch_folder_id: watchFolderId });
+      moves = await this._detectMoves(
+        provider,
+        watchFolder,
+        this._filterUnderPaths(storedFiles, removedPaths),
+        stableFiles,
+        storedFiles
+      );
+    }
+    const movedPaths = new Set(moves.map(move => move.path));
+    const movedCount = moves.length > 0 ? await db.moveFiles(moves) : 0;
+
+    // Step 3: Process and upsert present files (hashes of unchanged files are left to full scans)
+    const processResult = await this._processFiles(stableFiles.filter(f => !movedPaths.has(f.path)), watchFolderId);
+    const fileHashes = await this._assignFileHashes(provider, watchFolder, processResult.filesToUpdate, []);
+    const upserted = processResult.filesToUpdate.length > 0
+      ? await db.upsertFilesBatch(processResult.filesToUpdate)
+      : { added: 0, updated: 0 };
+    if (fileHashes.length > 0) {
+      await db.setFileHashes(fileHashes);
+    }
+    const subtitleChanges = await db.syncSidecarSubtitles(
+      watchFolderId,
+      await this._collectSidecars(provider, watchFolder, stableFiles, subtitlePaths)
+    );
+
+    // Step 4: Remove files (or directories) that disappeared
+    // Same guard as full scans: an unmounted share reports everything as removed
+    let removedCount = 0;
+    if (removedPaths.length > 0) {
+      const existingPaths = await db.getFilePaths(watchFolderId);
+      const missingCount = this._countUnderPaths(existingPaths, removedPaths);
+      const unavailableReason = this._checkRemovalGuard(
+        watchFolder,
+        existingPaths.length,
+        missingCount,
+        existingPaths.length - missingCount
+      );
+
+      if (unavailableReason) {
+        logger.warn('Refusing to remove files from live watch, marking watch folder unavailable', {
+          watchFolderId,
+          reason: unavailableReason
+        });
+        await this._updateAvailability(watchFolder, unavailableReason);
+      } else {
+        for (const removedPath of removedPaths) {
+          removedCount += await db.removeFilesUnderPath(removedPath, watchFolderId);
+        }
+      }
+    }
+    this._publishLibraryChange(watchFolderId, upserted.added, upserted.updated + movedCount, removedCount);
+
+    const duration = Date.now() - startTime;
+
+    logger.info('Incremental sync completed', {
+      watchFolderId,
+      changedPaths: changedPaths.length,
+      processedCount: processResult.processedCount,
+      skippedCount: processResult.skippedCount,
+      restoredCount: processResult.restoredCount,
+      movedCount,
+      removedCount,
+      subtitleChanges,
+      pendingCount: unstableFiles.length,
+      duration: `${duration}ms`
+    });
+
+    return {
+      changedPaths: changedPaths.length,
+      processedCount: processResult.processedCount,
+      skippedCount: processResult.skippedCount,
+      restoredCount: processResult.restoredCount,
+      movedCount,
+      removedCount,
+      pendingPaths: unstableFiles.map(f => f.path),
+      duration
+    };
+  }
+
+  /**
+   * Sidecar subtitles of files whose provider collected them
+   * @private
+   */
+  private _toFileSidecars(rawFiles: RawFile[]): FileSidecars[] {
+    return rawFiles
+      .filter(rawFile => rawFile.subtitles !== undefined)
+      .map(rawFile => ({ path: rawFile.path, subtitles: rawFile.subtitles! }));
+  }
+
+  /**
+   * Sidecar subtitles of synced files, plus of stored videos named like changed subtitle files
+   * @private
+   */
+  private async _collectSidecars(
+    provider: IStorageProvider,
+    watchFolder: WatchFolder,
+    rawFiles: RawFile[],
+    subtitlePaths: string[]
+  ): Promise<FileSidecars[]> {
+    const sidecars = this._toFileSidecars(rawFiles);
+    if (subtitlePaths.length === 0 || !provider.getSidecarSubtitles) {
+      return sidecars;
+    }
+
+    const syncedPaths = new Set(sidecars.map(file => file.path));
+    const storedFiles = await db.getFilesByFilter({ watch_folder_id: watchFolder.id });
+    const videos = storedFiles.filter(file => !syncedPaths.has(file.path) && subtitlePaths.some(subtitlePath =>
+      path.dirname(subtitlePath) === path.dirname(file.path) &&
+      parseSidecarName(file.name, path.basename(subtitlePath)) !== null
+    ));
+    for (const video of videos) {
+      sidecars.push({ path: video.path, subtitles: await provider.getSidecarSubtitles(watchFolder, video.path) });
+    }
+    return sidecars;
+  }
+
   /**
    * Disconnect from storage (for providers that support it)
    * Generic method that works for any storage type (network, S3, etc.)
@@ -175,21 +490,403 @@ class FileScannerService {
     }
   }
 
+  /**
+   * Get files deferred by the stability window for a watch folder
+   * @param watchFolderId - Watch folder ID
+   */
+  getPendingFiles(watchFolderId: number): PendingFile[] {
+    return Array.from(this.pendingFiles.get(watchFolderId)?.values() || []);
+  }
+
+  /**
+   * Forget pending files of a watch folder (e.g. when it is deleted)
+   * @param watchFolderId - Watch folder ID
+   */
+  clearPendingFiles(watchFolderId: number): void {
+    this.pendingFiles.delete(watchFolderId);
+  }
+
+  /**
+   * Split files into stable ones and ones modified within the watch folder's stability window
+   * @private
+   */
+  private _splitByStability(
+    rawFiles: RawFile[],
+    watchFolder: WatchFolder
+  ): { stableFiles: RawFile[]; unstableFiles: RawFile[] } {
+    const windowMs = (watchFolder.stability_window_seconds || 0) * 1000;
+    if (windowMs <= 0) {
+      return { stableFiles: rawFiles, unstableFiles: [] };
+    }
+
+    const now = Date.now();
+    const stableFiles: RawFile[] = [];
+    const unstableFiles: RawFile[] = [];
+    for (const rawFile of rawFiles) {
+      if (now - rawFile.mtime < windowMs) {
+        logger.debug('File modified within stability window, deferring', {
+          name: rawFile.name,
+          path: rawFile.path,
+          size: rawFile.size
+        });
+        unstableFiles.push(rawFile);
+      } else {
+        stableFiles.push(rawFile);
+      }
+    }
+
+    return { stableFiles, unstableFiles };
+  }
+
+  /**
+   * Update the pending list of a watch folder
+   * @param checkedPaths - Paths that were checked; omit for a full scan (replaces the whole list)
+   * @private
+   */
+  private _updatePendingFiles(watchFolderId: number, unstableFiles: RawFile[], checkedPaths?: string[]): void {
+    const previous = this.pendingFiles.get(watchFolderId) || new Map<string, PendingFile>();
+    const pending = checkedPaths ? new Map(previous) : new Map<string, PendingFile>();
+
+    if (checkedPaths) {
+      // A removed directory also clears pending files below it
+      for (const checkedPath of checkedPaths) {
+        const dirPrefix = checkedPath + path.sep;
+        for (const pendingPath of Array.from(pending.keys())) {
+          if (pendingPath === checkedPath || pendingPath.startsWith(dirPrefix)) {
+            pending.delete(pendingPath);
+          }
+        }
+      }
+    }
+
+    const now = new Date().toISOString();
+    for (const rawFile of unstableFiles) {
+      pending.set(rawFile.path, {
+        path: rawFile.path,
+        name: rawFile.name,
+        size: rawFile.size,
+        mtime: rawFile.mtime,
+        firstSeenAt: previous.get(rawFile.path)?.firstSeenAt || now,
+        lastCheckedAt: now
+      });
+    }
+
+    if (pending.size > 0) {
+      this.pendingFiles.set(watchFolderId, pending);
+    } else {
+      this.pendingFiles.delete(watchFolderId);
+    }
+  }
+
+  /**
+   * Publish a library change event if files were added, updated or removed
+   * Clients fetch the details from the change feed (GET /api/files/changes)
+   * @private
+   */
+  private _publishLibraryChange(watchFolderId: number, added: number, updated: number, removed: number): void {
+    if (added === 0 && updated === 0 && removed === 0) {
+      return;
+    }
+    eventsService.publish('library.changed', { watchFolderId, added, updated, removed });
+  }
+
+  /**
+   * Mass-deletion guard: decide whether missing files may be removed
+   * Refuses when the folder looks empty or more than max_removal_percent of its files would go
+   * @private
+   * @returns Reason to refuse removal, or null if it is safe
+   */
+  private _checkRemovalGuard(
+    watchFolder: WatchFolder,
+    existingCount: number,
+    missingCount: number,
+    remainingCount: number
+  ): string | null {
+    const maxPercent = watchFolder.max_removal_percent ?? 50;
+    if (missingCount === 0 || maxPercent >= 100) {
+      return null;
+    }
+
+    if (remainingCount === 0) {
+      return `Watch folder is empty, all ${existingCount} indexed files would be removed`;
+    }
+
+    const percent = (missingCount / existingCount) * 100;
+    if (percent > maxPercent) {
+      return `${missingCount} of ${existingCount} indexed files (${Math.round(percent)}%) would be removed, limit is ${maxPercent}%`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Count stored paths equal to or below any of the given paths
+   * @private
+   */
+  private _countUnderPaths(storedPaths: string[], paths: string[]): number {
+    const pathSet = new Set(paths.map(p => p.replace(/[\\/]+$/, '')));
+    return storedPaths.filter(storedPath => this._isUnderPaths(storedPath, pathSet)).length;
+  }
+
+  /**
+   * Get stored files equal to or below any of the given paths
+   * @private
+   */
+  private _filterUnderPaths(storedFiles: FileRecord[], paths: string[]): FileRecord[] {
+    const pathSet = new Set(paths.map(p => p.replace(/[\\/]+$/, '')));
+    return storedFiles.filter(file => this._isUnderPaths(file.path, pathSet));
+  }
+
+  /**
+   * Check if a path is equal to or below any path of a set
+   * @private
+   */
+  private _isUnderPaths(storedPath: string, pathSet: Set<string>): boolean {
+    // Walk up the directory chain instead of comparing against every path
+    for (let current = storedPath; current && current !== '.'; current = path.dirname(current)) {
+      if (pathSet.has(current)) {
+        return true;
+      }
+      if (path.dirname(current) === current) {
+        break;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Mark a watch folder unavailable (with reason) or available again, writing only on change
+   * @private
+   */
+  private async _updateAvailability(watchFolder: WatchFolder, unavailableReason: string | null): Promise<void> {
+    if ((watchFolder.unavailable_reason ?? null) === unavailableReason) {
+      return;
+    }
+
+    await db.setWatchFolderUnavailable(watchFolder.id!, unavailableReason);
+    watchFolder.unavailable_reason = unavailableReason;
+    if (!unavailableReason) {
+      logger.info('Watch folder available again', { watchFolderId: watchFolder.id });
+    }
+  }
+
+  /**
+   * Match stored files that disappeared to new files with the same size and mtime
+   * With MOVE_DETECTION_HASH a stored partial hash has to match as well (and resolves
+   * several candidates); otherwise only an unambiguous pair is taken as a move
+   * @private
+   * @param missingFiles - Stored files no longer found at their path
+   * @param rawFiles - Files found on storage
+   * @param storedFiles - All stored files of the watch folder
+   * @returns New path (and name) per moved file
+   */
+  private async _detectMoves(
+    provider: IStorageProvider,
+    watchFolder: WatchFolder,
+    missingFiles: FileRecord[],
+    rawFiles: RawFile[],
+    storedFiles: FileRecord[],
+    signal?: AbortSignal
+  ): Promise<FileMove[]> {
+    if (missingFiles.length === 0) {
+      return [];
+    }
+
+    const moveKey = (file: { size: number; mtime: number }) => `${file.size}:${file.mtime}`;
+    const missingByKey = new Map<string, FileRecord[]>();
+    for (const file of missingFiles) {
+      const key = moveKey(file);
+      missingByKey.set(key, [...(missingByKey.get(key) || []), file]);
+    }
+
+    const storedPaths = new Set(storedFiles.map(file => file.path));
+    const newByKey = new Map<string, RawFile[]>();
+    for (const rawFile of rawFiles) {
+      const key = moveKey(rawFile);
+      if (!storedPaths.has(rawFile.path) && missingByKey.has(key)) {
+        newByKey.set(key, [...(newByKey.get(key) || []), rawFile]);
+      }
+    }
+
+    const moves: FileMove[] = [];
+    for (const [key, newFiles] of newByKey) {
+      signal?.throwIfAborted();
+      let candidates = missingByKey.get(key)!;
+      let unmatched = newFiles;
+
+      if (config.scanner.moveDetectionHash) {
+        unmatched = [];
+        for (const rawFile of newFiles) {
+          const hash = (await this._hashFile(provider, watchFolder, rawFile.path, rawFile.size))?.partial_hash;
+          const candidate = hash ? candidates.find(file => file.partial_hash === hash) : undefined;
+          if (candidate) {
+            moves.push({ id: candidate.id!, path: rawFile.path, name: rawFile.name });
+            candidates = candidates.filter(file => file !== candidate);
+          } else {
+            unmatched.push(rawFile);
+          }
+        }
+        // A stored hash that matched none of the new files belongs to a different file
+        candidates = candidates.filter(file => !file.partial_hash);
+      }
+
+      if (unmatched.length === 1 && candidates.length === 1) {
+        moves.push({ id: candidates[0].id!, path: unmatched[0].path, name: unmatched[0].name });
+      } else if (unmatched.length > 0 && candidates.length > 0) {
+        logger.debug('Ambiguous move candidates, treating as removed and added', {
+          watchFolderId: watchFolder.id,
+          newPaths: unmatched.map(f => f.path),
+          missingPaths: candidates.map(f => f.path)
+        });
+      }
+    }
+
+    for (const move of moves) {
+      logger.debug('File moved', {
+        id: move.id,
+        from: missingFiles.find(file => file.id === move.id)?.path,
+        to: move.path
+      });
+    }
+    return moves;
+  }
+
+  /**
+   * Compute content hashes enabled in config (partial hash, fingerprint): set on files about
+   * to be upserted, and returned for stored files that are missing one
+   * @private
+   * @param filesToUpdate - Files about to be upserted (hashes set in place)
+   * @param storedFiles - Stored files found on storage (backfilled if a hash is missing)
+   * @returns Hashes to store for files that are not upserted
+   */
+  private async _assignFileHashes(
+    provider: IStorageProvider,
+    watchFolder: WatchFolder,
+    filesToUpdate: FileRecord[],
+    storedFiles: FileRecord[],
+    signal?: AbortSignal
+  ): Promise<FileHashes[]> {
+    const { moveDetectionHash, fingerprint } = config.scanner;
+    if (!moveDetectionHash && !fingerprint) {
+      return [];
+    }
+
+    for (const file of filesToUpdate) {
+      signal?.throwIfAborted();
+      Object.assign(file, await this._hashFile(provider, watchFolder, file.path, file.size));
+    }
+
+    const updatedPaths = new Set(filesToUpdate.map(file => file.path));
+    const missingHashes: FileHashes[] = [];
+    for (const file of storedFiles) {
+      const complete = (!moveDetectionHash || file.partial_hash) && (!fingerprint || file.fingerprint);
+      if (complete || updatedPaths.has(file.path)) {
+        continue;
+      }
+      signal?.throwIfAborted();
+      const hashes = await this._hashFile(provider, watchFolder, file.path, file.size);
+      if (hashes) {
+        missingHashes.push({ id: file.id!, ...hashes });
+      }
+    }
+    return missingHashes;
+  }
+
+  /**
+   * Hash a file's size, first and last HASH_CHUNK_SIZE bytes (the hashes enabled in config)
+   * Cheap enough for every file: only the two chunks are read, whatever the file size
+   * - partial_hash: SHA-1, distinguishes files with equal size and mtime (move detection)
+   * - fingerprint: OpenSubtitles hash, identifies the same content in any folder (duplicates)
+   * @private
+   * @returns Hashes, or null if the file could not be read
+   */
+  private async _hashFile(
+    provider: IStorageProvider,
+    watchFolder: WatchFolder,
+    relativePath: string,
+    size: number
+  ): Promise<Omit<FileHashes, 'id'> | null> {
+    const ranges = [
+      { start: 0, end: Math.min(size, HASH_CHUNK_SIZE) - 1 },
+      { start: Math.max(0, size - HASH_CHUNK_SIZE), end: size - 1 }
+    ];
+
+    const chunks: Buffer[] = [];
+    try {
+      for (const range of ranges) {
+        const parts: Buffer[] = [];
+        if (range.end >= range.start) {
+          const stream = await provider.createReadStream(watchFolder, relativePath, range);
+          for await (const part of stream) {
+            parts.push(part);
+          }
+        }
+        chunks.push(Buffer.concat(parts));
+      }
+    } catch (error: any) {
+      logger.warn('Failed to hash file', { path: relativePath, error: error.message });
+      return null;
+    }
+
+    const hashes: Omit<FileHashes, 'id'> = {};
+    if (config.scanner.moveDetectionHash) {
+      const sha1 = createHash('sha1');
+      sha1.update(String(size));
+      chunks.forEach(chunk => sha1.update(chunk));
+      hashes.partial_hash = sha1.digest('hex');
+    }
+    if (config.scanner.fingerprint) {
+      hashes.fingerprint = this._openSubtitlesHash(size, chunks);
+    }
+    return hashes;
+  }
+
+  /**
+   * OpenSubtitles hash: file size plus the 64-bit little-endian words of the head and tail chunks,
+   * summed modulo 2^64, as 16 hex digits
+   * @private
+   */
+  private _openSubtitlesHash(size: number, chunks: Buffer[]): string {
+    let sum = BigInt(size);
+    for (const chunk of chunks) {
+      for (let offset = 0; offset + 8 <= chunk.length; offset += 8) {
+        sum = (sum + chunk.readBigUInt64LE(offset)) & UINT64_MASK;
+      }
+    }
+    return sum.toString(16).padStart(16, '0');
+  }
+
   /**
    * Process raw file data: check DB, IMDB lookups, build file info
    * Returns only files that need database updates
    * @private
    */
-  private async _processFiles(rawFiles: RawFile[], watchFolderId: number): Promise<ProcessResult> {
+  private async _processFiles(
+    rawFiles: RawFile[],
+    watchFolderId: number,
+    onProgress?: ScanProgressHandler,
+    signal?: AbortSignal
+  ): Promise<ProcessResult> {
     const filesToUpdate: FileRecord[] = []; // Only files that need DB updates
+    const restoredIds: number[] = []; // Trashed files already claimed by this batch
     let processedCount = 0;
     let skippedCount = 0;
+    let restoredCount = 0;
 
     for (const rawFile of rawFiles) {
+      signal?.throwIfAborted();
+      onProgress?.({
+        phase: 'processing',
+        filesFound: rawFiles.length,
+        total: rawFiles.length,
+        processed: processedCount + skippedCount + restoredCount,
+        currentFile: rawFile.path
+      });
+
       // Check if file exists in database
       const existingFile = await db.getFileByPath(rawFile.path);
 
-      // Check if file is unchanged
+      // Check if file is unchanged (matched or not - unmatched files are not re-parsed either)
       if (
         existingFile &&
         existingFile.size === rawFile.size &&
@@ -197,6 +894,19 @@ class FileScannerService {
         existingFile.mtime > 0 &&
         existingFile.mtime === rawFile.mtime
       ) {
+        // Indexed before probing was enabled (or before playback modes were stored): probe once
+        // (a failed probe is retried when the file changes)
+        if (config.probe.enabled && (!existingFile.probedAt || !existingFile.playback)) {
+          const mediaInfo = await this._probeFile(watchFolderId, rawFile);
+          if (mediaInfo) {
+            const probedFile: FileRecord = { ...existingFile };
+            this._applyMediaInfo(probedFile, mediaInfo);
+            filesToUpdate.push(probedFile);
+            processedCount++;
+            continue;
+          }
+        }
+
         // File unchanged - skip DB update
         skippedCount++;
         logger.debug('File unchanged, skipping DB update', {
@@ -206,58 +916,161 @@ class FileScannerService {
         continue; // Don't add to filesToUpdate
       }
 
-      // File is new or changed - process it
-      processedCount++;
-      const imdbInfo = await imdbService.processFile(rawFile.fullPath, rawFile.name, rawFile.size);
-
-      if (imdbInfo.imdb_id) {
-        // Build file info object (id will be set by database auto-increment)
-        const fileInfo: FileRecord = {
-          name: rawFile.name,
+      // Not indexed: a file that comes back (same path, or moved with the same name and size)
+      // is restored from the trash with its match and overrides instead of being matched again
+      const trashedFile = existingFile
+        ? null
+        : await db.findDeletedFile(rawFile.path, rawFile.name, rawFile.size, restoredIds);
+      if (trashedFile && trashedFile.size === rawFile.size) {
+        restoredIds.push(trashedFile.id!);
+        restoredCount++;
+        filesToUpdate.push({
+          ...trashedFile,
           path: rawFile.path,
           size: rawFile.size,
           mtime: rawFile.mtime,
-          parsedName: imdbInfo.parsedName,
-          type: imdbInfo.type, // movie or series
-          imdb_id: imdbInfo.imdb_id,
-          season: imdbInfo.season,
-          episode: imdbInfo.episode,
-          resolution: imdbInfo.resolution || null,
-          source: imdbInfo.source || null,
-          videoCodec: imdbInfo.videoCodec || null,
-          audioCodec: imdbInfo.audioCodec || null,
-          audioChannels: imdbInfo.audioChannels || null,
-          languages: imdbInfo.languages || null,
-          releaseGroup: imdbInfo.releaseGroup || null,
-          flags: imdbInfo.flags || null,
-          edition: imdbInfo.edition || null,
-          imdbName: imdbInfo.imdbName || null,
-          imdbYear: imdbInfo.imdbYear || null,
-          imdbType: imdbInfo.imdbType || null,
-          yearRange: imdbInfo.yearRange || null,
-          image: imdbInfo.image || null,
-          starring: imdbInfo.starring || null,
-          similarity: imdbInfo.similarity || null,
-          watch_folder_id: watchFolderId
-        };
-
-        filesToUpdate.push(fileInfo);
-        logger.debug('File processed', {
+          watch_folder_id: watchFolderId,
+          deletedAt: undefined
+        });
+        logger.debug('File restored from trash', {
           name: rawFile.name,
           path: rawFile.path,
-          imdb_id: imdbInfo.imdb_id
+          previousPath: trashedFile.path,
+          imdb_id: trashedFile.imdb_id
         });
-      } else {
-        logger.debug('Skipping video file without IMDB ID', { name: rawFile.name });
+        continue;
+      }
+      // Same path but changed content: matched again below (a pinned match is still kept)
+      const storedFile = existingFile || trashedFile;
+
+      // File is new or changed - process it
+      processedCount++;
+      const imdbInfo = await imdbService.processFile(rawFile.fullPath, rawFile.name, rawFile.size);
+
+      // Files without IMDB ID are stored as unmatched so they are not re-parsed on every scan
+      const matchStatus = imdbInfo.imdb_id ? 'matched' : 'unmatched';
+      const locked = storedFile?.match_locked === true;
+
+      // Build file info object (id will be set by database auto-increment)
+      const fileInfo: FileRecord = {
+        name: rawFile.name,
+        path: rawFile.path,
+        size: rawFile.size,
+        mtime: rawFile.mtime,
+        parsedName: imdbInfo.parsedName,
+        type: imdbInfo.type, // movie or series
+        imdb_id: imdbInfo.imdb_id || null,
+        season: imdbInfo.season,
+        episode: imdbInfo.episode,
+        resolution: imdbInfo.resolution || null,
+        source: imdbInfo.source || null,
+        videoCodec: imdbInfo.videoCodec || null,
+        audioCodec: imdbInfo.audioCodec || null,
+        audioChannels: imdbInfo.audioChannels || null,
+        languages: imdbInfo.languages || null,
+        releaseGroup: imdbInfo.releaseGroup || null,
+        flags: imdbInfo.flags || null,
+        edition: imdbInfo.edition || null,
+        imdbName: imdbInfo.imdbName || null,
+        imdbYear: imdbInfo.imdbYear || null,
+        imdbType: imdbInfo.imdbType || null,
+        yearRange: imdbInfo.yearRange || null,
+        image: imdbInfo.image || null,
+        starring: imdbInfo.starring || null,
+        similarity: imdbInfo.similarity || null,
+        watch_folder_id: watchFolderId,
+        match_status: matchStatus,
+        // Tracks of the previous content are dropped unless the file is probed again
+        audioTracks: [],
+        subtitleTracks: []
+      };
+
+      // Real stream details win over the release name tags (unchanged when the probe fails)
+      if (config.probe.enabled) {
+        const mediaInfo = await this._probeFile(watchFolderId, rawFile);
+        if (mediaInfo) {
+          this._applyMediaInfo(fileInfo, mediaInfo);
+        }
       }
+
+      // Manually pinned matches are kept; only file and release details are refreshed
+      if (locked) {
+        Object.assign(fileInfo, {
+          type: storedFile.type,
+          imdb_id: storedFile.imdb_id,
+          season: storedFile.season ?? null,
+          episode: storedFile.episode ?? null,
+          imdbName: storedFile.imdbName ?? null,
+          imdbYear: storedFile.imdbYear ?? null,
+          imdbType: storedFile.imdbType ?? null,
+          yearRange: storedFile.yearRange ?? null,
+          image: storedFile.image ?? null,
+          starring: storedFile.starring ?? null,
+          similarity: storedFile.similarity ?? null,
+          match_status: 'matched',
+          match_locked: true
+        });
+      }
+
+      filesToUpdate.push(fileInfo);
+      logger.debug('File processed', {
+        name: rawFile.name,
+        path: rawFile.path,
+        imdb_id: fileInfo.imdb_id,
+        match_status: fileInfo.match_status,
+        locked
+      });
     }
 
     return {
       filesToUpdate,
       processedCount,
-      skippedCount
+      skippedCount,
+      restoredCount
     };
   }
+
+  /**
+   * Probe a file, unless ffprobe already failed on this version of it
+   * @private
+   */
+  private async _probeFile(watchFolderId: number, rawFile: RawFile): Promise<MediaInfo | null> {
+    const key = `${watchFolderId}:${rawFile.path}`;
+    if (this.probeFailures.get(key) === rawFile.mtime) {
+      return null;
+    }
+
+    const mediaInfo = await mediaProbeService.probe(rawFile.fullPath);
+    if (mediaInfo) {
+      this.probeFailures.delete(key);
+    } else {
+      this.probeFailures.set(key, rawFile.mtime);
+    }
+    return mediaInfo;
+  }
+
+  /**
+   * Overwrite parsed release details with probed values and attach the stream details and tracks
+   * @private
+   */
+  private _applyMediaInfo(fileInfo: FileRecord, mediaInfo: MediaInfo): void {
+    Object.assign(fileInfo, {
+      resolution: mediaInfo.resolution ?? fileInfo.resolution,
+      videoCodec: mediaInfo.videoCodec ?? fileInfo.videoCodec,
+      audioCodec: mediaInfo.audioCodec ?? fileInfo.audioCodec,
+      audioChannels: mediaInfo.audioChannels ?? fileInfo.audioChannels,
+      duration: mediaInfo.duration,
+      width: mediaInfo.width,
+      height: mediaInfo.height,
+      bitrate: mediaInfo.bitrate,
+      videoProfile: mediaInfo.videoProfile,
+      hdrFormat: mediaInfo.hdrFormat,
+      probedAt: new Date().toISOString(),
+      playback: mediaInfo.playback,
+      audioTracks: mediaInfo.audioTracks,
+      subtitleTracks: mediaInfo.subtitleTracks
+    });
+  }
 }
 
 export default new FileScannerService();
@@ -1,4 +1,5 @@
-import { WatchFolder } from '../../types/database';
+import { Readable } from 'stream';
+import { SidecarSubtitle, WatchFolder } from '../../types/database';
 
 /**
  * Raw file data structure returned by storage providers
@@ -10,6 +11,7 @@ export interface RawFile {
   size: number;
   mtime: number;
   ext: string;
+  subtitles?: SidecarSubtitle[]; // Sidecar subtitles next to the file (undefined if the provider does not collect them)
 }
 
 /**
@@ -22,6 +24,34 @@ export interface ScanOptions {
   basePath?: string; // For relative path calculation
 }
 
+/**
+ * File stats needed to serve stored content
+ */
+export interface StorageFileStats {
+  size: number;
+  mtime: number;
+}
+
+/**
+ * Options for opening a read stream on a stored file
+ */
+export interface ReadStreamOptions {
+  start?: number;
+  end?: number; // Inclusive, same semantics as fs.createReadStream
+  highWaterMark?: number;
+}
+
+/**
+ * Thrown by scan when the watch folder root cannot be read (unmounted share, unplugged disk)
+ * Distinguishes a missing root from an empty one, so files are not removed
+ */
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
 /**
  * Storage provider interface
  * Defines the contract for all storage providers (local, network, S3, etc.)
@@ -29,11 +59,59 @@ export interface ScanOptions {
 export interface IStorageProvider {
   /**
    * Scan storage and return raw file data
+   * Must reject with StorageUnavailableError if the root is missing or unreadable
+   * Must reject (never return a partial listing) once the signal is aborted
    * @param watchFolder - Watch folder configuration
    * @param options - Scanning options (extensions, size limits, etc.)
+   * @param signal - Optional abort signal to cancel discovery
    * @returns Array of raw file data
    */
-  scan(watchFolder: WatchFolder, options: ScanOptions): Promise<RawFile[]>;
+  scan(watchFolder: WatchFolder, options: ScanOptions, signal?: AbortSignal): Promise<RawFile[]>;
+
+  /**
+   * Get raw file data for a single path, applying the same filters as scan
+   * Used for incremental updates (live watch) instead of a full scan
+   * @param watchFolder - Watch folder configuration
+   * @param relativePath - File path relative to the watch folder root
+   * @param options - Scanning options (extensions, size limits, etc.)
+   * @returns Raw file data, or null if the file is missing or filtered out
+   */
+  getRawFile(watchFolder: WatchFolder, relativePath: string, options: ScanOptions): Promise<RawFile | null>;
+
+  /**
+   * Get the sidecar subtitles of a video (optional, for providers that collect them)
+   * Used for incremental updates when only a subtitle file changed
+   * @param watchFolder - Watch folder that owns the video
+   * @param videoPath - Video path relative to the watch folder root
+   * @returns Subtitle files matching the video's basename
+   */
+  getSidecarSubtitles?(watchFolder: WatchFolder, videoPath: string): Promise<SidecarSubtitle[]>;
+
+  /**
+   * Get size and modification time of a stored file
+   * @param watchFolder - Watch folder that owns the file
+   * @param relativePath - File path relative to the watch folder root (as stored by scan)
+   * @returns File stats
+   */
+  getFileStats(watchFolder: WatchFolder, relativePath: string): Promise<StorageFileStats>;
+
+  /**
+   * Open a read stream on a stored file, optionally limited to a byte range
+   * @param watchFolder - Watch folder that owns the file
+   * @param relativePath - File path relative to the watch folder root (as stored by scan)
+   * @param options - Byte range and buffer size
+   * @returns Readable stream of file content
+   */
+  createReadStream(watchFolder: WatchFolder, relativePath: string, options?: ReadStreamOptions): Promise<Readable>;
+
+  /**
+   * Get the path of a stored file on the server's filesystem (optional, for providers backed by one)
+   * Used by tools that need a file path instead of a stream (ffmpeg)
+   * @param watchFolder - Watch folder that owns the file
+   * @param relativePath - File path relative to the watch folder root (as stored by scan)
+   * @returns Absolute local path
+   */
+  getLocalPath?(watchFolder: WatchFolder, relativePath: string): Promise<string>;
 
   /**
    * Connect to storage (optional, for network/S3 providers)
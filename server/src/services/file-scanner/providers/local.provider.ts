@@ -1,8 +1,21 @@
-import { promises as fs } from 'fs';
+import { promises as fs, createReadStream } from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
 import logger from '../../../config/logger';
-import { IStorageProvider, RawFile, ScanOptions } from '../interface';
-import { WatchFolder } from '../../../types/database';
+import { IStorageProvider, RawFile, ScanOptions, StorageFileStats, ReadStreamOptions, StorageUnavailableError } from '../interface';
+import { SidecarSubtitle, WatchFolder } from '../../../types/database';
+import { isPathSafe } from '../../../utils/security-utils';
+import { isSubtitleFile, parseSidecarName } from '../../../utils/subtitle-utils';
+
+/**
+ * Subtitle file found while listing a directory (not yet matched to a video)
+ */
+interface SubtitleCandidate {
+  name: string;
+  path: string;
+  size: number;
+  mtime: number;
+}
 
 /**
  * Local filesystem storage provider
@@ -29,20 +42,132 @@ export class LocalStorageProvider implements IStorageProvider {
 
   /**
    * Scan local filesystem directory recursively
+   * Checks the abort signal between directory entries
    */
-  async scan(watchFolder: WatchFolder, options: ScanOptions): Promise<RawFile[]> {
+  async scan(watchFolder: WatchFolder, options: ScanOptions, signal?: AbortSignal): Promise<RawFile[]> {
     const dirPath = watchFolder.path;
     const basePath = options.basePath || '';
+
+    // Errors below the root are logged and skipped, a missing root must not look like an empty folder
+    try {
+      await fs.readdir(dirPath);
+    } catch (err: any) {
+      throw new StorageUnavailableError(`Watch folder root is not accessible: ${dirPath} (${err.code || err.message})`);
+    }
     
     return this._scanDirectory(
       dirPath,
       basePath,
       options.allowedExtensions,
       options.minVideoSizeMB,
-      options.temporaryExtensions
+      options.temporaryExtensions,
+      signal
     );
   }
 
+  /**
+   * Get raw file data for a single file inside the watch folder
+   * Returns null if the path does not exist, is not a file or is filtered out
+   */
+  async getRawFile(watchFolder: WatchFolder, relativePath: string, options: ScanOptions): Promise<RawFile | null> {
+    const fullPath = this._resolvePath(watchFolder.path, relativePath);
+    const name = path.basename(relativePath);
+    const ext = path.extname(name).toLowerCase();
+
+    if (!options.allowedExtensions.includes(ext)) {
+      return null;
+    }
+
+    let stats: import('fs').Stats;
+    try {
+      stats = await fs.stat(fullPath);
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+
+    if (!stats.isFile() || this._shouldSkipFile(name, stats, options.minVideoSizeMB, options.temporaryExtensions)) {
+      return null;
+    }
+
+    return {
+      name,
+      path: relativePath,
+      fullPath,
+      size: stats.size,
+      mtime: stats.mtime.getTime(),
+      ext,
+      subtitles: await this.getSidecarSubtitles(watchFolder, relativePath)
+    };
+  }
+
+  /**
+   * Get the sidecar subtitles of a video from its directory
+   */
+  async getSidecarSubtitles(watchFolder: WatchFolder, videoPath: string): Promise<SidecarSubtitle[]> {
+    const directory = path.dirname(videoPath);
+    const dirPath = this._resolvePath(watchFolder.path, directory);
+
+    let names: string[];
+    try {
+      names = (await fs.readdir(dirPath, { withFileTypes: true }))
+        .filter(entry => entry.isFile() && isSubtitleFile(entry.name))
+        .map(entry => entry.name);
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+
+    const candidates = await this._statSubtitles(dirPath, directory === '.' ? '' : directory, names);
+    return this._matchSidecars(path.basename(videoPath), candidates);
+  }
+
+  /**
+   * Get stats of a file inside the watch folder
+   */
+  async getFileStats(watchFolder: WatchFolder, relativePath: string): Promise<StorageFileStats> {
+    const stats = await fs.stat(this._resolvePath(watchFolder.path, relativePath));
+    return {
+      size: stats.size,
+      mtime: stats.mtime.getTime()
+    };
+  }
+
+  /**
+   * Open a (ranged) read stream on a file inside the watch folder
+   */
+  async createReadStream(
+    watchFolder: WatchFolder,
+    relativePath: string,
+    options: ReadStreamOptions = {}
+  ): Promise<Readable> {
+    return createReadStream(this._resolvePath(watchFolder.path, relativePath), options);
+  }
+
+  /**
+   * Get the absolute path of a file inside the watch folder
+   */
+  async getLocalPath(watchFolder: WatchFolder, relativePath: string): Promise<string> {
+    return this._resolvePath(watchFolder.path, relativePath);
+  }
+
+  /**
+   * Resolve a stored relative path against the watch folder root
+   * Rejects paths that escape the root (path traversal)
+   * @private
+   */
+  private _resolvePath(rootPath: string, relativePath: string): string {
+    const fullPath = path.join(rootPath, relativePath);
+    if (!isPathSafe(fullPath, rootPath)) {
+      throw new Error(`Path is outside of watch folder: ${relativePath}`);
+    }
+    return fullPath;
+  }
+
   /**
    * Recursively scan directory - ONLY filesystem discovery
    * Returns raw file stats without any processing
@@ -53,14 +178,18 @@ export class LocalStorageProvider implements IStorageProvider {
     basePath: string,
     allowedExtensions: string[],
     minVideoSizeMB: number,
-    temporaryExtensions: string[]
+    temporaryExtensions: string[],
+    signal?: AbortSignal
   ): Promise<RawFile[]> {
     const rawFiles: RawFile[] = [];
+    const directoryFiles: RawFile[] = []; // Videos directly in this directory
+    const subtitleNames: string[] = [];
 
     try {
       const entries = await fs.readdir(dirPath, { withFileTypes: true });
 
       for (const entry of entries) {
+        signal?.throwIfAborted();
         const fullPath = path.join(dirPath, entry.name);
         const relativePath = path.join(basePath, entry.name);
 
@@ -71,7 +200,8 @@ export class LocalStorageProvider implements IStorageProvider {
             relativePath,
             allowedExtensions,
             minVideoSizeMB,
-            temporaryExtensions
+            temporaryExtensions,
+            signal
           );
           rawFiles.push(...result);
         } else if (entry.isFile()) {
@@ -88,7 +218,7 @@ export class LocalStorageProvider implements IStorageProvider {
               }
 
               // Return raw file data only
-              rawFiles.push({
+              directoryFiles.push({
                 name: entry.name,
                 path: relativePath,
                 fullPath: fullPath,
@@ -99,16 +229,72 @@ export class LocalStorageProvider implements IStorageProvider {
             } catch (err: any) {
               logger.warn('Error reading file', { path: fullPath, error: err.message });
             }
+          } else if (isSubtitleFile(entry.name)) {
+            subtitleNames.push(entry.name);
           }
         }
       }
+
+      // Sidecar subtitles are matched to videos of the same directory by basename
+      if (directoryFiles.length > 0) {
+        const candidates = await this._statSubtitles(dirPath, basePath, subtitleNames);
+        for (const rawFile of directoryFiles) {
+          rawFile.subtitles = this._matchSidecars(rawFile.name, candidates);
+        }
+      }
+      rawFiles.push(...directoryFiles);
     } catch (err: any) {
+      // Cancellation must reach the caller: a partial listing would look like deleted files
+      if (signal?.aborted) {
+        throw err;
+      }
       logger.error('Error scanning directory', { directory: dirPath, error: err.message });
     }
 
     return rawFiles;
   }
 
+  /**
+   * Get size and mtime of subtitle files in a directory (unreadable files are skipped)
+   * @private
+   */
+  private async _statSubtitles(dirPath: string, basePath: string, names: string[]): Promise<SubtitleCandidate[]> {
+    const candidates: SubtitleCandidate[] = [];
+    for (const name of names) {
+      try {
+        const stats = await fs.stat(path.join(dirPath, name));
+        candidates.push({
+          name,
+          path: path.join(basePath, name),
+          size: stats.size,
+          mtime: stats.mtime.getTime()
+        });
+      } catch (err: any) {
+        logger.warn('Error reading subtitle file', { path: path.join(dirPath, name), error: err.message });
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Select the subtitles named after a video, with language and flags from their suffixes
+   * @private
+   */
+  private _matchSidecars(videoName: string, candidates: SubtitleCandidate[]): SidecarSubtitle[] {
+    const sidecars: SidecarSubtitle[] = [];
+    for (const candidate of candidates) {
+      const info = parseSidecarName(videoName, candidate.name);
+      if (info) {
+        sidecars.push({
+          ...candidate,
+          ...info,
+          format: path.extname(candidate.name).slice(1).toLowerCase()
+        });
+      }
+    }
+    return sidecars;
+  }
+
   /**
    * Check if file should be skipped (incomplete/downloading)
    * @private
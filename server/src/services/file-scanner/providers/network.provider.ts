@@ -1,10 +1,11 @@
 import { promises as fs } from 'fs';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { Readable } from 'stream';
 import logger from '../../../config/logger';
 import db from '../../database.service';
-import { IStorageProvider, RawFile, ScanOptions } from '../interface';
-import { WatchFolder } from '../../../types/database';
+import { IStorageProvider, RawFile, ScanOptions, StorageFileStats, ReadStreamOptions, StorageUnavailableError } from '../interface';
+import { SidecarSubtitle, WatchFolder } from '../../../types/database';
 import { LocalStorageProvider } from './local.provider';
 
 const execAsync = promisify(exec);
@@ -62,9 +63,70 @@ export class NetworkStorageProvider implements IStorageProvider {
   /**
    * Scan network storage by mounting it first, then using local provider
    */
-  async scan(watchFolder: WatchFolder, options: ScanOptions): Promise<RawFile[]> {
+  async scan(watchFolder: WatchFolder, options: ScanOptions, signal?: AbortSignal): Promise<RawFile[]> {
+    let mountedWatchFolder: WatchFolder;
+    try {
+      mountedWatchFolder = await this._getMountedWatchFolder(watchFolder);
+    } catch (error: any) {
+      throw new StorageUnavailableError(`Network share is not available: ${error.message}`);
+    }
+
+    // Use local provider to scan the mounted path
+    return this.localProvider.scan(mountedWatchFolder, options, signal);
+  }
+
+  /**
+   * Get raw file data for a single path on the mounted network path
+   */
+  async getRawFile(watchFolder: WatchFolder, relativePath: string, options: ScanOptions): Promise<RawFile | null> {
+    const mountedWatchFolder = await this._getMountedWatchFolder(watchFolder);
+    return this.localProvider.getRawFile(mountedWatchFolder, relativePath, options);
+  }
+
+  /**
+   * Get the sidecar subtitles of a video on the mounted network path
+   */
+  async getSidecarSubtitles(watchFolder: WatchFolder, videoPath: string): Promise<SidecarSubtitle[]> {
+    const mountedWatchFolder = await this._getMountedWatchFolder(watchFolder);
+    return this.localProvider.getSidecarSubtitles(mountedWatchFolder, videoPath);
+  }
+
+  /**
+   * Get stats of a file on the mounted network path
+   */
+  async getFileStats(watchFolder: WatchFolder, relativePath: string): Promise<StorageFileStats> {
+    const mountedWatchFolder = await this._getMountedWatchFolder(watchFolder);
+    return this.localProvider.getFileStats(mountedWatchFolder, relativePath);
+  }
+
+  /**
+   * Open a (ranged) read stream on a file on the mounted network path
+   */
+  async createReadStream(
+    watchFolder: WatchFolder,
+    relativePath: string,
+    options?: ReadStreamOptions
+  ): Promise<Readable> {
+    const mountedWatchFolder = await this._getMountedWatchFolder(watchFolder);
+    return this.localProvider.createReadStream(mountedWatchFolder, relativePath, options);
+  }
+
+  /**
+   * Get the path of a file below the mount point
+   */
+  async getLocalPath(watchFolder: WatchFolder, relativePath: string): Promise<string> {
+    const mountedWatchFolder = await this._getMountedWatchFolder(watchFolder);
+    return this.localProvider.getLocalPath(mountedWatchFolder, relativePath);
+  }
+
+  /**
+   * Ensure the network path is mounted and return a watch folder config
+   * pointing at the mount point, so the local provider can operate on it
+   * @private
+   */
+  private async _getMountedWatchFolder(watchFolder: WatchFolder): Promise<WatchFolder> {
     if (!watchFolder.id) {
-      throw new Error('Watch folder ID is required for network scanning');
+      throw new Error('Watch folder ID is required for network storage access');
     }
 
     // Ensure connected (mounted)
@@ -76,14 +138,10 @@ export class NetworkStorageProvider implements IStorageProvider {
       throw new Error('Network path not mounted');
     }
 
-    // Create a temporary watch folder config with mount point path
-    const mountedWatchFolder: WatchFolder = {
+    return {
       ...watchFolder,
       path: mountPoint
     };
-
-    // Use local provider to scan the mounted path
-    return this.localProvider.scan(mountedWatchFolder, options);
   }
 
   /**
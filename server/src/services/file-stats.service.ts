@@ -1,13 +1,13 @@
-import { getFileStats } from '../utils/file-utils';
+import { StorageFileStats } from './file-scanner/interface';
 
 /**
  * File statistics service with caching
- * Caches file stats to avoid repeated filesystem calls
+ * Caches file stats to avoid repeated storage provider calls
  */
 class FileStatsService {
-  // Simple in-memory cache for file stats (avoids repeated fs.stat calls)
+  // Simple in-memory cache for file stats (avoids repeated stat calls)
   // Uses Map for O(1) lookups, with TTL-based expiration
-  private statsCache: Map<string, { stats: import('fs').Stats; timestamp: number }>;
+  private statsCache: Map<string, { stats: StorageFileStats; timestamp: number }>;
   private readonly STATS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
   private readonly MAX_CACHE_SIZE = 1000;
 
@@ -17,20 +17,24 @@ class FileStatsService {
 
   /**
    * Get file statistics with caching
-   * Caches file stats for 5 minutes to avoid repeated filesystem calls
-   * @param filePath - Path to file
+   * Caches file stats for 5 minutes to avoid repeated storage calls
+   * @param cacheKey - Unique key for the file (e.g., watch folder ID + relative path)
+   * @param loadStats - Loader called on cache miss (usually the storage provider)
    * @returns File stats (cached if available)
    */
-  async getCachedFileStats(filePath: string): Promise<import('fs').Stats> {
+  async getCachedFileStats(
+    cacheKey: string,
+    loadStats: () => Promise<StorageFileStats>
+  ): Promise<StorageFileStats> {
     const now = Date.now();
-    const cached = this.statsCache.get(filePath);
+    const cached = this.statsCache.get(cacheKey);
     
     if (cached && (now - cached.timestamp) < this.STATS_CACHE_TTL) {
       return cached.stats;
     }
     
-    const stats = await getFileStats(filePath);
-    this.statsCache.set(filePath, { stats, timestamp: now });
+    const stats = await loadStats();
+    this.statsCache.set(cacheKey, { stats, timestamp: now });
     
     // Cleanup old entries (lazy cleanup on access)
     if (this.statsCache.size > this.MAX_CACHE_SIZE) {
@@ -0,0 +1,211 @@
+import path from 'path';
+import { watch, FSWatcher } from 'chokidar';
+import logger from '../config/logger';
+import config from '../config';
+import { WatchFolder } from '../types/database';
+
+/**
+ * Handler for a debounced batch of changed paths
+ * Returns false if the batch could not be processed now (it is retried after the next debounce)
+ */
+export type WatchChangeHandler = (watchFolderId: number, changedPaths: string[]) => Promise<boolean>;
+
+interface FolderWatcher {
+  watchFolder: WatchFolder;
+  watcher: FSWatcher;
+  onChanges: WatchChangeHandler;
+  pendingPaths: Set<string>;
+  timer: NodeJS.Timeout | null;
+  flushing: boolean;
+}
+
+/**
+ * Live watch service
+ * Subscribes to filesystem events (inotify on Linux) for local watch folders,
+ * collects changed paths and hands them to a handler once the folder has been
+ * quiet for config.scanner.watchDebounceMs
+ */
+class FileWatcherService {
+  private watchers: Map<number, FolderWatcher>;
+
+  constructor() {
+    this.watchers = new Map();
+  }
+
+  /**
+   * Start watching a watch folder (replaces an existing watcher for the same folder)
+   * @param watchFolder - Watch folder to watch (must be local)
+   * @param onChanges - Handler for debounced changes
+   */
+  watch(watchFolder: WatchFolder, onChanges: WatchChangeHandler): void {
+    if (!watchFolder.id) {
+      return;
+    }
+
+    if (watchFolder.type !== 'local') {
+      logger.warn('Live watch is only supported for local watch folders', {
+        watchFolderId: watchFolder.id,
+        type: watchFolder.type
+      });
+      return;
+    }
+
+    this.unwatch(watchFolder.id);
+
+    const watcher = watch(watchFolder.path, {
+      ignoreInitial: true, // Existing files are handled by full scans
+      persistent: true
+    });
+
+    const entry: FolderWatcher = {
+      watchFolder,
+      watcher,
+      onChanges,
+      pendingPaths: new Set(),
+      timer: null,
+      flushing: false
+    };
+
+    const queue = (fullPath: string) => this._queue(entry, fullPath);
+    watcher.on('add', queue);
+    watcher.on('change', queue);
+    watcher.on('unlink', queue);
+    watcher.on('unlinkDir', queue);
+    watcher.on('error', (error: unknown) => {
+      logger.error('Live watch error', {
+        watchFolderId: watchFolder.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+
+    this.watchers.set(watchFolder.id, entry);
+    logger.info('Started live watch', { watchFolderId: watchFolder.id, path: watchFolder.path });
+  }
+
+  /**
+   * Stop watching a watch folder (pending changes are dropped; periodic scans catch up)
+   */
+  unwatch(watchFolderId: number): void {
+    const entry = this.watchers.get(watchFolderId);
+    if (!entry) {
+      return;
+    }
+
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.watchers.delete(watchFolderId);
+    entry.watcher.close().catch((error: Error) => {
+      logger.warn('Failed to close live watch', { watchFolderId, error: error.message });
+    });
+    logger.info('Stopped live watch', { watchFolderId });
+  }
+
+  /**
+   * Check paths again later, e.g. files deferred by the stability window
+   * Waits for the folder's stability window (at least the debounce period)
+   * @param watchFolderId - Watch folder ID
+   * @param relativePaths - Paths relative to the watch folder root
+   */
+  recheck(watchFolderId: number, relativePaths: string[]): void {
+    const entry = this.watchers.get(watchFolderId);
+    if (!entry || relativePaths.length === 0) {
+      return;
+    }
+
+    relativePaths.forEach(relativePath => entry.pendingPaths.add(relativePath));
+    const stabilityWindowMs = (entry.watchFolder.stability_window_seconds || 0) * 1000;
+    this._schedule(entry, Math.max(config.scanner.watchDebounceMs, stabilityWindowMs));
+  }
+
+  /**
+   * Stop all watchers
+   */
+  unwatchAll(): void {
+    for (const watchFolderId of Array.from(this.watchers.keys())) {
+      this.unwatch(watchFolderId);
+    }
+  }
+
+  /**
+   * Check if a watch folder is being watched
+   */
+  isWatching(watchFolderId: number): boolean {
+    return this.watchers.has(watchFolderId);
+  }
+
+  /**
+   * Get IDs of all watched folders
+   */
+  getWatchedFolderIds(): number[] {
+    return Array.from(this.watchers.keys());
+  }
+
+  /**
+   * Record a changed path and (re)start the debounce timer
+   * @private
+   */
+  private _queue(entry: FolderWatcher, fullPath: string): void {
+    const relativePath = path.relative(entry.watchFolder.path, fullPath);
+    if (!relativePath || relativePath.startsWith('..')) {
+      return;
+    }
+
+    entry.pendingPaths.add(relativePath);
+    this._schedule(entry);
+  }
+
+  /**
+   * Schedule a flush once the folder has been quiet for the debounce period
+   * @private
+   */
+  private _schedule(entry: FolderWatcher, delayMs: number = config.scanner.watchDebounceMs): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      this._flush(entry);
+    }, delayMs);
+  }
+
+  /**
+   * Hand pending paths to the handler; requeue them if the handler is busy
+   * @private
+   */
+  private async _flush(entry: FolderWatcher): Promise<void> {
+    const watchFolderId = entry.watchFolder.id!;
+    if (entry.flushing || entry.pendingPaths.size === 0) {
+      return;
+    }
+
+    const changedPaths = Array.from(entry.pendingPaths);
+    entry.pendingPaths.clear();
+    entry.flushing = true;
+
+    let handled = false;
+    try {
+      handled = await entry.onChanges(watchFolderId, changedPaths);
+    } catch (error: any) {
+      // Not retried: the next periodic full scan picks these changes up
+      logger.error('Live watch sync failed', { watchFolderId, error: error.message });
+      handled = true;
+    } finally {
+      entry.flushing = false;
+    }
+
+    // Watcher may have been stopped while the handler was running
+    if (this.watchers.get(watchFolderId) !== entry) {
+      return;
+    }
+
+    if (!handled) {
+      changedPaths.forEach(changedPath => entry.pendingPaths.add(changedPath));
+    }
+    if (entry.pendingPaths.size > 0 && !entry.timer) {
+      this._schedule(entry);
+    }
+  }
+}
+
+export default new FileWatcherService();
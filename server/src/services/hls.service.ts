@@ -0,0 +1,584 @@
+import { ChildProcess, spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import logger from '../config/logger';
+import config from '../config';
+import mediaProbeService, { MediaInfo } from './media-probe.service';
+
+// Interval of the idle transcode and expired segment checks
+const CLEANUP_INTERVAL_MS = 15000;
+
+// Poll interval while a requested segment is being transcoded
+const SEGMENT_POLL_MS = 250;
+
+// Requests at most this many segments past a transcode's position wait for it;
+// farther requests are seeks and restart the transcode at the requested segment
+const MAX_SEGMENTS_AHEAD = 3;
+
+// Time limit for one segment to appear (the first one includes ffmpeg startup and seeking)
+const SEGMENT_TIMEOUT_MS = 60000;
+
+// ffmpeg error output kept for the log when a transcode fails
+const MAX_STDERR_BYTES = 4096;
+
+// Per file version cache directory name: `${fileId}-${mtime}`
+const VERSION_DIR_PATTERN = /^\d+-\d+$/;
+
+/**
+ * Output quality of the adaptive ladder
+ */
+export interface HlsRendition {
+  name: string; // Also the playlist path, e.g. 720p/index.m3u8
+  width: number; // Bounding box: the source aspect ratio is kept and sources are never upscaled
+  height: number;
+  videoBitrate: number; // Bits per second (capped)
+  audioBitrate: number;
+}
+
+const RENDITIONS: HlsRendition[] = [
+  { name: '480p', width: 854, height: 480, videoBitrate: 1400000, audioBitrate: 128000 },
+  { name: '720p', width: 1280, height: 720, videoBitrate: 2800000, audioBitrate: 128000 },
+  { name: '1080p', width: 1920, height: 1080, videoBitrate: 5000000, audioBitrate: 192000 }
+];
+
+/**
+ * File to transcode, with the details the ladder and playlists are planned from
+ */
+export interface TranscodeSource {
+  fileId: number;
+  fileName: string;
+  mtime: number; // Segment cache key: a changed file is transcoded again
+  localPath: string;
+  duration: number; // Seconds
+  width: number | null;
+  height: number | null;
+  audioStreamIndex: number | null; // Null: first audio track
+}
+
+/**
+ * Running transcode (GET /api/transcodes)
+ */
+export interface TranscodeSession {
+  id: string;
+  fileId: number;
+  fileName: string;
+  rendition: string;
+  startSegment: number; // Seeks past the transcode position start a new transcode
+  currentSegment: number | null; // Last segment written (null before the first)
+  pid: number | null;
+  startedAt: string;
+  lastRequestAt: string;
+}
+
+/**
+ * Thrown when a transcode cannot start because HLS_MAX_TRANSCODES transcodes are running
+ */
+export class TranscodeLimitError extends Error {
+  limit: number;
+
+  constructor(limit: number) {
+    super(`Transcode limit reached (${limit} running)`);
+    this.name = 'TranscodeLimitError';
+    this.limit = limit;
+  }
+}
+
+/**
+ * ffmpeg process of a session
+ */
+interface ActiveTranscode {
+  session: TranscodeSession;
+  child: ChildProcess;
+  dir: string; // Segments of the file version and rendition
+  playlistPath: string; // Written by ffmpeg, lists the segments of this run
+  lastRequest: number;
+  ended: boolean;
+  stopped: boolean; // Killed by a seek, idle cleanup or request
+  error: string | null; // ffmpeg error output, when it failed
+}
+
+/**
+ * HLS transcoding service
+ * Serves an adaptive ladder (480p/720p/1080p, libx264 + AAC) of any file as VOD playlists.
+ * Segments are transcoded on demand by one ffmpeg run per file and rendition, cached in a
+ * temporary directory and removed once the file has not been requested for a while
+ */
+class HlsService {
+  private transcodes: Map<string, ActiveTranscode>; // Keyed by rendition directory
+  private versions: Map<string, number>; // File version directory -> last request time
+  private probes: Map<string, MediaInfo>; // Files not probed by scans, keyed by version directory name
+  private cleanupTimer: NodeJS.Timeout | null;
+  private cacheReady: Promise<void> | null;
+
+  constructor() {
+    this.transcodes = new Map();
+    this.versions = new Map();
+    this.probes = new Map();
+    this.cleanupTimer = null;
+    this.cacheReady = null;
+  }
+
+  /**
+   * Renditions offered for a source: ladder steps larger than the source are left out
+   * (the smallest step is always offered; all of them when the frame size is unknown)
+   */
+  getRenditions(source: Pick<TranscodeSource, 'width' | 'height'>): HlsRendition[] {
+    const { width, height } = source;
+    if (!width || !height) {
+      return RENDITIONS;
+    }
+
+    // Either dimension within the source: cropped widescreen video still gets its matching step
+    const fitting = RENDITIONS.filter(rendition => rendition.width <= width || rendition.height <= height);
+    return fitting.length > 0 ? fitting : [RENDITIONS[0]];
+  }
+
+  /**
+   * Number of segments of a file
+   */
+  getSegmentCount(duration: number): number {
+    return Math.max(1, Math.ceil(duration / config.hls.segmentSeconds));
+  }
+
+  /**
+   * Build the master playlist, listing the renditions of a source
+   * @param query - Query string added to the playlist URIs (signed stream URLs)
+   */
+  buildMasterPlaylist(source: TranscodeSource, query?: string): string {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+    for (const rendition of this.getRenditions(source)) {
+      const { width, height } = this._outputSize(rendition, source);
+      // Peak rate plus container overhead
+      const bandwidth = Math.round((rendition.videoBitrate + rendition.audioBitrate) * 1.1);
+      lines.push(
+        `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${width}x${height},NAME="${rendition.name}"`,
+        `${rendition.name}/index.m3u8${query ? `?${query}` : ''}`
+      );
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Build the media playlist of a rendition
+   * Segments have a fixed duration (keyframes are forced at their boundaries), so the whole
+   * playlist is known before anything is transcoded and players can seek anywhere
+   * @param query - Query string added to the segment URIs (signed stream URLs)
+   */
+  buildMediaPlaylist(duration: number, query?: string): string {
+    const segmentSeconds = config.hls.segmentSeconds;
+    const lines = [
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      `#EXT-X-TARGETDURATION:${segmentSeconds}`,
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-PLAYLIST-TYPE:VOD'
+    ];
+    const count = this.getSegmentCount(duration);
+    for (let index = 0; index < count; index++) {
+      const length = Math.min(segmentSeconds, duration - index * segmentSeconds);
+      lines.push(`#EXTINF:${length.toFixed(3)},`, `${index}.ts${query ? `?${query}` : ''}`);
+    }
+    lines.push('#EXT-X-ENDLIST');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Probe a file that scans have not probed, once per file version
+   * @returns Media details, or null if ffprobe failed
+   */
+  async probe(fileId: number, mtime: number, localPath: string): Promise<MediaInfo | null> {
+    const versionName = `${fileId}-${mtime}`;
+    this._touchVersion(versionName);
+
+    const cached = this.probes.get(versionName);
+    if (cached) {
+      return cached;
+    }
+
+    const mediaInfo = await mediaProbeService.probe(localPath);
+    if (mediaInfo) {
+      this.probes.set(versionName, mediaInfo);
+    }
+    return mediaInfo;
+  }
+
+  /**
+   * Get a segment, transcoding it first if it is not cached
+   * Requests just ahead of a running transcode wait for it; other requests (seeks) restart it there
+   * @returns Path of the segment file
+   * @throws TranscodeLimitError if a transcode is needed and the limit is reached
+   */
+  async getSegment(source: TranscodeSource, rendition: HlsRendition, index: number): Promise<string> {
+    await this._ensureCacheDir();
+
+    const versionName = `${source.fileId}-${source.mtime}`;
+    const dir = path.join(config.hls.cacheDir, versionName, rendition.name);
+    const segmentPath = path.join(dir, `${index}.ts`);
+    this._touchVersion(versionName);
+    await fs.mkdir(dir, { recursive: true });
+
+    const current = this.transcodes.get(dir);
+    if (current) {
+      current.lastRequest = Date.now();
+      current.session.lastRequestAt = new Date().toISOString();
+    }
+
+    if (await this._exists(segmentPath)) {
+      return segmentPath;
+    }
+
+    if (current) {
+      await this._updatePosition(current);
+    }
+
+    // Looked up again after the awaits: a concurrent request may have started a transcode
+    let transcode = this.transcodes.get(dir);
+    if (!transcode || !this._isWithinReach(transcode, index)) {
+      transcode = this._start(source, rendition, dir, index);
+    }
+    return this._waitForSegment(transcode, segmentPath, index);
+  }
+
+  /**
+   * List running transcodes
+   */
+  listSessions(): TranscodeSession[] {
+    return Array.from(this.transcodes.values()).map(transcode => transcode.session);
+  }
+
+  /**
+   * Stop a transcode (its cached segments are kept)
+   * @returns The stopped session, or null if it is not running
+   */
+  stopSession(id: string): TranscodeSession | null {
+    const transcode = Array.from(this.transcodes.values()).find(t => t.session.id === id);
+    if (!transcode) {
+      return null;
+    }
+
+    this._stop(transcode, 'request');
+    return transcode.session;
+  }
+
+  /**
+   * Stop all transcodes (server shutdown)
+   */
+  stopAll(): void {
+    for (const transcode of Array.from(this.transcodes.values())) {
+      this._stop(transcode, 'shutdown');
+    }
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  /**
+   * Build the ffmpeg arguments of a transcode starting at a segment
+   */
+  buildArgs(source: TranscodeSource, rendition: HlsRendition, dir: string, startSegment: number, playlistPath: string): string[] {
+    const segmentSeconds = config.hls.segmentSeconds;
+    const startSeconds = startSegment * segmentSeconds;
+    const args = ['-v', 'error', '-nostdin'];
+
+    // Input seeking; decoding resumes exactly at the segment boundary
+    if (startSeconds > 0) {
+      args.push('-ss', String(startSeconds));
+    }
+
+    args.push(
+      '-i', source.localPath,
+      '-map', '0:v:0',
+      '-map', source.audioStreamIndex !== null ? `0:${source.audioStreamIndex}` : '0:a:0?',
+      '-vf', `scale=w='min(${rendition.width},iw)':h='min(${rendition.height},ih)':force_original_aspect_ratio=decrease:force_divisible_by=2,format=yuv420p`,
+      '-c:v', 'libx264',
+      '-preset', config.hls.x264Preset,
+      '-profile:v', 'high',
+      '-b:v', String(rendition.videoBitrate),
+      '-maxrate', String(rendition.videoBitrate),
+      '-bufsize', String(rendition.videoBitrate * 2),
+      // Keyframes at every segment boundary, so segments match the precomputed playlist
+      '-force_key_frames', `expr:gte(t,n_forced*${segmentSeconds})`,
+      '-c:a', 'aac',
+      '-b:a', String(rendition.audioBitrate),
+      '-ac', '2',
+      // Timestamps continue from the seek position, so segments of separate runs line up
+      '-output_ts_offset', String(startSeconds),
+      '-f', 'hls',
+      '-hls_time', String(segmentSeconds),
+      '-hls_list_size', '0',
+      '-hls_flags', 'temp_file',
+      '-start_number', String(startSegment),
+      '-hls_segment_filename', path.join(dir, '%d.ts'),
+      playlistPath
+    );
+    return args;
+  }
+
+  /**
+   * Start a transcode at a segment, replacing the running one of the same file and rendition
+   * Registered synchronously, so concurrent requests find it
+   * @private
+   */
+  private _start(source: TranscodeSource, rendition: HlsRendition, dir: string, startSegment: number): ActiveTranscode {
+    const replaced = this.transcodes.get(dir);
+    if (replaced) {
+      this._stop(replaced, 'seek');
+    }
+
+    if (this.transcodes.size >= config.hls.maxTranscodes) {
+      throw new TranscodeLimitError(config.hls.maxTranscodes);
+    }
+
+    const id = randomUUID();
+    const playlistPath = path.join(dir, `ffmpeg-${id}.m3u8`);
+    const args = this.buildArgs(source, rendition, dir, startSegment, playlistPath);
+    const child = spawn(config.ffmpeg.path, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    const now = new Date().toISOString();
+
+    const transcode: ActiveTranscode = {
+      session: {
+        id,
+        fileId: source.fileId,
+        fileName: source.fileName,
+        rendition: rendition.name,
+        startSegment,
+        currentSegment: null,
+        pid: child.pid ?? null,
+        startedAt: now,
+        lastRequestAt: now
+      },
+      child,
+      dir,
+      playlistPath,
+      lastRequest: Date.now(),
+      ended: false,
+      stopped: false,
+      error: null
+    };
+
+    let stderr = '';
+    child.stderr!.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_BYTES);
+    });
+
+    const onExit = (code: number | null, error?: Error) => {
+      if (transcode.ended) {
+        return;
+      }
+      transcode.ended = true;
+      if (this.transcodes.get(dir) === transcode) {
+        this.transcodes.delete(dir);
+      }
+      fs.rm(playlistPath, { force: true }).catch(() => undefined);
+
+      if (!transcode.stopped && (error || code !== 0)) {
+        transcode.error = error?.message || stderr.trim() || `exit code ${code}`;
+        logger.error('Transcode failed', { fileId: source.fileId, rendition: rendition.name, error: transcode.error });
+      } else if (!transcode.stopped) {
+        logger.info('Transcode completed', { fileId: source.fileId, rendition: rendition.name, startSegment });
+      }
+    };
+    child.on('error', error => onExit(null, error)); // Binary missing or not executable
+    child.on('close', code => onExit(code));
+
+    this.transcodes.set(dir, transcode);
+    this._scheduleCleanup();
+
+    logger.info('Transcode started', {
+      sessionId: id,
+      fileId: source.fileId,
+      rendition: rendition.name,
+      startSegment,
+      running: this.transcodes.size
+    });
+    return transcode;
+  }
+
+  /**
+   * Kill a transcode's ffmpeg process
+   * @private
+   */
+  private _stop(transcode: ActiveTranscode, reason: string): void {
+    if (!transcode.ended && !transcode.stopped) {
+      transcode.stopped = true;
+      transcode.child.kill('SIGKILL');
+      logger.info('Transcode stopped', {
+        sessionId: transcode.session.id,
+        fileId: transcode.session.fileId,
+        rendition: transcode.session.rendition,
+        reason
+      });
+    }
+    if (this.transcodes.get(transcode.dir) === transcode) {
+      this.transcodes.delete(transcode.dir);
+    }
+  }
+
+  /**
+   * Check if a segment is at or just past what a transcode has written
+   * @private
+   */
+  private _isWithinReach(transcode: ActiveTranscode, index: number): boolean {
+    const position = transcode.session.currentSegment ?? transcode.session.startSegment - 1;
+    return !transcode.ended && index >= transcode.session.startSegment && index <= position + MAX_SEGMENTS_AHEAD;
+  }
+
+  /**
+   * Read the last segment written by a transcode from its ffmpeg playlist
+   * (cached segments of earlier runs in the same directory do not count)
+   * @private
+   */
+  private async _updatePosition(transcode: ActiveTranscode): Promise<void> {
+    try {
+      const playlist = await fs.readFile(transcode.playlistPath, 'utf8');
+      const segments = playlist.match(/^\d+(?=\.ts$)/gm);
+      if (segments) {
+        transcode.session.currentSegment = parseInt(segments[segments.length - 1], 10);
+      }
+    } catch {
+      // Not written yet (no segment finished)
+    }
+  }
+
+  /**
+   * Wait until a segment is written, following a transcode that replaced the awaited one
+   * @private
+   */
+  private async _waitForSegment(transcode: ActiveTranscode, segmentPath: string, index: number): Promise<string> {
+    const deadline = Date.now() + SEGMENT_TIMEOUT_MS;
+    let awaited = transcode;
+
+    while (Date.now() < deadline) {
+      if (await this._exists(segmentPath)) {
+        return segmentPath;
+      }
+
+      if (awaited.ended) {
+        const replacement = this.transcodes.get(awaited.dir);
+        if (replacement && index >= replacement.session.startSegment) {
+          awaited = replacement;
+          continue;
+        }
+        // The segment may have been written just before the exit
+        if (await this._exists(segmentPath)) {
+          return segmentPath;
+        }
+        throw new Error(awaited.error
+          ? `ffmpeg failed: ${awaited.error}`
+          : 'Transcode stopped before the segment was written');
+      }
+
+      await new Promise(resolve => setTimeout(resolve, SEGMENT_POLL_MS));
+    }
+
+    throw new Error(`Timed out waiting for segment ${index}`);
+  }
+
+  /**
+   * Remove segment directories left by a previous run, once per process
+   * Only per file version directories are removed, in case the directory is shared
+   * @private
+   */
+  private _ensureCacheDir(): Promise<void> {
+    if (!this.cacheReady) {
+      this.cacheReady = (async () => {
+        await fs.mkdir(config.hls.cacheDir, { recursive: true });
+        const stale = (await fs.readdir(config.hls.cacheDir)).filter(name => VERSION_DIR_PATTERN.test(name));
+        await Promise.all(stale.map(name => fs.rm(path.join(config.hls.cacheDir, name), { recursive: true, force: true })));
+      })();
+      // Retried on the next request after a failure
+      this.cacheReady.catch(() => {
+        this.cacheReady = null;
+      });
+    }
+    return this.cacheReady;
+  }
+
+  /**
+   * Record a request for a file version (keeps its segments and probe cached)
+   * @private
+   */
+  private _touchVersion(versionName: string): void {
+    this.versions.set(versionName, Date.now());
+    this._scheduleCleanup();
+  }
+
+  /**
+   * Start the cleanup timer (stopped again when nothing is left to clean up)
+   * @private
+   */
+  private _scheduleCleanup(): void {
+    if (this.cleanupTimer) {
+      return;
+    }
+    this.cleanupTimer = setInterval(() => {
+      this._cleanup().catch(error => logger.warn('HLS cleanup failed', { error: error.message }));
+    }, CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref(); // Does not keep the process alive
+  }
+
+  /**
+   * Stop idle transcodes and remove segments of file versions not requested within the cache TTL
+   * @private
+   */
+  private async _cleanup(): Promise<void> {
+    const now = Date.now();
+
+    for (const transcode of Array.from(this.transcodes.values())) {
+      if (now - transcode.lastRequest > config.hls.idleTimeoutMs) {
+        this._stop(transcode, 'idle');
+      }
+    }
+
+    for (const [versionName, lastRequest] of Array.from(this.versions.entries())) {
+      if (now - lastRequest <= config.hls.cacheTtlMs) {
+        continue;
+      }
+      const versionDir = path.join(config.hls.cacheDir, versionName);
+      if (Array.from(this.transcodes.keys()).some(dir => dir.startsWith(versionDir + path.sep))) {
+        continue;
+      }
+
+      this.versions.delete(versionName);
+      this.probes.delete(versionName);
+      await fs.rm(versionDir, { recursive: true, force: true });
+      logger.debug('HLS segments removed', { version: versionName });
+    }
+
+    if (this.transcodes.size === 0 && this.versions.size === 0 && this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  /**
+   * Frame size of a rendition for a source (same scaling as the ffmpeg filter)
+   * @private
+   */
+  private _outputSize(rendition: HlsRendition, source: Pick<TranscodeSource, 'width' | 'height'>): { width: number; height: number } {
+    if (!source.width || !source.height) {
+      return { width: rendition.width, height: rendition.height };
+    }
+    const scale = Math.min(rendition.width / source.width, rendition.height / source.height, 1);
+    return {
+      width: Math.round(source.width * scale / 2) * 2,
+      height: Math.round(source.height * scale / 2) * 2
+    };
+  }
+
+  /**
+   * @private
+   */
+  private async _exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export default new HlsService();
@@ -48,6 +48,27 @@ interface ProcessedFileInfo {
   similarity?: number | null;
 }
 
+/**
+ * Options for processing a file
+ */
+interface ProcessFileOptions {
+  bypassCache?: boolean; // Skip the cached result (the fresh result is cached again)
+}
+
+/**
+ * IMDB search result (used to pick a manual match)
+ */
+export interface ImdbSearchResult {
+  imdb_id: string;
+  imdbName: string | null;
+  imdbYear: number | null;
+  imdbType: string | null;
+  yearRange: string | null;
+  image: object | null;
+  starring: string | null;
+  similarity: number | null;
+}
+
 /**
  * IMDB lookup service with caching
  */
@@ -57,14 +78,17 @@ class ImdbService {
    * @param filePath - Full file path
    * @param fileName - File name
    * @param fileSize - File size in bytes
+   * @param options - Processing options
    * @returns Parsed video information
    */
-  async processFile(_filePath: string, fileName: string, _fileSize: number): Promise<ProcessedFileInfo> {
+  async processFile(_filePath: string, fileName: string, _fileSize: number, options: ProcessFileOptions = {}): Promise<ProcessedFileInfo> {
     // Check cache first
     const cacheKey = `imdb:${fileName}`;
-    const cached = cache.get(cacheKey, config.cache.imdbTTL);
-    if (cached) {
-      return cached;
+    if (!options.bypassCache) {
+      const cached = await cache.get<ProcessedFileInfo>(cacheKey, config.cache.imdbTTL);
+      if (cached) {
+        return cached;
+      }
     }
 
     try {
@@ -122,7 +146,7 @@ class ImdbService {
           episode: episode,
           ...metadata
         };
-        cache.set(cacheKey, result);
+        await cache.set(cacheKey, result, config.cache.imdbTTL);
         return result;
       }
 
@@ -149,7 +173,7 @@ class ImdbService {
       };
 
       // Cache the result
-      cache.set(cacheKey, result);
+      await cache.set(cacheKey, result, config.cache.imdbTTL);
       
       return result;
     } catch (error: any) {
@@ -179,6 +203,32 @@ class ImdbService {
     }
   }
 
+  /**
+   * Search IMDB by title (not cached, for interactive use)
+   * name-to-imdb resolves a single best match, so at most one result is returned
+   * @param name - Title to search for
+   * @param year - Optional release year
+   * @param type - Optional type (movie or series)
+   * @returns Matching titles
+   */
+  async search(name: string, year: number | null, type: string | null): Promise<ImdbSearchResult[]> {
+    const { imdbId, metadata } = await this._lookupImdb(name, year, type || undefined);
+    if (!imdbId) {
+      return [];
+    }
+
+    return [{
+      imdb_id: imdbId,
+      imdbName: metadata?.imdbName ?? null,
+      imdbYear: metadata?.imdbYear ?? null,
+      imdbType: metadata?.imdbType ?? null,
+      yearRange: metadata?.yearRange ?? null,
+      image: metadata?.image ?? null,
+      starring: metadata?.starring ?? null,
+      similarity: metadata?.similarity ?? null
+    }];
+  }
+
   /**
    * Merge metadata from both parsers
    * @private
@@ -286,7 +336,7 @@ class ImdbService {
    * Returns both IMDB ID and metadata
    * @private
    */
-  private _lookupImdb(name: string, year: number | null, type: string): Promise<{ imdbId: string | null; metadata: ImdbMetadata | null }> {
+  private _lookupImdb(name: string, year: number | null, type: string | undefined): Promise<{ imdbId: string | null; metadata: ImdbMetadata | null }> {
     return new Promise((resolve) => {
       nameToImdb({
         name,
@@ -0,0 +1,260 @@
+import { execFile } from 'child_process';
+import logger from '../config/logger';
+import config from '../config';
+import { AudioTrack, PlaybackMode, SubtitleTrack } from '../types/database';
+
+// ffprobe JSON output of files with many streams (and attachments) can be large
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Media details read from the container and its streams
+ * Codec, channel and resolution values use the filename parser's vocabulary
+ * (e.g. 'h265', 'Dolby Digital Plus', '5.1', '1080P') so probed and parsed files compare
+ */
+export interface MediaInfo {
+  duration: number | null;
+  width: number | null;
+  height: number | null;
+  bitrate: number | null;
+  resolution: string | null;
+  videoCodec: string | null;
+  videoProfile: string | null;
+  hdrFormat: string | null;
+  audioCodec: string | null; // Of the default (or first) audio track
+  audioChannels: string | null;
+  audioTracks: AudioTrack[];
+  subtitleTracks: SubtitleTrack[];
+  playback: PlaybackMode;
+}
+
+// ffprobe codec_name -> filename parser VideoCodec
+const VIDEO_CODECS: Record<string, string> = {
+  hevc: 'h265',
+  h264: 'h264',
+  mpeg4: 'xvid',
+  wmv3: 'WMV',
+  vc1: 'WMV'
+};
+
+// ffprobe codec_name -> filename parser AudioCodec
+const AUDIO_CODECS: Record<string, string> = {
+  aac: 'AAC',
+  ac3: 'Dolby Digital',
+  eac3: 'Dolby Digital Plus',
+  truehd: 'Dolby TrueHD',
+  dts: 'DTS',
+  flac: 'FLAC',
+  opus: 'Opus',
+  vorbis: 'Vorbis',
+  mp3: 'MP3',
+  mp2: 'MP2'
+};
+
+// Codecs browsers decode natively (ffprobe codec_name); the audio check applies to the main track
+const BROWSER_VIDEO_CODECS = ['h264', 'hevc', 'vp8', 'vp9', 'av1'];
+const BROWSER_AUDIO_CODECS = ['aac', 'mp3', 'opus', 'vorbis', 'flac'];
+
+// Matroska files are only played as WebM when all their codecs are allowed in WebM
+const WEBM_CODECS = ['vp8', 'vp9', 'av1', 'opus', 'vorbis'];
+
+// Channel count -> filename parser Channels
+const CHANNELS: Record<number, string> = {
+  8: '7.1',
+  6: '5.1',
+  2: 'stereo',
+  1: 'mono'
+};
+
+// Minimum frame size per resolution tag (width covers cropped widescreen video)
+const RESOLUTIONS: Array<{ name: string; width: number; height: number }> = [
+  { name: '2160P', width: 3200, height: 2000 },
+  { name: '1080P', width: 1800, height: 1000 },
+  { name: '720P', width: 1200, height: 700 },
+  { name: '576P', width: 1000, height: 560 },
+  { name: '540P', width: 940, height: 530 },
+  { name: '480P', width: 0, height: 0 }
+];
+
+/**
+ * Media probe service
+ * Runs ffprobe on video files to read real codecs, resolution, HDR format and tracks
+ */
+class MediaProbeService {
+  /**
+   * Probe a file with ffprobe
+   * @param fullPath - Absolute path of the file on the server
+   * @returns Media details, or null if ffprobe failed (missing binary, unreadable file, timeout)
+   */
+  async probe(fullPath: string): Promise<MediaInfo | null> {
+    try {
+      const output = await this._runFfprobe(fullPath);
+      return this.parseProbeOutput(JSON.parse(output));
+    } catch (error: any) {
+      logger.warn('Media probe failed', { path: fullPath, error: error.message });
+      return null;
+    }
+  }
+
+  /**
+   * Convert ffprobe JSON output (-show_format -show_streams) to media details
+   */
+  parseProbeOutput(output: any): MediaInfo {
+    const streams: any[] = Array.isArray(output?.streams) ? output.streams : [];
+    const format = output?.format || {};
+
+    // Cover art is stored as a video stream with the attached_pic disposition
+    const video = streams.find(stream => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+    const audioTracks = streams
+      .filter(stream => stream.codec_type === 'audio')
+      .map(stream => this._toAudioTrack(stream));
+    const subtitleTracks = streams
+      .filter(stream => stream.codec_type === 'subtitle')
+      .map(stream => this._toSubtitleTrack(stream));
+    const mainAudio = audioTracks.find(track => track.is_default) || audioTracks[0];
+
+    const width = this._toNumber(video?.width);
+    const height = this._toNumber(video?.height);
+
+    return {
+      duration: this._toNumber(format.duration),
+      width,
+      height,
+      bitrate: this._toNumber(format.bit_rate),
+      resolution: width && height ? this._resolution(width, height) : null,
+      videoCodec: video ? (VIDEO_CODECS[video.codec_name] || video.codec_name || null) : null,
+      videoProfile: video?.profile || null,
+      hdrFormat: video ? this._hdrFormat(video) : null,
+      audioCodec: mainAudio ? this._audioCodec(mainAudio.codec, mainAudio.profile) : null,
+      audioChannels: mainAudio?.channels ? (CHANNELS[mainAudio.channels] || String(mainAudio.channels)) : null,
+      audioTracks,
+      subtitleTracks,
+      playback: this._playback(format, video, mainAudio)
+    };
+  }
+
+  /**
+   * Run ffprobe and return its JSON output
+   * @private
+   */
+  private _runFfprobe(fullPath: string): Promise<string> {
+    const args = ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', fullPath];
+    return new Promise((resolve, reject) => {
+      execFile(
+        config.probe.ffprobePath,
+        args,
+        { timeout: config.probe.timeoutMs, maxBuffer: MAX_OUTPUT_BYTES },
+        (error, stdout) => (error ? reject(error) : resolve(stdout))
+      );
+    });
+  }
+
+  /**
+   * @private
+   */
+  private _toAudioTrack(stream: any): AudioTrack {
+    return {
+      stream_index: stream.index,
+      codec: stream.codec_name || 'unknown',
+      profile: stream.profile || null,
+      language: this._language(stream),
+      title: stream.tags?.title || null,
+      channels: this._toNumber(stream.channels),
+      channel_layout: stream.channel_layout || null,
+      sample_rate: this._toNumber(stream.sample_rate),
+      bitrate: this._toNumber(stream.bit_rate),
+      is_default: stream.disposition?.default === 1,
+      is_forced: stream.disposition?.forced === 1
+    };
+  }
+
+  /**
+   * @private
+   */
+  private _toSubtitleTrack(stream: any): SubtitleTrack {
+    return {
+      stream_index: stream.index,
+      codec: stream.codec_name || 'unknown',
+      language: this._language(stream),
+      title: stream.tags?.title || null,
+      is_default: stream.disposition?.default === 1,
+      is_forced: stream.disposition?.forced === 1,
+      is_hearing_impaired: stream.disposition?.hearing_impaired === 1
+    };
+  }
+
+  /**
+   * Stream language tag, without the 'und' (undetermined) placeholder
+   * @private
+   */
+  private _language(stream: any): string | null {
+    const language = stream.tags?.language?.toLowerCase();
+    return language && language !== 'und' ? language : null;
+  }
+
+  /**
+   * Map an audio codec to the parser vocabulary (DTS-HD is a DTS profile in ffprobe)
+   * @private
+   */
+  private _audioCodec(codec: string, profile?: string | null): string {
+    if (codec === 'dts' && profile?.startsWith('DTS-HD')) {
+      return 'DTS-HD';
+    }
+    if (codec.startsWith('pcm_')) {
+      return 'PCM';
+    }
+    return AUDIO_CODECS[codec] || codec;
+  }
+
+  /**
+   * @private
+   */
+  private _resolution(width: number, height: number): string {
+    return RESOLUTIONS.find(r => width >= r.width || height >= r.height)!.name;
+  }
+
+  /**
+   * HDR format from Dolby Vision side data or the transfer characteristics
+   * @private
+   */
+  private _hdrFormat(video: any): string | null {
+    const sideData: any[] = Array.isArray(video.side_data_list) ? video.side_data_list : [];
+    if (video.codec_tag_string?.startsWith('dv') || sideData.some(data => data.side_data_type === 'DOVI configuration record')) {
+      return 'Dolby Vision';
+    }
+    if (video.color_transfer === 'smpte2084') {
+      return 'HDR10';
+    }
+    if (video.color_transfer === 'arib-std-b67') {
+      return 'HLG';
+    }
+    return null;
+  }
+
+  /**
+   * How browsers can play the file: as-is, after remuxing to MP4, or only transcoded
+   * @private
+   */
+  private _playback(format: any, video: any, mainAudio?: AudioTrack): PlaybackMode {
+    if (!video || !BROWSER_VIDEO_CODECS.includes(video.codec_name) || (mainAudio && !BROWSER_AUDIO_CODECS.includes(mainAudio.codec))) {
+      return 'transcode';
+    }
+
+    // format_name lists the demuxer's formats, e.g. 'mov,mp4,m4a,3gp,3g2,mj2' or 'matroska,webm'
+    const formats = String(format.format_name || '').split(',');
+    const codecs = [video.codec_name, mainAudio?.codec].filter(Boolean);
+    if (formats.includes('mp4') || (formats.includes('webm') && codecs.every(codec => WEBM_CODECS.includes(codec)))) {
+      return 'direct';
+    }
+    return 'remux';
+  }
+
+  /**
+   * @private
+   */
+  private _toNumber(value: unknown): number | null {
+    const number = Number(value);
+    return value !== undefined && value !== null && value !== '' && Number.isFinite(number) ? number : null;
+  }
+}
+
+export default new MediaProbeService();
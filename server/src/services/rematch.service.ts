@@ -0,0 +1,175 @@
+import logger from '../config/logger';
+import imdbService from './imdb.service';
+import db from './database.service';
+import { FileRecord } from '../types/database';
+import { RematchDTO } from '../types/dtos';
+
+/**
+ * Match fields of a file before or after a rematch
+ */
+interface MatchSnapshot {
+  imdb_id: string | null;
+  type: string | null;
+  season: number | null;
+  episode: number | null;
+  imdbName: string | null;
+  match_status: string | null;
+  match_locked: boolean;
+}
+
+/**
+ * Per-file rematch outcome
+ */
+export interface RematchFileDiff {
+  id: number;
+  path: string;
+  before: MatchSnapshot;
+  after: MatchSnapshot;
+  changed: boolean;
+  skipped?: 'locked';
+}
+
+/**
+ * Bulk rematch result
+ */
+export interface RematchResult {
+  dryRun: boolean;
+  matchedCount: number; // Files selected by the filter
+  changedCount: number;
+  skippedCount: number;
+  duration: number;
+  files: RematchFileDiff[];
+}
+
+/**
+ * Bulk rematch service
+ * Re-runs IMDB matching for stored files selected by a filter,
+ * e.g. a season directory that was matched to the wrong series
+ */
+class RematchService {
+  /**
+   * Rematch files
+   * Locked (manually pinned) files are skipped unless a target imdb_id is forced,
+   * in which case all selected files are pinned to it
+   * @param request - Filter, optional forced imdb_id/type and dry-run flag
+   * @returns Per-file before/after diff
+   */
+  async rematch(request: RematchDTO): Promise<RematchResult> {
+    const startTime = Date.now();
+    const dryRun = request.dry_run === true;
+    const files = await db.getFilesByFilter(request.filter);
+
+    const diffs: RematchFileDiff[] = [];
+    const filesToUpdate: FileRecord[] = [];
+    let skippedCount = 0;
+
+    for (const file of files) {
+      const before = this._snapshot(file);
+
+      if (file.match_locked && !request.imdb_id) {
+        skippedCount++;
+        diffs.push({ id: file.id!, path: file.path, before, after: before, changed: false, skipped: 'locked' });
+        continue;
+      }
+
+      const updated = await this._rematchFile(file, request);
+      const after = this._snapshot(updated);
+      const changed = JSON.stringify(before) !== JSON.stringify(after);
+
+      if (changed) {
+        filesToUpdate.push(updated);
+      }
+      diffs.push({ id: file.id!, path: file.path, before, after, changed });
+    }
+
+    if (!dryRun && filesToUpdate.length > 0) {
+      await db.upsertFilesBatch(filesToUpdate);
+    }
+
+    const duration = Date.now() - startTime;
+
+    logger.info('Rematch completed', {
+      filter: request.filter,
+      forcedImdbId: request.imdb_id,
+      dryRun,
+      matchedCount: files.length,
+      changedCount: filesToUpdate.length,
+      skippedCount,
+      duration: `${duration}ms`
+    });
+
+    return {
+      dryRun,
+      matchedCount: files.length,
+      changedCount: filesToUpdate.length,
+      skippedCount,
+      duration,
+      files: diffs
+    };
+  }
+
+  /**
+   * Process a file again (cache bypassed) and build its updated record
+   * @private
+   */
+  private async _rematchFile(file: FileRecord, request: RematchDTO): Promise<FileRecord> {
+    const imdbInfo = await imdbService.processFile(file.path, file.name, file.size, { bypassCache: true });
+
+    if (request.imdb_id) {
+      // Forced title: keep parsed (or stored) season/episode, drop metadata of the looked-up title
+      const parsedType = imdbInfo.type === 'movie' || imdbInfo.type === 'series' ? imdbInfo.type : null;
+      const type = request.type || parsedType || file.type || 'movie';
+      return {
+        ...file,
+        type,
+        imdb_id: request.imdb_id,
+        season: type === 'series' ? imdbInfo.season ?? file.season ?? null : null,
+        episode: type === 'series' ? imdbInfo.episode ?? file.episode ?? null : null,
+        imdbName: null,
+        imdbYear: null,
+        imdbType: type,
+        yearRange: null,
+        image: null,
+        starring: null,
+        similarity: null,
+        match_status: 'matched',
+        match_locked: true
+      };
+    }
+
+    return {
+      ...file,
+      type: imdbInfo.type,
+      imdb_id: imdbInfo.imdb_id || null,
+      season: imdbInfo.season,
+      episode: imdbInfo.episode,
+      imdbName: imdbInfo.imdbName || null,
+      imdbYear: imdbInfo.imdbYear || null,
+      imdbType: imdbInfo.imdbType || null,
+      yearRange: imdbInfo.yearRange || null,
+      image: imdbInfo.image || null,
+      starring: imdbInfo.starring || null,
+      similarity: imdbInfo.similarity || null,
+      match_status: imdbInfo.imdb_id ? 'matched' : 'unmatched',
+      match_locked: false
+    };
+  }
+
+  /**
+   * Extract the match fields compared in the diff
+   * @private
+   */
+  private _snapshot(file: FileRecord): MatchSnapshot {
+    return {
+      imdb_id: file.imdb_id ?? null,
+      type: file.type ?? null,
+      season: file.season ?? null,
+      episode: file.episode ?? null,
+      imdbName: file.imdbName ?? null,
+      match_status: file.match_status ?? null,
+      match_locked: file.match_locked === true
+    };
+  }
+}
+
+export default new RematchService();
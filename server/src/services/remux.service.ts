@@ -0,0 +1,105 @@
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import logger from '../config/logger';
+import config from '../config';
+
+// ffmpeg error output kept for the log when a remux fails
+const MAX_STDERR_BYTES = 4096;
+
+/**
+ * Remux options
+ */
+export interface RemuxOptions {
+  startSeconds: number; // Seek target (output starts at the keyframe before it)
+  audioStreamIndex: number | null; // Stream index of the audio track (null: first audio track)
+  hevc: boolean; // HEVC video is tagged hvc1, which browsers require in MP4
+}
+
+/**
+ * Running remux: fragmented MP4 written to output until the file ends or stop() is called
+ */
+export interface RemuxStream {
+  output: Readable;
+  stop(): void;
+  exited: Promise<void>; // Resolves when ffmpeg ends or is stopped, rejects with its error output
+}
+
+/**
+ * Remux service
+ * Rewrites video containers to fragmented MP4 with ffmpeg, copying the video and audio
+ * streams as they are (no transcoding), so browsers can play MKV and AVI files
+ */
+class RemuxService {
+  /**
+   * Start remuxing a file to fragmented MP4
+   * @param localPath - Absolute path of the video
+   * @param options - Seek position and tracks
+   */
+  start(localPath: string, options: RemuxOptions): RemuxStream {
+    const args = this.buildArgs(localPath, options);
+    const child = spawn(config.ffmpeg.path, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    let stderr = '';
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_BYTES);
+    });
+
+    let stopped = false;
+    const exited = new Promise<void>((resolve, reject) => {
+      child.on('error', reject); // Binary missing or not executable
+      child.on('close', (code, signal) => {
+        if (code === 0 || stopped) {
+          resolve();
+        } else {
+          reject(new Error(`ffmpeg failed: ${stderr.trim() || `exit code ${code ?? signal}`}`));
+        }
+      });
+    });
+
+    logger.debug('Remux started', { path: localPath, startSeconds: options.startSeconds, pid: child.pid });
+
+    return {
+      output: child.stdout,
+      stop: () => {
+        if (child.exitCode === null && !stopped) {
+          stopped = true;
+          child.kill('SIGKILL');
+        }
+      },
+      exited
+    };
+  }
+
+  /**
+   * Build the ffmpeg arguments of a remux
+   */
+  buildArgs(localPath: string, options: RemuxOptions): string[] {
+    const args = ['-v', 'error', '-nostdin'];
+
+    // Input seeking: fast, and with stream copy it lands on the preceding keyframe
+    if (options.startSeconds > 0) {
+      args.push('-ss', String(options.startSeconds));
+    }
+
+    args.push(
+      '-i', localPath,
+      '-map', '0:v:0',
+      '-map', options.audioStreamIndex !== null ? `0:${options.audioStreamIndex}` : '0:a:0?',
+      '-c', 'copy'
+    );
+
+    if (options.hevc) {
+      args.push('-tag:v', 'hvc1');
+    }
+
+    // Fragmented MP4 can be written to a pipe: no seeking back to write the index
+    args.push(
+      '-movflags', 'frag_keyframe+empty_moov+default_base_moof',
+      '-f', 'mp4',
+      'pipe:1'
+    );
+    return args;
+  }
+}
+
+export default new RemuxService();
@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto';
+import { ScanPhase, ScanProgress } from './file-scanner.service';
+
+// Finished jobs kept for GET /api/scans/:jobId (oldest are dropped first)
+const MAX_FINISHED_JOBS = 100;
+
+export type ScanJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Tracked scan of a watch folder
+ */
+export interface ScanJob {
+  jobId: string;
+  watchFolderId: number;
+  trigger: 'manual' | 'scheduled';
+  status: ScanJobStatus;
+  cancelRequested: boolean; // Cancellation requested, scan still unwinding
+  phase: ScanPhase;
+  filesFound: number;
+  total: number;
+  processed: number;
+  currentFile: string | null;
+  etaSeconds: number | null; // Estimated remaining processing time (null until it can be estimated)
+  startedAt: string;
+  finishedAt: string | null;
+  result: Record<string, any> | null; // Scan totals once completed
+  error: string | null;
+}
+
+/**
+ * Registry of running and recently finished scan jobs
+ * Jobs live in memory only; scan history is persisted separately (ScanEntity)
+ */
+class ScanJobsService {
+  private jobs: Map<string, ScanJob>;
+  private processingStartedAt: Map<string, number>; // Per job, for the ETA
+  private abortControllers: Map<string, AbortController>; // Running jobs only
+
+  constructor() {
+    this.jobs = new Map();
+    this.processingStartedAt = new Map();
+    this.abortControllers = new Map();
+  }
+
+  /**
+   * Register a new running job
+   */
+  create(watchFolderId: number, trigger: ScanJob['trigger']): ScanJob {
+    const job: ScanJob = {
+      jobId: randomUUID(),
+      watchFolderId,
+      trigger,
+      status: 'running',
+      cancelRequested: false,
+      phase: 'discovering',
+      filesFound: 0,
+      total: 0,
+      processed: 0,
+      currentFile: null,
+      etaSeconds: null,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      result: null,
+      error: null
+    };
+    this.jobs.set(job.jobId, job);
+    this.abortControllers.set(job.jobId, new AbortController());
+    return job;
+  }
+
+  /**
+   * Get the abort signal of a running job (aborted by cancel)
+   */
+  getSignal(jobId: string): AbortSignal | undefined {
+    return this.abortControllers.get(jobId)?.signal;
+  }
+
+  /**
+   * Request cancellation of a running job
+   * The scan stops at its next checkpoint and the job then becomes 'cancelled'
+   * @returns False if the job is not running
+   */
+  cancel(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    const controller = this.abortControllers.get(jobId);
+    if (!job || job.status !== 'running' || !controller) {
+      return false;
+    }
+
+    job.cancelRequested = true;
+    controller.abort();
+    return true;
+  }
+
+  /**
+   * Apply scan progress to a job and update its ETA
+   */
+  updateProgress(jobId: string, progress: ScanProgress): void {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'running') {
+      return;
+    }
+
+    Object.assign(job, progress);
+
+    if (progress.phase !== 'processing') {
+      job.etaSeconds = progress.phase === 'discovering' ? null : 0;
+      return;
+    }
+
+    const now = Date.now();
+    if (!this.processingStartedAt.has(jobId)) {
+      this.processingStartedAt.set(jobId, now);
+    }
+
+    // Extrapolate from the average time per file handled so far
+    const elapsedMs = now - this.processingStartedAt.get(jobId)!;
+    job.etaSeconds = progress.processed > 0
+      ? Math.round((elapsedMs / progress.processed) * (progress.total - progress.processed) / 1000)
+      : null;
+  }
+
+  /**
+   * Mark a job as completed
+   */
+  complete(jobId: string, result: Record<string, any>): void {
+    this._finish(jobId, { status: 'completed', result });
+  }
+
+  /**
+   * Mark a job as failed
+   */
+  fail(jobId: string, error: string): void {
+    this._finish(jobId, { status: 'failed', error });
+  }
+
+  /**
+   * Mark a job as cancelled (after its scan stopped)
+   */
+  markCancelled(jobId: string): void {
+    this._finish(jobId, { status: 'cancelled' });
+  }
+
+  /**
+   * Get a job by ID
+   */
+  get(jobId: string): ScanJob | null {
+    return this.jobs.get(jobId) || null;
+  }
+
+  /**
+   * Get the running job of a watch folder
+   */
+  getRunningJob(watchFolderId: number): ScanJob | null {
+    for (const job of this.jobs.values()) {
+      if (job.watchFolderId === watchFolderId && job.status === 'running') {
+        return job;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finish a job and drop the oldest finished jobs past the limit
+   * @private
+   */
+  private _finish(jobId: string, update: Partial<ScanJob>): void {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return;
+    }
+
+    Object.assign(job, update, {
+      currentFile: null,
+      etaSeconds: null,
+      finishedAt: new Date().toISOString()
+    });
+    this.processingStartedAt.delete(jobId);
+    this.abortControllers.delete(jobId);
+
+    // Map iteration is in insertion order: oldest jobs first
+    const finished = Array.from(this.jobs.values()).filter(j => j.status !== 'running');
+    for (const old of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(old.jobId);
+    }
+  }
+}
+
+export default new ScanJobsService();
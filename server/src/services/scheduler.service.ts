@@ -1,14 +1,26 @@
 import cron from 'node-cron';
 import logger from '../config/logger';
-import fileScannerService from './file-scanner.service';
+import config from '../config';
+import db from './database.service';
+import fileScannerService, { ScanProgress } from './file-scanner.service';
+import fileWatcherService from './file-watcher.service';
+import eventsService from './events.service';
+import scanJobsService, { ScanJob } from './scan-jobs.service';
 import { WatchFolder } from '../types/database';
 
+// Minimum interval between scan.progress events per scan
+const PROGRESS_EVENT_INTERVAL_MS = 1000;
+
 interface ScanResult {
   success: boolean;
   filesFound: number;
   processedCount: number;
   skippedCount: number;
+  restoredCount: number;
+  movedCount: number;
   removedCount: number;
+  pendingCount: number;
+  unavailableReason: string | null;
   duration: number;
 }
 
@@ -25,10 +37,12 @@ interface WatchFolderJob {
 class SchedulerService {
   private jobs: Map<number, WatchFolderJob>;
   private scanningFolders: Set<number>; // Track which folders are currently scanning
+  private purgeJob: import('node-cron').ScheduledTask | null; // Trash purge
 
   constructor() {
     this.jobs = new Map();
     this.scanningFolders = new Set();
+    this.purgeJob = null;
   }
 
   /**
@@ -39,6 +53,22 @@ class SchedulerService {
    * @returns Scan result
    */
   private async _executeScan(watchFolderId: number, isManual: boolean = false): Promise<ScanResult | null> {
+    const started = this._startScanJob(watchFolderId, isManual);
+    return started ? await started.done : null;
+  }
+
+  /**
+   * Register a scan job and start scanning
+   * The job is registered synchronously, so callers can return its ID right away
+   * @private
+   * @param watchFolderId - Watch folder ID to scan
+   * @param isManual - Whether this is a manual trigger (throws if already scanning)
+   * @returns Job and scan completion, or null if a scheduled scan was skipped
+   */
+  private _startScanJob(
+    watchFolderId: number,
+    isManual: boolean
+  ): { job: ScanJob; done: Promise<ScanResult | null> } | null {
     if (this.scanningFolders.has(watchFolderId)) {
       if (isManual) {
         throw new Error(`Scan already in progress for watch folder ${watchFolderId}`);
@@ -48,23 +78,62 @@ class SchedulerService {
     }
 
     this.scanningFolders.add(watchFolderId);
+    const trigger = isManual ? 'manual' : 'scheduled';
+    const job = scanJobsService.create(watchFolderId, trigger);
+
+    return { job, done: this._runScanJob(job, isManual) };
+  }
+
+  /**
+   * Run a registered scan job to completion
+   * @private
+   */
+  private async _runScanJob(job: ScanJob, isManual: boolean): Promise<ScanResult | null> {
+    const { jobId, watchFolderId, trigger } = job;
     const logPrefix = isManual ? 'Manual' : 'Scheduled';
-    logger.info(`Starting ${logPrefix.toLowerCase()} file scan`, { watchFolderId });
+    logger.info(`Starting ${logPrefix.toLowerCase()} file scan`, { watchFolderId, jobId });
+    eventsService.publish('scan.started', { watchFolderId, jobId, trigger });
+    const signal = scanJobsService.getSignal(jobId);
     
     try {
-      const result = await fileScannerService.scan(watchFolderId);
+      let lastProgressAt = 0;
+      const result = await fileScannerService.scan(watchFolderId, (progress: ScanProgress) => {
+        scanJobsService.updateProgress(jobId, progress);
+        const now = Date.now();
+        if (now - lastProgressAt < PROGRESS_EVENT_INTERVAL_MS) {
+          return;
+        }
+        lastProgressAt = now;
+        eventsService.publish('scan.progress', { watchFolderId, jobId, ...progress, etaSeconds: job.etaSeconds });
+      }, signal);
       logger.info(`${logPrefix} file scan completed`, { 
         watchFolderId,
+        jobId,
         filesFound: result.filesFound,
         duration: `${result.duration}ms`
       });
+      scanJobsService.complete(jobId, result);
+      eventsService.publish('scan.completed', { watchFolderId, jobId, trigger, ...result });
       return result;
     } catch (error: any) {
+      if (signal?.aborted) {
+        logger.info(`${logPrefix} file scan cancelled`, { watchFolderId, jobId });
+        scanJobsService.markCancelled(jobId);
+        eventsService.publish('scan.cancelled', { watchFolderId, jobId, trigger });
+        if (isManual) {
+          throw new Error('Scan cancelled');
+        }
+        return null;
+      }
+
       logger.error(`${logPrefix} file scan failed`, { 
         watchFolderId,
+        jobId,
         error: error.message,
         stack: error.stack 
       });
+      scanJobsService.fail(jobId, error.message);
+      eventsService.publish('scan.failed', { watchFolderId, jobId, trigger, error: error.message });
       if (isManual) {
         throw error;
       }
@@ -74,6 +143,63 @@ class SchedulerService {
     }
   }
 
+  /**
+   * Sync paths reported by live watch for a watch folder
+   * Deferred (returns false) while a full scan of the folder is running
+   * @private
+   * @param watchFolderId - Watch folder ID
+   * @param changedPaths - Changed paths relative to the watch folder root
+   * @returns Whether the changes were handled
+   */
+  private async _executeSync(watchFolderId: number, changedPaths: string[]): Promise<boolean> {
+    if (this.scanningFolders.has(watchFolderId)) {
+      logger.debug('Deferring live watch sync - scan in progress', { watchFolderId });
+      return false;
+    }
+
+    this.scanningFolders.add(watchFolderId);
+    try {
+      const result = await fileScannerService.syncPaths(watchFolderId, changedPaths);
+      // Files still inside the stability window are checked again once it has passed
+      fileWatcherService.recheck(watchFolderId, result.pendingPaths);
+      return true;
+    } finally {
+      this.scanningFolders.delete(watchFolderId);
+    }
+  }
+
+  /**
+   * Permanently delete files that have been in the trash longer than the retention
+   * @private
+   */
+  private async _purgeTrash(): Promise<number> {
+    const retentionMs = config.trash.retentionDays * 24 * 60 * 60 * 1000;
+    try {
+      const purged = await db.purgeDeletedFiles(new Date(Date.now() - retentionMs));
+      if (purged > 0) {
+        logger.info('Purged files from trash', { count: purged, retentionDays: config.trash.retentionDays });
+      }
+      return purged;
+    } catch (error: any) {
+      logger.error('Trash purge failed', { error: error.message });
+      return 0;
+    }
+  }
+
+  /**
+   * Start live watch for a watch folder if enabled on it
+   * Periodic full scans keep running as a safety net
+   * @private
+   */
+  private _startLiveWatch(watchFolder: WatchFolder): void {
+    if (!watchFolder.live_watch || !watchFolder.id) {
+      return;
+    }
+    fileWatcherService.watch(watchFolder, (watchFolderId, changedPaths) =>
+      this._executeSync(watchFolderId, changedPaths)
+    );
+  }
+
   /**
    * Start scheduler for all enabled watch folders
    * @param watchFolders - Array of watch folders to schedule
@@ -117,6 +243,7 @@ class SchedulerService {
         
         // Start the job (it's scheduled but not started by default)
         scanJob.start();
+        this._startLiveWatch(watchFolder);
         
         logger.info('Scheduled watch folder scan', { 
           watchFolderId: watchFolder.id,
@@ -125,6 +252,14 @@ class SchedulerService {
         });
       }
     }
+
+    // Schedule trash purge
+    if (cron.validate(config.trash.purgeInterval)) {
+      this.purgeJob = cron.schedule(config.trash.purgeInterval, () => this._purgeTrash());
+      this.purgeJob.start();
+    } else {
+      logger.error('Invalid trash purge interval cron expression', { interval: config.trash.purgeInterval });
+    }
     
     logger.info('Scheduler started', { 
       totalJobs: this.jobs.size,
@@ -145,6 +280,12 @@ class SchedulerService {
       logger.info('Stopped scheduled job', { watchFolderId });
     });
     this.jobs.clear();
+    fileWatcherService.unwatchAll();
+
+    if (this.purgeJob) {
+      this.purgeJob.stop();
+      this.purgeJob = null;
+    }
   }
 
   /**
@@ -181,6 +322,7 @@ class SchedulerService {
       watchFolder,
       job: scanJob
     });
+    this._startLiveWatch(watchFolder);
 
     logger.info('Added watch folder to scheduler', { 
       watchFolderId: watchFolder.id,
@@ -193,6 +335,7 @@ class SchedulerService {
    * Remove a watch folder job
    */
   removeWatchFolder(watchFolderId: number): void {
+    fileWatcherService.unwatch(watchFolderId);
     const job = this.jobs.get(watchFolderId);
     if (job) {
       job.job.stop();
@@ -208,11 +351,13 @@ class SchedulerService {
     return {
       active: this.jobs.size > 0,
       scanningFolders: Array.from(this.scanningFolders),
+      watchedFolders: fileWatcherService.getWatchedFolderIds(),
       jobs: Array.from(this.jobs.values()).map(j => ({
         watchFolderId: j.watchFolderId,
         path: j.watchFolder.path,
         interval: j.watchFolder.scan_interval,
-        name: j.watchFolder.name || j.watchFolder.path
+        name: j.watchFolder.name || j.watchFolder.path,
+        liveWatch: fileWatcherService.isWatching(j.watchFolderId)
       }))
     };
   }
@@ -230,6 +375,32 @@ class SchedulerService {
     return result;
   }
 
+  /**
+   * Start a manual scan in the background and return its job
+   * Progress and outcome are tracked on the job (see scan-jobs.service)
+   * @param watchFolderId - Watch folder ID to scan
+   * @returns Running scan job
+   */
+  startScan(watchFolderId: number): ScanJob {
+    const { job, done } = this._startScanJob(watchFolderId, true)!;
+    // Failure is recorded on the job and logged; nobody awaits the background scan
+    done.catch(() => undefined);
+    return job;
+  }
+
+  /**
+   * Request cancellation of a running scan job
+   * @param jobId - Scan job ID
+   * @returns False if the job is not running
+   */
+  cancelScan(jobId: string): boolean {
+    const cancelled = scanJobsService.cancel(jobId);
+    if (cancelled) {
+      logger.info('Scan cancellation requested', { jobId });
+    }
+    return cancelled;
+  }
+
   /**
    * Check if a watch folder is currently scanning
    */
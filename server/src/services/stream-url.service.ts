@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import logger from '../config/logger';
+import config from '../config';
+
+// Signature scope of the event stream URL (file URLs are scoped by file ID)
+const EVENTS_SCOPE = 'events';
+
+/**
+ * Signature of a stream URL, carried in its query string (?exp=...&sig=...[&ip=1])
+ */
+export interface StreamUrlSignature {
+  exp: number; // Expiry, Unix seconds
+  sig: string; // HMAC-SHA256 of scope (file ID or 'events'), expiry and bound IP (base64url)
+  ipBound: boolean; // Valid only from the IP it was signed for (the IP itself is not in the URL)
+}
+
+export type StreamUrlCheck = 'valid' | 'expired' | 'invalid';
+
+/**
+ * Signed stream URL service
+ * Signs per-file stream URLs so players that cannot send the X-API-Key header can stream
+ * without disabling authentication. A signature is valid for every stream endpoint of its file.
+ * The event stream (GET /api/events, EventSource cannot send headers either) is signed the same way
+ */
+class StreamUrlService {
+  private secret: string | null = null;
+
+  /**
+   * Sign a file's stream URLs
+   * @param fileId - File the URLs are valid for
+   * @param ttlSeconds - Validity from now
+   * @param ip - Client IP to bind the URLs to (null: any client)
+   */
+  sign(fileId: number, ttlSeconds: number, ip: string | null): StreamUrlSignature {
+    const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+    return {
+      exp,
+      sig: this._signature(String(fileId), exp, ip),
+      ipBound: ip !== null
+    };
+  }
+
+  /**
+   * Verify a signature for a file and client
+   */
+  verify(fileId: number, signature: StreamUrlSignature, clientIp: string | undefined): StreamUrlCheck {
+    return this._verify(String(fileId), signature, clientIp);
+  }
+
+  /**
+   * Sign the event stream URL (any client, checked when the stream is opened)
+   * @param ttlSeconds - Validity from now
+   */
+  signEvents(ttlSeconds: number): StreamUrlSignature {
+    const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+    return { exp, sig: this._signature(EVENTS_SCOPE, exp, null), ipBound: false };
+  }
+
+  /**
+   * Verify an event stream URL signature
+   */
+  verifyEvents(signature: StreamUrlSignature, clientIp: string | undefined): StreamUrlCheck {
+    return this._verify(EVENTS_SCOPE, signature, clientIp);
+  }
+
+  /**
+   * Query string of a signature (without the leading '?')
+   */
+  toQuery(signature: StreamUrlSignature): string {
+    return `exp=${signature.exp}&sig=${signature.sig}${signature.ipBound ? '&ip=1' : ''}`;
+  }
+
+  /**
+   * Verify a signature for a scope and client
+   * The signature is checked before the expiry, so a tampered expiry is reported as invalid
+   * @private
+   */
+  private _verify(scope: string, signature: StreamUrlSignature, clientIp: string | undefined): StreamUrlCheck {
+    if (signature.ipBound && !clientIp) {
+      return 'invalid';
+    }
+
+    const expected = Buffer.from(this._signature(scope, signature.exp, signature.ipBound ? clientIp! : null));
+    const provided = Buffer.from(signature.sig);
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      return 'invalid';
+    }
+
+    return signature.exp < Math.floor(Date.now() / 1000) ? 'expired' : 'valid';
+  }
+
+  /**
+   * @private
+   */
+  private _signature(scope: string, exp: number, ip: string | null): string {
+    return crypto
+      .createHmac('sha256', this._getSecret())
+      .update(`${scope}:${exp}:${ip !== null ? this._normalizeIp(ip) : ''}`)
+      .digest('base64url');
+  }
+
+  /**
+   * HMAC key: STREAM_URL_SECRET, else the API key, else a random key (URLs stop working on restart)
+   * @private
+   */
+  private _getSecret(): string {
+    if (!this.secret) {
+      this.secret = config.streamUrls.secret || config.apiKey || null;
+      if (!this.secret) {
+        this.secret = crypto.randomBytes(32).toString('hex');
+        logger.warn('Neither STREAM_URL_SECRET nor API_KEY is set; signed stream URLs are only valid until the server restarts');
+      }
+    }
+    return this.secret;
+  }
+
+  /**
+   * IPv4 clients on dual-stack sockets are reported as IPv4-mapped IPv6 addresses
+   * @private
+   */
+  private _normalizeIp(ip: string): string {
+    return ip.startsWith('::ffff:') && ip.includes('.') ? ip.slice('::ffff:'.length) : ip;
+  }
+}
+
+export default new StreamUrlService();
@@ -29,8 +29,153 @@ export interface FileRecord {
   starring?: string | null;
   similarity?: number | null;
   watch_folder_id?: number | null;
+  match_status?: FileMatchStatus;
+  match_locked?: boolean; // Manually pinned match, never overwritten by scans
+  partial_hash?: string | null; // Hash of size, head and tail (only with move detection hashing)
+  fingerprint?: string | null; // OpenSubtitles hash (only with file fingerprinting)
+  duration?: number | null; // Seconds (media probe)
+  width?: number | null;
+  height?: number | null;
+  bitrate?: number | null; // Overall bits per second (media probe)
+  videoProfile?: string | null;
+  hdrFormat?: string | null; // 'HDR10', 'HLG' or 'Dolby Vision' (media probe)
+  probedAt?: string | null; // Set when codecs, resolution and tracks come from the media probe
+  playback?: PlaybackMode | null; // How browsers can play the file (media probe, null if unknown)
+  audioTracks?: AudioTrack[]; // Replaces the stored tracks on upsert when given
+  subtitleTracks?: SubtitleTrack[];
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string | null; // Set while the file is in the trash
+}
+
+/**
+ * Audio stream of a file, as found by the media probe
+ */
+export interface AudioTrack {
+  stream_index: number; // Stream index in the container (ffprobe/ffmpeg numbering)
+  codec: string;
+  profile?: string | null;
+  language?: string | null; // ISO 639-2 code as tagged in the container
+  title?: string | null;
+  channels?: number | null;
+  channel_layout?: string | null;
+  sample_rate?: number | null;
+  bitrate?: number | null;
+  is_default: boolean;
+  is_forced: boolean;
+}
+
+/**
+ * Subtitle stream of a file, as found by the media probe
+ */
+export interface SubtitleTrack {
+  stream_index: number;
+  codec: string; // e.g. subrip, ass, mov_text, hdmv_pgs_subtitle (image-based)
+  language?: string | null;
+  title?: string | null;
+  is_default: boolean;
+  is_forced: boolean;
+  is_hearing_impaired: boolean;
+}
+
+/**
+ * Subtitle file next to a video (sidecar), e.g. Movie.en.srt for Movie.mkv
+ */
+export interface SidecarSubtitle {
+  id?: number;
+  file_id?: number;
+  name: string;
+  path: string; // Relative to the watch folder root, like file paths
+  size: number;
+  mtime: number;
+  format: string; // Extension without the dot: srt, ass, ssa or vtt
+  language?: string | null; // ISO 639-2 code from the filename suffix (null if none)
+  is_forced: boolean;
+  is_hearing_impaired: boolean;
+}
+
+/**
+ * Sidecar subtitles found for a video path (scanner input for syncing stored sidecars)
+ */
+export interface FileSidecars {
+  path: string;
+  subtitles: SidecarSubtitle[];
+}
+
+/**
+ * Kind of stream track stored by the media probe
+ */
+export type TrackType = 'audio' | 'subtitle';
+
+/**
+ * Audio and subtitle tracks of a file
+ */
+export interface FileTracks {
+  fileId: number;
+  probed: boolean; // False if the file was not probed (tracks unknown, not absent)
+  probedAt: string | null;
+  audio: AudioTrack[];
+  subtitles: SubtitleTrack[];
+}
+
+/**
+ * New location of a stored file that was moved or renamed on storage
+ */
+export interface FileMove {
+  id: number;
+  path: string;
+  name: string;
+}
+
+/**
+ * Content hashes computed by the scanner for a stored file
+ */
+export interface FileHashes {
+  id: number;
+  partial_hash?: string | null;
+  fingerprint?: string | null;
+}
+
+/**
+ * Whether an IMDB ID was found for a file
+ * Unmatched files are kept so they are not re-parsed on every scan,
+ * but are not listed in the library
+ */
+export type FileMatchStatus = 'matched' | 'unmatched';
+
+/**
+ * How a browser player can play a file
+ * - direct: the file can be streamed as-is (MP4, or WebM codecs)
+ * - remux: codecs are supported but the container is not (GET /api/stream/:id/remux.mp4)
+ * - transcode: the video or main audio codec is not supported by browsers (GET /api/stream/:id/hls/master.m3u8)
+ */
+export type PlaybackMode = 'direct' | 'remux' | 'transcode';
+
+/**
+ * Kind of change recorded in the file change feed ('removed' entries are tombstones)
+ */
+export type FileChangeType = 'added' | 'updated' | 'removed';
+
+/**
+ * Page of the file change feed
+ */
+export interface FileChangeFeed {
+  cursor: number; // Pass as `since` to get the next changes
+  added: number[];
+  updated: number[];
+  removed: number[];
+  hasMore: boolean; // More changes after cursor (page limit reached)
+  reset: boolean; // Cursor missing or too old: reload the full file list, then continue from cursor
+}
+
+/**
+ * Criteria for selecting files (all given criteria must match)
+ */
+export interface FileFilter {
+  watch_folder_id?: number;
+  path_prefix?: string; // File path or directory, relative to the watch folder root
+  imdb_id?: string;
+  similarity_below?: number; // Automatic matches with similarity below this value
 }
 
 /**
@@ -38,10 +183,12 @@ export interface FileRecord {
  */
 export interface DatabaseStats {
   totalFiles: number;
+  unmatchedFiles: number;
   uniqueImdb: number;
   totalSize: number;
   byType: Record<string, number>;
   lastScan: ScanRecord | null;
+  unavailableWatchFolders: UnavailableWatchFolder[];
 }
 
 /**
@@ -55,9 +202,15 @@ export interface ScanRecord {
   errors: number;
   processedCount: number;
   skippedCount: number;
+  status: ScanStatus;
   watch_folder_id?: number | null;
 }
 
+/**
+ * Outcome of a recorded scan
+ */
+export type ScanStatus = 'completed' | 'failed' | 'cancelled';
+
 /**
  * Watch folder configuration interface
  */
@@ -69,15 +222,31 @@ export interface WatchFolder {
   scan_interval: string; // cron expression
   allowed_extensions: string[]; // e.g., [".mp4", ".mkv"]
   min_video_size_mb: number;
+  stability_window_seconds: number; // Files modified more recently are deferred (0 = disabled)
   temporary_extensions: string[]; // e.g., [".part", ".tmp"]
   type: 'local' | 'network' | 's3';
+  live_watch: boolean; // Subscribe to filesystem events (local folders only)
   username?: string | null;
   password_encrypted?: string | null; // Never returned in API responses
   domain?: string | null;
+  max_removal_percent: number; // Scans removing a larger share of files are refused (100 = no limit)
+  unavailable_reason?: string | null; // Why the last scan refused to remove files (null = available)
+  unavailable_since?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
+/**
+ * Watch folder marked unavailable by the mass-deletion guard
+ */
+export interface UnavailableWatchFolder {
+  id: number;
+  name: string | null;
+  path: string;
+  reason: string;
+  since: string;
+}
+
 /**
  * Server setting interface
  */
@@ -86,3 +255,15 @@ export interface ServerSetting {
   value: string;
   updated_at?: string;
 }
+
+/**
+ * Database schema (migrations) status interface
+ */
+export interface SchemaStatus {
+  databaseType: string;
+  version: number | null; // Timestamp of the latest applied migration
+  currentMigration: string | null;
+  applied: Array<{ name: string; timestamp: number }>;
+  pending: string[];
+  upToDate: boolean;
+}
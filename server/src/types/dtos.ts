@@ -1,3 +1,5 @@
+import { FileFilter } from './database';
+
 /**
  * Watch folder creation/update DTO
  * Password is sent as plain text and encrypted before storage
@@ -9,10 +11,49 @@ export interface WatchFolderDTO {
   scan_interval?: string;
   allowed_extensions?: string[];
   min_video_size_mb?: number;
+  stability_window_seconds?: number;
   temporary_extensions?: string[];
   type?: 'local' | 'network' | 's3';
+  live_watch?: boolean;
   username?: string;
   password?: string; // Plain text - will be encrypted before storage
   domain?: string;
+  max_removal_percent?: number;
+}
+
+/**
+ * Bulk rematch request
+ * Without imdb_id, matching files are looked up again (cache bypassed);
+ * with imdb_id, they are all pinned to that title
+ */
+export interface RematchDTO {
+  filter: FileFilter;
+  imdb_id?: string;
+  type?: 'movie' | 'series';
+  dry_run?: boolean;
+}
+
+/**
+ * Signed stream URL request
+ * The URL can be bound to the requesting client's IP (bind_ip) or to a given IP
+ * (ip, e.g. the player's address when an add-on requests URLs on its behalf)
+ */
+export interface StreamTokenDTO {
+  ttl_seconds?: number;
+  bind_ip?: boolean;
+  ip?: string;
+}
+
+/**
+ * Manual IMDB match override for a file
+ * Title/year are optional display metadata (e.g. taken from an IMDB search result)
+ */
+export interface FileMatchDTO {
+  imdb_id: string;
+  type: 'movie' | 'series';
+  season?: number | null;
+  episode?: number | null;
+  imdbName?: string | null;
+  imdbYear?: number | null;
 }
 
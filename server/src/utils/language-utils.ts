@@ -0,0 +1,77 @@
+/**
+ * Language code utility functions
+ * Container stream tags use ISO 639-2 codes, in the bibliographic (fre, ger)
+ * or terminology (fra, deu) form depending on the muxer
+ */
+
+// ISO 639-1 code -> ISO 639-2 codes (bibliographic first)
+const ISO_639_2: Record<string, string[]> = {
+  ar: ['ara'],
+  bg: ['bul'],
+  cs: ['cze', 'ces'],
+  da: ['dan'],
+  de: ['ger', 'deu'],
+  el: ['gre', 'ell'],
+  en: ['eng'],
+  es: ['spa'],
+  et: ['est'],
+  fa: ['per', 'fas'],
+  fi: ['fin'],
+  fr: ['fre', 'fra'],
+  he: ['heb'],
+  hi: ['hin'],
+  hr: ['hrv'],
+  hu: ['hun'],
+  id: ['ind'],
+  is: ['ice', 'isl'],
+  it: ['ita'],
+  ja: ['jpn'],
+  ko: ['kor'],
+  lt: ['lit'],
+  lv: ['lav'],
+  ms: ['may', 'msa'],
+  nl: ['dut', 'nld'],
+  no: ['nor', 'nob', 'nno'],
+  pl: ['pol'],
+  pt: ['por'],
+  ro: ['rum', 'ron'],
+  ru: ['rus'],
+  sk: ['slo', 'slk'],
+  sl: ['slv'],
+  sr: ['srp'],
+  sv: ['swe'],
+  th: ['tha'],
+  tr: ['tur'],
+  uk: ['ukr'],
+  vi: ['vie'],
+  zh: ['chi', 'zho']
+};
+
+/**
+ * Get the stream language tags that stand for a language
+ * @param code - ISO 639-1 (en) or ISO 639-2 (eng, fre, fra) code, any case
+ * @returns Matching ISO 639-2 codes, or null for an unknown two-letter code
+ */
+export function getLanguageTags(code: string): string[] | null {
+  const normalized = code.toLowerCase();
+  if (normalized.length === 2) {
+    return ISO_639_2[normalized] || null;
+  }
+
+  // Both forms of a three-letter code (fre also matches fra)
+  const aliases = Object.values(ISO_639_2).find(tags => tags.includes(normalized));
+  return aliases || [normalized];
+}
+
+/**
+ * Normalize a known language code to the ISO 639-2 code used by stream tags
+ * @param code - ISO 639-1 (en) or ISO 639-2 (eng, fre, fra) code, or a locale (pt-BR, en_US)
+ * @returns ISO 639-2 code (bibliographic form), or null if the code is not a known language
+ */
+export function normalizeLanguageCode(code: string): string | null {
+  const normalized = code.toLowerCase().split(/[-_]/)[0];
+  if (normalized.length === 2) {
+    return ISO_639_2[normalized]?.[0] || null;
+  }
+  return Object.values(ISO_639_2).find(tags => tags.includes(normalized))?.[0] || null;
+}
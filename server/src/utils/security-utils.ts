@@ -40,3 +40,14 @@ export function hasPathTraversal(input: string): boolean {
   
   return dangerousPatterns.some(pattern => pattern.test(input));
 }
+
+/**
+ * Replace the values of query parameters in a URL, e.g. credentials before it is logged
+ * @param url - Request URL (path and query string)
+ * @param names - Parameter names to redact
+ * @returns URL with those parameter values replaced by "[REDACTED]"
+ */
+export function redactQueryParams(url: string, names: string[]): string {
+  const pattern = new RegExp(`([?&](?:${names.join('|')})=)[^&#]*`, 'g');
+  return url.replace(pattern, '$1[REDACTED]');
+}
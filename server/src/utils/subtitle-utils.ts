@@ -0,0 +1,104 @@
+import path from 'path';
+import { normalizeLanguageCode } from './language-utils';
+
+/**
+ * Subtitle utility functions
+ * Sidecar subtitle naming and text conversion for serving subtitles to players
+ */
+
+// Extensions of sidecar subtitle files collected next to videos
+export const SUBTITLE_EXTENSIONS = ['.srt', '.ass', '.ssa', '.vtt'];
+
+// Filename suffixes flagging forced and hearing impaired subtitles
+const FORCED_TAGS = ['forced'];
+const HEARING_IMPAIRED_TAGS = ['sdh', 'hi', 'cc'];
+
+/**
+ * Language and flags of a sidecar subtitle, from its filename suffix
+ */
+export interface SidecarNameInfo {
+  language: string | null; // ISO 639-2 code
+  is_forced: boolean;
+  is_hearing_impaired: boolean;
+}
+
+/**
+ * Check if a file is a subtitle by its extension
+ * @param fileName - File name or path
+ * @returns True for sidecar subtitle extensions
+ */
+export function isSubtitleFile(fileName: string): boolean {
+  return SUBTITLE_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+/**
+ * Match a subtitle filename to a video in the same directory
+ * The subtitle must be named after the video, optionally followed by suffixes:
+ * Movie.srt, Movie.en.srt, Movie.eng.forced.srt, Movie.pt-BR.sdh.srt
+ * Other suffixes name another video (Movie.Part2.en.srt, Show.S01E01.Extended.srt), so they do not match
+ * @param videoName - Video file name
+ * @param subtitleName - Subtitle file name
+ * @returns Language and flags from the suffixes, or null if the subtitle belongs to another file
+ */
+export function parseSidecarName(videoName: string, subtitleName: string): SidecarNameInfo | null {
+  const videoBase = path.parse(videoName).name;
+  const subtitleBase = path.parse(subtitleName).name;
+  if (subtitleBase !== videoBase && !subtitleBase.startsWith(`${videoBase}.`)) {
+    return null;
+  }
+
+  const info: SidecarNameInfo = { language: null, is_forced: false, is_hearing_impaired: false };
+  const suffixes = subtitleBase.slice(videoBase.length).split('.').filter(Boolean);
+  for (const suffix of suffixes.map(s => s.toLowerCase())) {
+    if (FORCED_TAGS.includes(suffix)) {
+      info.is_forced = true;
+    } else if (HEARING_IMPAIRED_TAGS.includes(suffix)) {
+      info.is_hearing_impaired = true;
+    } else {
+      const language = normalizeLanguageCode(suffix);
+      if (!language) {
+        return null;
+      }
+      if (!info.language) {
+        info.language = language;
+      }
+    }
+  }
+  return info;
+}
+
+/**
+ * Decode subtitle file content
+ * UTF-8 (with or without BOM) when valid, otherwise Windows-1252 (common for older SRT files)
+ * @param content - Raw file content
+ * @returns Text without BOM
+ */
+export function decodeSubtitle(content: Buffer): string {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(content);
+  } catch {
+    text = new TextDecoder('windows-1252').decode(content);
+  }
+  return text.replace(/^\uFEFF/, '');
+}
+
+/**
+ * Convert SubRip (SRT) text to WebVTT
+ * Cue numbers are kept as cue identifiers; timestamps use '.' instead of ','
+ * (SRT position coordinates after the timing are dropped)
+ * @param srt - SRT text
+ * @returns WebVTT text
+ */
+export function srtToVtt(srt: string): string {
+  const timestamp = (hours: string, rest: string, ms: string) => `${hours.padStart(2, '0')}:${rest}.${ms.padEnd(3, '0')}`;
+  const body = srt
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .replace(
+      /^(\d+):(\d{2}:\d{2})[,.](\d{1,3})\s*-->\s*(\d+):(\d{2}:\d{2})[,.](\d{1,3}).*$/gm,
+      (_match, startH, start, startMs, endH, end, endMs) =>
+        `${timestamp(startH, start, startMs)} --> ${timestamp(endH, end, endMs)}`
+    );
+  return `WEBVTT\n\n${body}\n`;
+}
@@ -0,0 +1,174 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { existsSync } from 'fs';
+import config from '../src/config';
+import db from '../src/services/database.service';
+import { migrations } from '../src/services/database/migrations';
+import { FileRecord } from '../src/types/database';
+
+/**
+ * Runs the real database service against an on-disk SQLite file (DB_PATH from test/setup.ts)
+ */
+
+function movie(overrides: Partial<FileRecord> = {}): FileRecord {
+  return {
+    name: 'Movie.2020.1080p.mkv',
+    path: 'Movies/Movie.2020.1080p.mkv',
+    size: 4_500_000_000, // Above 2^32: stored in a bigint column
+    mtime: 1_700_000_000_000,
+    type: 'movie',
+    imdb_id: 'tt0000001',
+    match_status: 'matched',
+    ...overrides
+  };
+}
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe('DatabaseService (SQLite)', () => {
+  test('creates the database file and applies every migration', async () => {
+    const status = await db.getSchemaStatus();
+
+    expect(existsSync(config.database.path!)).toBe(true);
+    expect(status.databaseType).toBe('sqlite');
+    expect(status.upToDate).toBe(true);
+    expect(status.pending).toEqual([]);
+    expect(status.applied.length).toBe(migrations.length);
+    expect(status.currentMigration).toBe(migrations[migrations.length - 1].name);
+  });
+
+  test('inserts a file, then updates it in place by path', async () => {
+    const inserted = await db.upsertFile(movie({
+      audioTracks: [{ stream_index: 1, codec: 'aac', language: 'eng', channels: 2, is_default: true, is_forced: false }]
+    }));
+    const id = inserted.lastInsertRowid;
+
+    const stored = await db.getFileByPath('Movies/Movie.2020.1080p.mkv');
+    expect(stored?.id).toBe(id);
+    expect(stored?.size).toBe(4_500_000_000);
+    expect(stored?.mtime).toBe(1_700_000_000_000);
+
+    const updated = await db.upsertFile(movie({ resolution: '1080p', mtime: 1_700_000_100_000 }));
+    expect(updated.lastInsertRowid).toBe(id);
+
+    const file = await db.getFileById(id);
+    expect(file?.resolution).toBe('1080p');
+    expect(file?.mtime).toBe(1_700_000_100_000);
+    expect((await db.getAllFiles()).length).toBe(1);
+
+    // Tracks are kept when the update carries none
+    const tracks = await db.getFileTracks(id);
+    expect(tracks?.audio.map(track => track.codec)).toEqual(['aac']);
+  });
+
+  test('upserts batches and reports added and updated files', async () => {
+    const result = await db.upsertFilesBatch([
+      movie({ resolution: '2160p' }),
+      movie({ name: 'Show.S01E01.mkv', path: 'Shows/Show.S01E01.mkv', size: 700_000_000, type: 'series', imdb_id: 'tt0000002', season: 1, episode: 1 }),
+      movie({ name: 'Unknown.mkv', path: 'Unknown.mkv', size: 100_000_000, type: null, imdb_id: null, match_status: 'unmatched' })
+    ]);
+
+    expect(result).toEqual({ added: 2, updated: 1 });
+    expect((await db.getAllFiles()).length).toBe(2); // Matched files only
+    expect((await db.getUnmatchedFiles()).map(file => file.path)).toEqual(['Unknown.mkv']);
+    expect((await db.getFilesByImdb('tt0000002')).map(file => file.episode)).toEqual([1]);
+  });
+
+  test('moves removed files to the trash and restores them by ID on upsert', async () => {
+    const file = await db.getFileByPath('Unknown.mkv');
+
+    expect(await db.removeFile('Unknown.mkv')).toBe(true);
+    expect(await db.removeFile('Unknown.mkv')).toBe(false);
+    expect(await db.getFileByPath('Unknown.mkv')).toBeNull();
+
+    const trashed = await db.findDeletedFile('Other/Unknown.mkv', 'Unknown.mkv', 100_000_000);
+    expect(trashed?.id).toBe(file!.id);
+    expect(trashed?.deletedAt).toBeTruthy();
+
+    await db.upsertFile({ ...trashed!, path: 'Other/Unknown.mkv', deletedAt: null });
+    const restored = await db.getFileById(file!.id!);
+    expect(restored?.path).toBe('Other/Unknown.mkv');
+    expect(await db.getDeletedFiles()).toEqual([]);
+  });
+
+  test('removes files missing from a scan and purges the trash', async () => {
+    const removed = await db.removeFilesNotInList(['Movies/Movie.2020.1080p.mkv', 'Shows/Show.S01E01.mkv']);
+    expect(removed).toBe(1);
+    expect((await db.getDeletedFiles()).map(file => file.path)).toEqual(['Other/Unknown.mkv']);
+
+    expect(await db.purgeDeletedFiles(new Date(Date.now() - 60_000))).toBe(0);
+    expect(await db.purgeDeletedFiles(new Date(Date.now() + 60_000))).toBe(1);
+    expect(await db.getDeletedFiles()).toEqual([]);
+  });
+
+  test('records every change in the change feed', async () => {
+    const reset = await db.getFileChanges(null, 100);
+    expect(reset.reset).toBe(true);
+
+    const feed = await db.getFileChanges(0, 100);
+    expect(feed.reset).toBe(false);
+    expect(feed.cursor).toBe(reset.cursor);
+    expect(feed.added.length).toBe(2);
+    expect(feed.removed.length).toBe(1);
+
+    const page = await db.getFileChanges(0, 1);
+    expect(page.hasMore).toBe(true);
+    expect((await db.getFileChanges(reset.cursor, 100)).added).toEqual([]);
+  });
+
+  test('reports library statistics', async () => {
+    const folder = await db.createWatchFolder({ path: '/data/offline', name: 'Offline' });
+    await db.setWatchFolderUnavailable(folder.id!, 'Mount point missing');
+    await db.recordScan({ filesFound: 2, duration: 120, watchFolderId: folder.id });
+
+    const stats = await db.getStats();
+
+    expect(stats.totalFiles).toBe(2);
+    expect(stats.unmatchedFiles).toBe(0);
+    expect(stats.uniqueImdb).toBe(2);
+    expect(stats.totalSize).toBe(5_200_000_000);
+    expect(stats.byType).toEqual({ movie: 1, series: 1 });
+    expect(stats.lastScan?.filesFound).toBe(2);
+    expect(stats.lastScan?.status).toBe('completed');
+    expect(stats.unavailableWatchFolders.map(f => f.reason)).toEqual(['Mount point missing']);
+  });
+
+  test('clears all files, including the trash', async () => {
+    await db.removeFile('Shows/Show.S01E01.mkv');
+
+    expect(await db.clearFiles()).toBe(1);
+    expect(await db.getAllFiles()).toEqual([]);
+    expect(await db.getDeletedFiles()).toEqual([]);
+    expect((await db.getStats()).totalFiles).toBe(0);
+  });
+
+  test('gives each sidecar subtitle to the longest video name it matches in its directory', async () => {
+    const folder = await db.createWatchFolder({ path: '/data/films', name: 'Films' });
+    await db.upsertFilesBatch([
+      movie({ name: 'Movie.mkv', path: 'Films/Movie.mkv', watch_folder_id: folder.id }),
+      movie({ name: 'Movie.Part2.mkv', path: 'Films/Movie.Part2.mkv', watch_folder_id: folder.id }),
+      movie({ name: 'Movie.fr.mkv', path: 'Films/Movie.fr.mkv', watch_folder_id: folder.id })
+    ]);
+    const sidecar = (name: string, language: string | null) => ({
+      name, path: `Films/${name}`, size: 40_000, mtime: 1_700_000_000_000, format: 'srt', language, is_forced: false, is_hearing_impaired: false
+    });
+
+    // Listed for every video; Movie.fr.srt is named after both Movie.mkv (French) and Movie.fr.mkv
+    const subtitles = [
+      sidecar('Movie.en.srt', 'eng'), sidecar('Movie.fr.srt', 'fre'), sidecar('Movie.Part2.en.srt', 'eng'), sidecar('Movie.Part2.srt', null)
+    ];
+    expect(await db.syncSidecarSubtitles(folder.id!, [
+      { path: 'Films/Movie.mkv', subtitles },
+      { path: 'Films/Movie.Part2.mkv', subtitles },
+      { path: 'Films/Movie.fr.mkv', subtitles }
+    ])).toBe(3);
+
+    const movieFile = await db.getFileByPath('Films/Movie.mkv');
+    const part2File = await db.getFileByPath('Films/Movie.Part2.mkv');
+    expect((await db.getSidecarSubtitles(movieFile!.id!))?.map(sub => sub.name)).toEqual(['Movie.en.srt']);
+    const frenchFile = await db.getFileByPath('Films/Movie.fr.mkv');
+    expect((await db.getSidecarSubtitles(part2File!.id!))?.map(sub => sub.name).sort()).toEqual(['Movie.Part2.en.srt', 'Movie.Part2.srt']);
+    expect((await db.getSidecarSubtitles(frenchFile!.id!))?.map(sub => sub.name)).toEqual(['Movie.fr.srt']);
+  });
+});
@@ -0,0 +1,123 @@
+import net from 'net';
+
+/**
+ * Stored item, with the expiration as sent by the client (seconds, or a Unix timestamp above 30 days)
+ */
+export interface FakeMemcachedItem {
+  value: string;
+  flags: string;
+  exptime: number;
+}
+
+/**
+ * In-process memcached stand-in speaking the text protocol, for cache provider tests
+ * Implements the commands the memcached cache provider uses: get, set, add, delete,
+ * incr, stats and version. Expirations are recorded, not enforced.
+ */
+export class FakeMemcachedServer {
+  private server: net.Server;
+  private sockets = new Set<net.Socket>();
+  items = new Map<string, FakeMemcachedItem>();
+  commands: string[] = [];
+
+  constructor() {
+    this.server = net.createServer((socket) => this._handleConnection(socket));
+  }
+
+  /**
+   * Start listening on a random local port
+   * @returns Port number
+   */
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  /**
+   * Stop the server and drop all connections
+   */
+  async close(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private _handleConnection(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    let buffer = '';
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+      let parsed: { line: string; data: string | null; rest: string } | null;
+      while ((parsed = this._parse(buffer)) !== null) {
+        buffer = parsed.rest;
+        this.commands.push(parsed.line);
+        socket.write(this._execute(parsed.line, parsed.data));
+      }
+    });
+  }
+
+  /**
+   * Parse one command line, plus its data block for storage commands; null until complete
+   */
+  private _parse(buffer: string): { line: string; data: string | null; rest: string } | null {
+    const end = buffer.indexOf('\r\n');
+    if (end === -1) {
+      return null;
+    }
+    const line = buffer.slice(0, end);
+    const [command, , , , bytes] = line.split(' ');
+    if (command !== 'set' && command !== 'add') {
+      return { line, data: null, rest: buffer.slice(end + 2) };
+    }
+
+    const length = parseInt(bytes, 10);
+    const data = Buffer.from(buffer.slice(end + 2), 'utf8');
+    if (data.length < length + 2) {
+      return null;
+    }
+    return {
+      line,
+      data: data.subarray(0, length).toString('utf8'),
+      rest: data.subarray(length + 2).toString('utf8')
+    };
+  }
+
+  private _execute(line: string, data: string | null): string {
+    const [command, ...args] = line.split(' ');
+    switch (command) {
+      case 'version':
+        return 'VERSION 1.6.21\r\n';
+      case 'get': {
+        const item = this.items.get(args[0]);
+        return item
+          ? `VALUE ${args[0]} ${item.flags} ${Buffer.byteLength(item.value)}\r\n${item.value}\r\nEND\r\n`
+          : 'END\r\n';
+      }
+      case 'set':
+      case 'add': {
+        const [key, flags, exptime] = args;
+        if (command === 'add' && this.items.has(key)) {
+          return 'NOT_STORED\r\n';
+        }
+        this.items.set(key, { value: data!, flags, exptime: parseInt(exptime, 10) });
+        return 'STORED\r\n';
+      }
+      case 'delete':
+        return this.items.delete(args[0]) ? 'DELETED\r\n' : 'NOT_FOUND\r\n';
+      case 'incr': {
+        const item = this.items.get(args[0]);
+        if (!item) {
+          return 'NOT_FOUND\r\n';
+        }
+        item.value = String(BigInt(item.value) + BigInt(args[1]));
+        return `${item.value}\r\n`;
+      }
+      case 'stats':
+        return `STAT pid 1\r\nSTAT curr_items ${this.items.size}\r\nEND\r\n`;
+      default:
+        return 'ERROR\r\n';
+    }
+  }
+}
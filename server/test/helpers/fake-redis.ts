@@ -0,0 +1,196 @@
+import net from 'net';
+
+/**
+ * In-process Redis stand-in speaking RESP, for cache provider tests
+ * Implements the commands the Redis cache provider and ioredis use: GET, SET (PX),
+ * DEL, SCAN (MATCH, COUNT), INFO, PING and QUIT, with per-key expiry
+ */
+export class FakeRedisServer {
+  private server: net.Server;
+  private sockets = new Set<net.Socket>();
+  private entries = new Map<string, { value: string; expiresAt: number | null }>();
+  private scanCursors = new Map<string, string>();
+  commands: string[][] = [];
+
+  constructor() {
+    this.server = net.createServer((socket) => this._handleConnection(socket));
+  }
+
+  /**
+   * Start listening on a random local port
+   * @returns Port number
+   */
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  /**
+   * Stop the server and drop all connections
+   */
+  async close(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Stored keys (expired keys excluded)
+   */
+  keys(): string[] {
+    return [...this.entries.keys()].filter(key => this._lookup(key) !== null);
+  }
+
+  /**
+   * Remaining time to live of a key in milliseconds (null: no expiry or missing)
+   */
+  pttl(key: string): number | null {
+    const entry = this.entries.get(key);
+    return entry?.expiresAt ? entry.expiresAt - Date.now() : null;
+  }
+
+  /**
+   * Store a raw value, as another client sharing the server would
+   */
+  put(key: string, value: string): void {
+    this.entries.set(key, { value, expiresAt: null });
+  }
+
+  private _handleConnection(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    let buffer: Buffer = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed: { args: string[]; rest: Buffer } | null;
+      while ((parsed = this._parse(buffer)) !== null) {
+        buffer = parsed.rest;
+        this.commands.push(parsed.args);
+        socket.write(this._execute(parsed.args));
+        if (parsed.args[0].toUpperCase() === 'QUIT') {
+          socket.end();
+        }
+      }
+    });
+  }
+
+  /**
+   * Parse one command (RESP array of bulk strings); null until it is complete
+   */
+  private _parse(buffer: Buffer): { args: string[]; rest: Buffer } | null {
+    let offset = 0;
+    const readLine = (): string | null => {
+      const end = buffer.indexOf('\r\n', offset);
+      if (end === -1) {
+        return null;
+      }
+      const line = buffer.toString('utf8', offset, end);
+      offset = end + 2;
+      return line;
+    };
+
+    const header = readLine();
+    if (header === null) {
+      return null;
+    }
+    const count = parseInt(header.slice(1), 10);
+    const args: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const lengthLine = readLine();
+      if (lengthLine === null) {
+        return null;
+      }
+      const length = parseInt(lengthLine.slice(1), 10);
+      if (buffer.length < offset + length + 2) {
+        return null;
+      }
+      args.push(buffer.toString('utf8', offset, offset + length));
+      offset += length + 2;
+    }
+    return { args, rest: buffer.subarray(offset) };
+  }
+
+  private _execute([command, ...args]: string[]): string {
+    switch (command.toUpperCase()) {
+      case 'PING':
+        return '+PONG\r\n';
+      case 'INFO':
+        return this._bulk('# Server\r\nredis_version:7.0.0\r\nloading:0\r\n');
+      case 'QUIT':
+        return '+OK\r\n';
+      case 'GET':
+        return this._bulk(this._lookup(args[0]));
+      case 'SET': {
+        const pxIndex = args.findIndex(arg => arg.toUpperCase() === 'PX');
+        const expiresAt = pxIndex !== -1 ? Date.now() + parseInt(args[pxIndex + 1], 10) : null;
+        this.entries.set(args[0], { value: args[1], expiresAt });
+        return '+OK\r\n';
+      }
+      case 'DEL':
+        return `:${args.filter(key => this._lookup(key) !== null && this.entries.delete(key)).length}\r\n`;
+      case 'SCAN':
+        return this._scan(args);
+      default:
+        return `-ERR unknown command '${command}'\r\n`;
+    }
+  }
+
+  /**
+   * SCAN with the cursor standing for the last returned key, so keys deleted
+   * during an iteration do not make it skip others (as with real Redis)
+   */
+  private _scan([cursorArg, ...options]: string[]): string {
+    let pattern = '*';
+    let count = 10;
+    for (let i = 0; i < options.length; i += 2) {
+      if (options[i].toUpperCase() === 'MATCH') pattern = options[i + 1];
+      if (options[i].toUpperCase() === 'COUNT') count = parseInt(options[i + 1], 10);
+    }
+
+    const after = this.scanCursors.get(cursorArg);
+    const keys = this.keys().sort().filter(key => after === undefined || key > after);
+    const batch = keys.slice(0, count);
+    let next = '0';
+    if (keys.length > count) {
+      next = String(this.scanCursors.size + 1);
+      this.scanCursors.set(next, batch[batch.length - 1]);
+    }
+    const matcher = this._globToRegExp(pattern);
+    const page = batch.filter(key => matcher.test(key));
+    return `*2\r\n${this._bulk(next)}*${page.length}\r\n${page.map(key => this._bulk(key)).join('')}`;
+  }
+
+  private _lookup(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  private _globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '\\' && i + 1 < pattern.length) {
+        source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      } else if (char === '*') {
+        source += '.*';
+      } else if (char === '?') {
+        source += '.';
+      } else {
+        source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}$`, 's');
+  }
+
+  private _bulk(value: string | null): string {
+    return value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+}
@@ -0,0 +1,178 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import net from 'net';
+import config from '../src/config';
+import { MemcachedCacheService } from '../src/services/cache/providers/memcached.cache.service';
+import { FakeMemcachedServer } from './helpers/fake-memcached';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let server: FakeMemcachedServer;
+let port: number;
+const services: MemcachedCacheService[] = [];
+
+/**
+ * Create a provider for a memcached location, with the given key prefix
+ */
+function createService(location = `127.0.0.1:${port}`, prefix = 'stremio-nas:'): MemcachedCacheService {
+  const previousPrefix = config.cache.keyPrefix;
+  config.cache.keyPrefix = prefix;
+  const service = new MemcachedCacheService(location);
+  config.cache.keyPrefix = previousPrefix;
+  services.push(service);
+  return service;
+}
+
+/**
+ * Stored keys of the namespace, without the prefix and generation
+ */
+function namespacedKeys(prefix = 'stremio-nas:'): string[] {
+  const generation = server.items.get(`${prefix}generation`)?.value;
+  return [...server.items.keys()]
+    .filter(key => key.startsWith(`${prefix}${generation}:`))
+    .map(key => key.slice(`${prefix}${generation}:`.length));
+}
+
+/**
+ * A local port nothing listens on
+ */
+async function closedPort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+  const { port: free } = probe.address() as net.AddressInfo;
+  await new Promise<void>((resolve) => probe.close(() => resolve()));
+  return free;
+}
+
+beforeAll(async () => {
+  server = new FakeMemcachedServer();
+  port = await server.listen();
+});
+
+beforeEach(() => {
+  server.items.clear();
+});
+
+afterEach(async () => {
+  await Promise.all(services.splice(0).map(service => service.disconnect()));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('MemcachedCacheService', () => {
+  test('stores values under the namespace prefix and generation', async () => {
+    const cache = createService();
+    const value = { parsedName: 'Movie', imdb_id: 'tt0000001', season: null };
+
+    await cache.set('imdb:Movie 2020.mkv', value, 60_000);
+
+    expect(server.items.has('stremio-nas:generation')).toBe(true);
+    expect(namespacedKeys()).toEqual(['imdb%3AMovie%202020.mkv']); // Memcached keys cannot contain spaces
+    expect(await cache.get('imdb:Movie 2020.mkv', 60_000)).toEqual(value);
+    expect(await cache.get('imdb:Other.mkv', 60_000)).toBeNull();
+  });
+
+  test('converts TTLs to memcached expirations', async () => {
+    const cache = createService();
+    const generation = () => server.items.get('stremio-nas:generation')!.value;
+
+    await cache.set('short', 'value', 1500);
+    await cache.set('default', 'value');
+    await cache.set('long', 'value', 60 * 24 * 60 * 60 * 1000);
+
+    expect(server.items.get(`stremio-nas:${generation()}:short`)!.exptime).toBe(2);
+    expect(server.items.get(`stremio-nas:${generation()}:default`)!.exptime).toBe(config.cache.imdbTTL / 1000);
+    // Above 30 days memcached expects an absolute Unix timestamp
+    const longExpiry = server.items.get(`stremio-nas:${generation()}:long`)!.exptime;
+    expect(Math.abs(longExpiry - (Date.now() / 1000 + 60 * 24 * 60 * 60))).toBeLessThan(5);
+  });
+
+  test('treats entries older than the read TTL as expired and removes them', async () => {
+    const cache = createService();
+
+    await cache.set('stale', 'value', 60_000);
+    await sleep(30);
+
+    expect(await cache.get('stale', 10)).toBeNull();
+    expect(namespacedKeys()).toEqual([]);
+  });
+
+  test('hashes keys longer than memcached allows', async () => {
+    const cache = createService();
+    const key = `imdb:${'Very.Long.Release.Name.'.repeat(20)}mkv`;
+
+    await cache.set(key, 'value', 60_000);
+    await cache.delete('missing');
+
+    expect(namespacedKeys()).toEqual([expect.stringMatching(/^sha1:[0-9a-f]{40}$/)]);
+    expect(await cache.get(key, 60_000)).toBe('value');
+    await cache.delete(key);
+    expect(await cache.get(key, 60_000)).toBeNull();
+  });
+
+  test('clear() invalidates the namespace for every replica via the generation key', async () => {
+    const cache = createService();
+    const replica = createService();
+    const otherApp = createService(undefined, 'other:');
+    await cache.set('key', 'value', 60_000);
+    await otherApp.set('key', 'kept', 60_000);
+    expect(await replica.get('key', 60_000)).toBe('value');
+    const generation = server.items.get('stremio-nas:generation')!.value;
+
+    await cache.clear();
+
+    expect(server.items.get('stremio-nas:generation')!.value).toBe(String(BigInt(generation) + 1n));
+    expect(await cache.get('key', 60_000)).toBeNull();
+    expect(await replica.get('key', 60_000)).toBeNull();
+    expect(await otherApp.get('key', 60_000)).toBe('kept');
+    expect(server.commands.some(command => command.startsWith('flush_all'))).toBe(false);
+  });
+
+  test('clear() starts a new generation when the generation key was evicted', async () => {
+    const cache = createService();
+    await cache.set('key', 'value', 60_000);
+    const generation = server.items.get('stremio-nas:generation')!.value;
+    server.items.delete('stremio-nas:generation');
+    await sleep(5); // New generations are timestamps
+
+    await cache.clear();
+
+    expect(server.items.get('stremio-nas:generation')!.value).not.toBe(generation);
+    expect(await cache.get('key', 60_000)).toBeNull();
+  });
+
+  test('reports the item count of the server', async () => {
+    const cache = createService();
+    await cache.set('a', 1, 60_000);
+    await cache.set('b', 2, 60_000);
+
+    // Generation key included: memcached only reports a total
+    expect(await cache.getStats()).toEqual({ size: 3, maxSize: config.cache.maxSize });
+  });
+
+  test('falls back to the memory cache when memcached is unreachable at startup', async () => {
+    const cache = createService(`127.0.0.1:${await closedPort()}`);
+
+    await cache.set('key', 'value', 60_000);
+
+    expect(await cache.get('key', 60_000)).toBe('value');
+    expect(await cache.getStats()).toEqual({ size: 1, maxSize: config.cache.maxSize });
+    await cache.clear();
+    expect(await cache.get('key', 60_000)).toBeNull();
+  });
+
+  // Commands on the dropped connection only fail once they time out
+  test('logs errors after startup instead of rejecting or hanging', async () => {
+    const stopped = new FakeMemcachedServer();
+    const cache = createService(`127.0.0.1:${await stopped.listen()}`);
+    await cache.set('key', 'value', 60_000);
+    await stopped.close();
+
+    expect(await cache.get('key', 60_000)).toBeNull();
+    await cache.set('key', 'value', 60_000);
+    await cache.delete('key');
+    await cache.clear();
+    expect(await cache.getStats()).toEqual({ size: 0, maxSize: config.cache.maxSize });
+  }, 15_000);
+});
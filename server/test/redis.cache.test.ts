@@ -0,0 +1,130 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import Redis from 'ioredis';
+import config from '../src/config';
+import { RedisCacheService } from '../src/services/cache/providers/redis.cache.service';
+import { FakeRedisServer } from './helpers/fake-redis';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let server: FakeRedisServer;
+let port: number;
+const services: RedisCacheService[] = [];
+
+/**
+ * Create a provider connected to the fake server, with the given key prefix
+ */
+function createService(prefix = 'stremio-nas:'): RedisCacheService {
+  const previousPrefix = config.cache.keyPrefix;
+  config.cache.keyPrefix = prefix;
+  const service = new RedisCacheService(new Redis({
+    host: '127.0.0.1',
+    port,
+    maxRetriesPerRequest: 0,
+    retryStrategy: () => null // Fail fast once the server is gone
+  }));
+  config.cache.keyPrefix = previousPrefix;
+  services.push(service);
+  return service;
+}
+
+beforeAll(async () => {
+  server = new FakeRedisServer();
+  port = await server.listen();
+});
+
+afterEach(async () => {
+  await Promise.all(services.splice(0).map(service => service.disconnect().catch(() => undefined)));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('RedisCacheService', () => {
+  test('stores values as JSON under the namespace prefix', async () => {
+    const cache = createService();
+    const value = { parsedName: 'Movie', imdb_id: 'tt0000001', season: null };
+
+    await cache.set('imdb:Movie.2020.mkv', value, 60_000);
+
+    expect(server.keys()).toContain('stremio-nas:imdb:Movie.2020.mkv');
+    expect(await cache.get('imdb:Movie.2020.mkv', 60_000)).toEqual(value);
+    expect(await cache.get('imdb:Other.mkv', 60_000)).toBeNull();
+  });
+
+  test('sets the Redis expiry of each key from its TTL', async () => {
+    const cache = createService();
+
+    await cache.set('short', 'value', 50);
+    await cache.set('default', 'value');
+
+    expect(server.pttl('stremio-nas:short')).toBeLessThanOrEqual(50);
+    expect(server.pttl('stremio-nas:default')).toBeGreaterThan(config.cache.imdbTTL - 1000);
+
+    await sleep(80);
+    expect(await cache.get('short', 60_000)).toBeNull(); // Expired by Redis
+    expect(await cache.get('default', 60_000)).toBe('value');
+  });
+
+  test('treats entries older than the read TTL as expired and removes them', async () => {
+    const cache = createService();
+
+    await cache.set('stale', 'value', 60_000);
+    await sleep(30);
+
+    expect(await cache.get('stale', 10)).toBeNull();
+    expect(server.keys()).not.toContain('stremio-nas:stale');
+  });
+
+  test('deletes single keys', async () => {
+    const cache = createService();
+
+    await cache.set('removed', 'value', 60_000);
+    await cache.delete('removed');
+    await cache.delete('missing');
+
+    expect(await cache.get('removed', 60_000)).toBeNull();
+  });
+
+  test('counts and clears only keys in its namespace, using SCAN in batches', async () => {
+    const cache = createService('app[1]:');
+    const other = createService('other:');
+    for (let i = 0; i < 1200; i++) {
+      server.put(`app[1]:key${i}`, JSON.stringify({ value: i, storedAt: Date.now() }));
+    }
+    server.put('app1:not-ours', 'value'); // Matches the prefix as an unescaped glob
+    await other.set('kept', 'value', 60_000);
+
+    server.commands = [];
+    expect(await cache.getStats()).toEqual({ size: 1200, maxSize: config.cache.maxSize });
+    expect(server.commands.filter(([command]) => command.toUpperCase() === 'SCAN').length).toBeGreaterThan(1);
+    expect(server.commands.some(([command]) => command.toUpperCase() === 'KEYS')).toBe(false);
+
+    await cache.clear();
+
+    expect(await cache.getStats()).toEqual({ size: 0, maxSize: config.cache.maxSize });
+    expect(await other.get('kept', 60_000)).toBe('value');
+    expect(server.keys()).toContain('app1:not-ours');
+  });
+
+  test('logs connection errors instead of rejecting', async () => {
+    const stopped = new FakeRedisServer();
+    const stoppedPort = await stopped.listen();
+    const cache = new RedisCacheService(new Redis({
+      host: '127.0.0.1',
+      port: stoppedPort,
+      maxRetriesPerRequest: 0,
+      retryStrategy: () => null
+    }));
+    services.push(cache);
+    await cache.set('key', 'value', 60_000);
+    await stopped.close();
+    await sleep(20);
+
+    expect(await cache.get('key', 60_000)).toBeNull();
+    await cache.set('key', 'value', 60_000);
+    await cache.delete('key');
+    await cache.clear();
+    expect(await cache.getStats()).toEqual({ size: 0, maxSize: config.cache.maxSize });
+  });
+});
@@ -0,0 +1,19 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Test environment, loaded before any test file (see bunfig.toml)
+ * Configuration is read when modules are first imported, so it has to be set here
+ */
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'stremio-nas-test-'));
+
+process.env.DB_TYPE = 'sqlite';
+process.env.DB_PATH = path.join(dataDir, 'media.db');
+process.env.FFMPEG_CACHE_DIR = path.join(dataDir, 'cache');
+process.env.HLS_CACHE_DIR = path.join(dataDir, 'hls');
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+process.on('exit', () => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import createApp from '../src/app';
+import config from '../src/config';
+import db from '../src/services/database.service';
+import streamUrlService, { StreamUrlSignature } from '../src/services/stream-url.service';
+import { SidecarSubtitle } from '../src/types/database';
+
+/**
+ * Signed URLs through the app: the API key bypass for ?sig= requests and the signature checks behind it
+ * Stream and subtitle requests that pass the signature check end in 404 (no such file in the test database)
+ */
+
+const API_KEY = 'test-api-key';
+const previousApiKey = config.apiKey;
+let server: Server;
+let baseUrl: string;
+
+// Sidecar subtitles 1 and 2 belong to files 1 and 2
+const sidecarSpy = spyOn(db, 'getSidecarSubtitleById').mockImplementation(async (subtitleId: number) =>
+  subtitleId <= 2
+    ? { id: subtitleId, file_id: subtitleId, name: 'Movie.en.srt', path: 'Movie.en.srt', size: 40, mtime: 0, format: 'srt', is_forced: false, is_hearing_impaired: false } as SidecarSubtitle
+    : null
+);
+
+function query(signature: StreamUrlSignature): string {
+  return streamUrlService.toQuery(signature);
+}
+
+async function request(path: string, init: RequestInit = {}): Promise<{ status: number; error?: string }> {
+  const response = await fetch(`${baseUrl}${path}`, init);
+  const body = await response.json().catch(() => ({})) as { error?: string };
+  return { status: response.status, error: body.error };
+}
+
+beforeAll(async () => {
+  config.apiKey = API_KEY;
+  server = createApp().listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  config.apiKey = previousApiKey;
+  sidecarSpy.mockRestore();
+});
+
+describe('Signed URLs', () => {
+  test('replace the API key on stream, subtitle and event stream URLs', async () => {
+    const signature = streamUrlService.sign(1, 60, null);
+
+    expect(await request('/api/stream/1')).toEqual({ status: 401, error: 'API key required' });
+    expect(await request(`/api/stream/1?${query(signature)}`)).toEqual({ status: 404, error: 'File not found' });
+    expect((await request(`/api/stream/1?${query(signature)}`, { method: 'HEAD' })).status).toBe(404);
+    expect(await request(`/api/stream/1/subtitles/2.vtt?${query(signature)}`)).toEqual({ status: 404, error: 'File not found' });
+    expect(await request(`/api/subtitles/1?${query(signature)}`)).toEqual({ status: 404, error: 'Subtitle not found' });
+
+    const events = await fetch(`${baseUrl}/api/events?${query(streamUrlService.signEvents(60))}`);
+    expect(events.status).toBe(200);
+    expect(events.headers.get('content-type')).toStartWith('text/event-stream');
+    await events.body?.cancel();
+  });
+
+  test('reject a tampered signature or expiry', async () => {
+    const signature = streamUrlService.sign(1, 60, null);
+    const flipped = signature.sig[0] === 'A' ? 'B' : 'A';
+
+    expect(await request(`/api/stream/1?exp=${signature.exp}&sig=${flipped}${signature.sig.slice(1)}`))
+      .toEqual({ status: 401, error: 'Invalid stream URL signature' });
+    expect(await request(`/api/stream/1?exp=${signature.exp + 3600}&sig=${signature.sig}`))
+      .toEqual({ status: 401, error: 'Invalid stream URL signature' });
+    expect(await request(`/api/stream/1?exp=soon&sig=${signature.sig}`))
+      .toEqual({ status: 401, error: 'Invalid stream URL signature' });
+    expect(await request(`/api/subtitles/1?exp=${signature.exp + 3600}&sig=${signature.sig}`))
+      .toEqual({ status: 401, error: 'Invalid stream URL signature' });
+  });
+
+  test('reject an expired URL', async () => {
+    const signature = streamUrlService.sign(1, -1, null);
+
+    expect(await request(`/api/stream/1?${query(signature)}`)).toEqual({ status: 401, error: 'Stream URL expired' });
+    expect(await request(`/api/subtitles/1?${query(signature)}`)).toEqual({ status: 401, error: 'Stream URL expired' });
+    expect(await request(`/api/events?${query(streamUrlService.signEvents(-1))}`)).toEqual({ status: 401, error: 'Stream URL expired' });
+  });
+
+  test('reject an IP-bound URL used from another IP', async () => {
+    const local = streamUrlService.sign(1, 60, '127.0.0.1');
+    const remote = streamUrlService.sign(1, 60, '203.0.113.7');
+
+    expect((await request(`/api/stream/1?${query(local)}`)).status).toBe(404);
+    expect(await request(`/api/stream/1?${query(remote)}`)).toEqual({ status: 401, error: 'Invalid stream URL signature' });
+    // Forwarded headers are ignored unless TRUST_PROXY is set
+    expect(await request(`/api/stream/1?${query(remote)}`, { headers: { 'X-Forwarded-For': '203.0.113.7' } }))
+      .toEqual({ status: 401, error: 'Invalid stream URL signature' });
+    // Without ip=1 the signature does not match
+    expect(await request(`/api/stream/1?exp=${remote.exp}&sig=${remote.sig}`)).toEqual({ status: 401, error: 'Invalid stream URL signature' });
+  });
+
+  test('do not authorize POST requests', async () => {
+    const signature = streamUrlService.sign(1, 60, null);
+    const rejected = { status: 401, error: 'Signed stream URLs are only valid for GET and HEAD requests' };
+
+    expect(await request(`/api/stream/1/token?${query(signature)}`, { method: 'POST' })).toEqual(rejected);
+    expect(await request(`/api/events?${query(streamUrlService.signEvents(60))}`, { method: 'POST' })).toEqual(rejected);
+    expect(await request(`/api/events/token?${query(streamUrlService.signEvents(60))}`, { method: 'POST' }))
+      .toEqual({ status: 401, error: 'API key required' });
+    expect(await request(`/api/subtitles/1?${query(signature)}`, { method: 'POST' })).toEqual(rejected);
+  });
+
+  test('only bypass the API key under /api/stream/, /api/subtitles/ and /api/events', async () => {
+    const signature = streamUrlService.sign(1, 60, null);
+    const events = streamUrlService.signEvents(60);
+
+    expect(await request(`/api/files/1?${query(signature)}`)).toEqual({ status: 401, error: 'API key required' });
+    expect(await request(`/api/files?${query(signature)}`)).toEqual({ status: 401, error: 'API key required' });
+    expect(await request(`/api/scans?${query(events)}`)).toEqual({ status: 401, error: 'API key required' });
+    expect(await request(`/api/events/token?${query(events)}`)).toEqual({ status: 401, error: 'API key required' });
+    expect(await request(`/api/streams/1?${query(signature)}`)).toEqual({ status: 401, error: 'API key required' });
+  });
+
+  test('cannot be replayed on another path', async () => {
+    const file1 = streamUrlService.sign(1, 60, null);
+    const events = streamUrlService.signEvents(60);
+    const invalid = { status: 401, error: 'Invalid stream URL signature' };
+
+    expect(await request(`/api/stream/2?${query(file1)}`)).toEqual(invalid);
+    expect(await request(`/api/stream/2/remux.mp4?${query(file1)}`)).toEqual(invalid);
+    expect(await request(`/api/subtitles/2?${query(file1)}`)).toEqual(invalid);
+    expect(await request(`/api/subtitles/3?${query(file1)}`)).toEqual(invalid); // Unknown subtitle
+    expect(await request(`/api/events?${query(file1)}`)).toEqual(invalid);
+    expect(await request(`/api/stream/1?${query(events)}`)).toEqual(invalid);
+    expect(await request(`/api/subtitles/1?${query(events)}`)).toEqual(invalid);
+  });
+});
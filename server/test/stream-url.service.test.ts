@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+import streamUrlService from '../src/services/stream-url.service';
+
+/**
+ * Signing and verification of stream and event stream URL signatures
+ */
+
+describe('StreamUrlService', () => {
+  test('verifies a signature for its file', () => {
+    const signature = streamUrlService.sign(1, 60, null);
+
+    expect(signature.ipBound).toBe(false);
+    expect(streamUrlService.verify(1, signature, '198.51.100.1')).toBe('valid');
+    expect(streamUrlService.verify(1, signature, undefined)).toBe('valid');
+    expect(streamUrlService.toQuery(signature)).toBe(`exp=${signature.exp}&sig=${signature.sig}`);
+  });
+
+  test('rejects a tampered signature or expiry', () => {
+    const signature = streamUrlService.sign(1, 60, null);
+    const flipped = signature.sig[0] === 'A' ? 'B' : 'A';
+
+    expect(streamUrlService.verify(1, { ...signature, sig: flipped + signature.sig.slice(1) }, undefined)).toBe('invalid');
+    expect(streamUrlService.verify(1, { ...signature, sig: signature.sig.slice(1) }, undefined)).toBe('invalid');
+    expect(streamUrlService.verify(1, { ...signature, exp: signature.exp + 3600 }, undefined)).toBe('invalid');
+    // Dropping the IP binding flag changes what was signed
+    expect(streamUrlService.verify(1, { ...signature, ipBound: true }, '198.51.100.1')).toBe('invalid');
+  });
+
+  test('rejects an expired signature', () => {
+    const signature = streamUrlService.sign(1, -1, null);
+
+    expect(streamUrlService.verify(1, signature, undefined)).toBe('expired');
+    // An expiry moved forward is a tampered signature, not a valid one
+    expect(streamUrlService.verify(1, { ...signature, exp: signature.exp + 60 }, undefined)).toBe('invalid');
+  });
+
+  test('accepts an IP-bound signature only from its IP', () => {
+    const signature = streamUrlService.sign(1, 60, '203.0.113.7');
+
+    expect(signature.ipBound).toBe(true);
+    expect(streamUrlService.toQuery(signature)).toBe(`exp=${signature.exp}&sig=${signature.sig}&ip=1`);
+    expect(streamUrlService.verify(1, signature, '203.0.113.7')).toBe('valid');
+    expect(streamUrlService.verify(1, signature, '::ffff:203.0.113.7')).toBe('valid'); // IPv4 on a dual-stack socket
+    expect(streamUrlService.verify(1, signature, '203.0.113.8')).toBe('invalid');
+    expect(streamUrlService.verify(1, signature, undefined)).toBe('invalid');
+    expect(streamUrlService.verify(1, { ...signature, ipBound: false }, '203.0.113.7')).toBe('invalid');
+  });
+
+  test('scopes signatures to one file or the event stream', () => {
+    const fileSignature = streamUrlService.sign(1, 60, null);
+    const eventsSignature = streamUrlService.signEvents(60);
+
+    expect(streamUrlService.verify(2, fileSignature, undefined)).toBe('invalid');
+    expect(streamUrlService.verifyEvents(fileSignature, undefined)).toBe('invalid');
+    expect(streamUrlService.verifyEvents(eventsSignature, undefined)).toBe('valid');
+    expect(streamUrlService.verify(1, eventsSignature, undefined)).toBe('invalid');
+  });
+});
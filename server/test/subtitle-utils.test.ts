@@ -0,0 +1,23 @@
+import { describe, expect, test } from 'bun:test';
+import { parseSidecarName } from '../src/utils/subtitle-utils';
+
+describe('parseSidecarName', () => {
+  test('reads the language and flags from the suffixes', () => {
+    expect(parseSidecarName('Movie.mkv', 'Movie.srt')).toEqual({ language: null, is_forced: false, is_hearing_impaired: false });
+    expect(parseSidecarName('Movie.mkv', 'Movie.en.srt')).toEqual({ language: 'eng', is_forced: false, is_hearing_impaired: false });
+    expect(parseSidecarName('Movie.mkv', 'Movie.eng.forced.srt')).toEqual({ language: 'eng', is_forced: true, is_hearing_impaired: false });
+    expect(parseSidecarName('Movie.mkv', 'Movie.pt-BR.SDH.srt')).toEqual({ language: 'por', is_forced: false, is_hearing_impaired: true });
+  });
+
+  test('rejects subtitles of other videos', () => {
+    expect(parseSidecarName('Movie.mkv', 'Other.en.srt')).toBeNull();
+    expect(parseSidecarName('Movie.mkv', 'Movie2.en.srt')).toBeNull();
+  });
+
+  test('rejects suffixes that are neither a language nor a flag', () => {
+    expect(parseSidecarName('Movie.mkv', 'Movie.Part2.en.srt')).toBeNull();
+    expect(parseSidecarName('Movie.mkv', 'Movie.Part2.srt')).toBeNull();
+    expect(parseSidecarName('Show.S01E01.mkv', 'Show.S01E01.Extended.srt')).toBeNull();
+    expect(parseSidecarName('Movie.Part2.mkv', 'Movie.Part2.en.srt')).toEqual({ language: 'eng', is_forced: false, is_hearing_impaired: false });
+  });
+});